@@ -6,14 +6,15 @@ import { PrayerPills } from './components/PrayerPills';
 import { MarketingExpert } from './components/MarketingExpert';
 import { BotAgent } from './components/BotAgent';
 import { MarketingHistory } from './components/MarketingHistory';
-import { PrayerIcon, ImageIcon, LogoIcon, PillIcon, MarketingIcon, BotIcon, HistoryIcon } from './components/icons';
+import { Settings } from './components/Settings';
+import { PrayerIcon, ImageIcon, LogoIcon, PillIcon, MarketingIcon, BotIcon, HistoryIcon, SettingsIcon } from './components/icons';
 import { LanguageContext, LanguageContextType } from './context';
 import { getTranslator, supportedLanguages } from './i18n';
 import { usePersistentState } from './hooks/usePersistentState';
 import { MarketingHistoryItem } from './types';
 
 
-type View = 'prayer' | 'pills' | 'image' | 'marketing' | 'bot' | 'history';
+type View = 'prayer' | 'pills' | 'image' | 'marketing' | 'bot' | 'history' | 'settings';
 
 const ViewWrapper = ({ view, activeView, children }: { view: View; activeView: View; children: React.ReactNode }) => (
     <div style={{ display: view === activeView ? 'block' : 'none' }}>
@@ -81,6 +82,7 @@ const AppContent: React.FC = () => {
         <NavButton view="marketing" labelKey="navMarketing" icon={<MarketingIcon />} />
         <NavButton view="bot" labelKey="navBot" icon={<BotIcon />} />
         <NavButton view="history" labelKey="navHistory" icon={<HistoryIcon />} />
+        <NavButton view="settings" labelKey="navSettings" icon={<SettingsIcon />} />
       </nav>
 
       <main>
@@ -94,6 +96,7 @@ const AppContent: React.FC = () => {
           <MarketingHistory history={history} setHistory={setHistory} isStandalonePage={false} />
         </>} />
         <ViewWrapper view="history" activeView={activeView} children={<MarketingHistory history={history} setHistory={setHistory} isStandalonePage={true} />} />
+        <ViewWrapper view="settings" activeView={activeView} children={<Settings />} />
       </main>
       
       <footer className="text-center mt-8 text-gray-400 text-xs">
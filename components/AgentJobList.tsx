@@ -0,0 +1,103 @@
+import React, { useContext } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { AgentJob, AgentJobStatus, AgentJobStep, AgentStepStatus } from '../types';
+import { MAX_JOB_ATTEMPTS } from '../services/agentQueue';
+import { SpinnerIcon } from './icons';
+
+interface AgentJobListProps {
+    jobs: AgentJob[];
+    onRetry: (job: AgentJob) => void;
+    onRemove: (jobs: AgentJob[]) => void;
+}
+
+const STATUS_STYLES: Record<AgentJobStatus, { key: string; className: string }> = {
+    queued: { key: 'agentJobStatusQueued', className: 'bg-gray-600 text-gray-100' },
+    running: { key: 'agentJobStatusRunning', className: 'bg-teal-700 text-teal-100' },
+    succeeded: { key: 'agentJobStatusSucceeded', className: 'bg-green-800 text-green-100' },
+    failed: { key: 'agentJobStatusFailed', className: 'bg-red-800 text-red-100' },
+};
+
+const STEP_KEYS: Record<AgentJobStep, string> = {
+    text: 'agentJobStepText',
+    audio: 'agentJobStepAudio',
+    image: 'agentJobStepImage',
+};
+
+const STEP_STYLES: Record<AgentStepStatus, string> = {
+    pending: 'border-gray-600 text-gray-400',
+    running: 'border-teal-500 text-teal-300',
+    done: 'border-green-600 text-green-300',
+    failed: 'border-red-600 text-red-300',
+};
+
+export const AgentJobList: React.FC<AgentJobListProps> = ({ jobs, onRetry, onRemove }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const finished = jobs.filter(job => job.status === 'succeeded' || job.status === 'failed');
+    const formatTime = (at: number) => new Date(at).toLocaleTimeString(t('appLocaleCode'), { hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-xl font-bold text-amber-400">{t('agentJobsTitle')}</h3>
+                {finished.length > 0 && (
+                    <button onClick={() => onRemove(finished)} className="bg-gray-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-gray-500 transition">
+                        {t('agentJobsClearFinished')}
+                    </button>
+                )}
+            </div>
+            <p className="text-sm text-gray-300">{t('agentJobsInfo')}</p>
+
+            {jobs.length === 0 ? (
+                <p className="text-xs text-gray-400 italic text-center">{t('agentJobsEmpty')}</p>
+            ) : (
+                <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+                    {[...jobs].reverse().map(job => (
+                        <li key={job.id} className="p-3 bg-gray-900 rounded-lg border border-gray-700 space-y-2 text-xs">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className={`px-2 py-0.5 rounded-full font-semibold flex items-center gap-1 ${STATUS_STYLES[job.status].className}`}>
+                                    {job.status === 'running' && <SpinnerIcon className="animate-spin h-3 w-3" />}
+                                    {t(STATUS_STYLES[job.status].key)}
+                                </span>
+                                <span className="font-bold text-gray-200">{t(job.kind === 'long' ? 'marketingLongVideo' : 'marketingShortVideo')} · {job.language.toUpperCase()}</span>
+                                <span className="text-gray-400">{new Date(job.createdAt).toLocaleString(t('appLocaleCode'))}</span>
+                                <div className="ms-auto flex gap-2">
+                                    {job.status === 'failed' && (
+                                        <button onClick={() => onRetry(job)} className="bg-amber-500 text-gray-900 font-bold px-2 py-0.5 rounded hover:bg-amber-600 transition">{t('agentJobRetry')}</button>
+                                    )}
+                                    {job.status !== 'running' && (
+                                        <button onClick={() => onRemove([job])} className="bg-gray-600 px-2 py-0.5 rounded hover:bg-gray-500 transition">{t('agentJobRemove')}</button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {job.theme && <p className="text-gray-300 truncate">{job.theme}</p>}
+
+                            <div className="flex flex-wrap items-center gap-2">
+                                {(Object.keys(STEP_KEYS) as AgentJobStep[]).map(step => (
+                                    <span key={step} className={`px-2 py-0.5 rounded border ${STEP_STYLES[job.steps[step]]}`}>{t(STEP_KEYS[step])}</span>
+                                ))}
+                                {job.attempts > 0 && (
+                                    <span className="text-gray-400">{t('agentJobAttempts').replace('{attempt}', String(job.attempts)).replace('{max}', String(MAX_JOB_ATTEMPTS))}</span>
+                                )}
+                                {job.status === 'queued' && job.nextAttemptAt && (
+                                    <span className="text-gray-400">{t('agentJobNextAttempt').replace('{time}', formatTime(job.nextAttemptAt))}</span>
+                                )}
+                            </div>
+
+                            {job.error && <p className="text-red-400 break-words">{job.error}</p>}
+
+                            <details>
+                                <summary className="cursor-pointer text-gray-400 hover:text-gray-200">{t('agentJobLog')} ({job.log.length})</summary>
+                                <ol className="mt-1 space-y-0.5 font-mono text-gray-300 max-h-40 overflow-y-auto">
+                                    {job.log.map((entry, index) => (
+                                        <li key={index}><span className="text-gray-500">{formatTime(entry.at)}</span> {entry.message}</li>
+                                    ))}
+                                </ol>
+                            </details>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
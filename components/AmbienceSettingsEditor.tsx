@@ -0,0 +1,71 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { AmbienceSettings, AMBIENCE_BED_BLOB_KEY } from '../settings';
+import { idb } from '../hooks/usePersistentState';
+
+interface AmbienceSettingsEditorProps {
+    ambience: AmbienceSettings;
+    onChange: (ambience: AmbienceSettings) => void;
+}
+
+const RangeField = ({ label, value, min, max, step, unit, onChange }: {
+    label: string; value: number; min: number; max: number; step: number; unit: string; onChange: (value: number) => void;
+}) => (
+    <label className="block text-xs text-gray-400 space-y-1">
+        <span className="flex justify-between"><span>{label}</span><span className="font-mono text-gray-200">{value} {unit}</span></span>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-amber-500" />
+    </label>
+);
+
+export const AmbienceSettingsEditor: React.FC<AmbienceSettingsEditorProps> = ({ ambience, onChange }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const [customBedName, setCustomBedName] = useState<string | null>(null);
+
+    useEffect(() => {
+        idb.get<Blob>(AMBIENCE_BED_BLOB_KEY).then(blob => setCustomBedName(blob ? (blob instanceof File ? blob.name : t('ambienceCustomLoaded')) : null));
+    }, [t]);
+
+    const update = (patch: Partial<AmbienceSettings>) => onChange({ ...ambience, ...patch });
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        await idb.set(AMBIENCE_BED_BLOB_KEY, file);
+        setCustomBedName(file.name);
+        update({ source: 'custom' });
+    };
+
+    return (
+        <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-gray-200">
+                <input type="checkbox" checked={ambience.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="accent-amber-500" />
+                {t('ambienceAutoMix')}
+            </label>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {(['procedural', 'custom'] as const).map(source => (
+                    <label key={source} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition ${
+                        ambience.source === source ? 'border-amber-500 bg-gray-700' : 'border-gray-600 hover:bg-gray-700'
+                    }`}>
+                        <input type="radio" name="ambienceSource" checked={ambience.source === source} onChange={() => update({ source })} className="accent-amber-500" />
+                        <span className="text-sm text-gray-200">{t(source === 'procedural' ? 'ambienceSourceProcedural' : 'ambienceSourceCustom')}</span>
+                    </label>
+                ))}
+            </div>
+
+            {ambience.source === 'custom' && (
+                <div className="space-y-1">
+                    <input type="file" accept="audio/*" onChange={handleUpload} className="text-xs text-gray-300" />
+                    <p className="text-xs text-gray-400">{customBedName || t('ambienceCustomMissing')}</p>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <RangeField label={t('ambienceBedLevel')} value={ambience.bedLevelDb} min={-40} max={-6} step={1} unit="dB" onChange={(bedLevelDb) => update({ bedLevelDb })} />
+                <RangeField label={t('ambienceDucking')} value={ambience.duckDb} min={-24} max={0} step={1} unit="dB" onChange={(duckDb) => update({ duckDb })} />
+                <RangeField label={t('ambienceFadeIn')} value={ambience.fadeInSeconds} min={0} max={15} step={1} unit="s" onChange={(fadeInSeconds) => update({ fadeInSeconds })} />
+                <RangeField label={t('ambienceFadeOut')} value={ambience.fadeOutSeconds} min={0} max={15} step={1} unit="s" onChange={(fadeOutSeconds) => update({ fadeOutSeconds })} />
+            </div>
+        </div>
+    );
+};
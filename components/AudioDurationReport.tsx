@@ -0,0 +1,54 @@
+import React, { useContext } from 'react';
+import { AudioDurationCheck, LoudnessReport } from '../types';
+import { LanguageContext, LanguageContextType } from '../context';
+import { formatTimestamp } from '../utils/audio';
+
+interface AudioDurationReportProps {
+    check: AudioDurationCheck | null;
+}
+
+export const AudioDurationReport: React.FC<AudioDurationReportProps> = ({ check }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    if (!check) return null;
+
+    const actual = formatTimestamp(check.actualSeconds);
+    const label = check.targetSeconds
+        ? t('audioDurationTarget').replace('{actual}', actual).replace('{target}', formatTimestamp(check.targetSeconds))
+        : t('audioDurationActual').replace('{actual}', actual);
+
+    return (
+        <div className="text-xs space-y-1">
+            <p className={check.withinTolerance ? 'text-gray-400' : 'text-yellow-300'}>{label}</p>
+            {check.projectedSeconds !== undefined && (
+                <p className="text-gray-400">{t('audioDurationProjectedActual').replace('{projected}', formatTimestamp(check.projectedSeconds)).replace('{actual}', actual)}</p>
+            )}
+            {!check.withinTolerance && check.deviation !== undefined && (
+                <p className="text-yellow-300">{t('audioDurationOff').replace('{percent}', String(Math.round(Math.abs(check.deviation) * 100)))}</p>
+            )}
+        </div>
+    );
+};
+
+// Projection shown before synthesis, from the script's word count at the measured voice pace.
+export const DurationProjection: React.FC<{ projectedSeconds: number; targetSeconds?: number }> = ({ projectedSeconds, targetSeconds }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    if (projectedSeconds <= 0) return null;
+    const projected = formatTimestamp(projectedSeconds);
+    return (
+        <p className="text-xs text-gray-400">
+            {targetSeconds
+                ? t('durationProjectedTarget').replace('{projected}', projected).replace('{target}', formatTimestamp(targetSeconds))
+                : t('durationProjected').replace('{projected}', projected)}
+        </p>
+    );
+};
+
+export const LoudnessSummary: React.FC<{ report?: LoudnessReport }> = ({ report }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    if (!report || !Number.isFinite(report.outputLufs)) return null;
+    return (
+        <p className="text-xs text-gray-400" title={t('loudnessDetails').replace('{input}', report.inputLufs.toFixed(1)).replace('{gain}', report.gainDb.toFixed(1))}>
+            {t('loudnessSummary').replace('{lufs}', report.outputLufs.toFixed(1)).replace('{peak}', report.peakDb.toFixed(1))}
+        </p>
+    );
+};
@@ -1,21 +1,16 @@
 
-import React, { useState, useEffect, useContext, useCallback } from 'react';
-import {
-    getTrendingTopic,
-    generateGuidedPrayer,
-    generateShortPrayer,
-    generateSpeech,
-    generateImageFromPrayer,
-    createThumbnailPromptFromPost,
-    generateSocialMediaPost,
-    generateYouTubeLongPost,
-    MultiSpeakerConfig
-} from '../services/geminiService';
+import React, { useState, useEffect, useContext, useCallback, useMemo, useRef } from 'react';
 import { SpinnerIcon, BotIcon, YouTubeIcon, TikTokIcon } from './icons';
 import { LanguageContext, LanguageContextType } from '../context';
-import { AspectRatio, SocialMediaPost, YouTubeLongPost, MarketingHistoryItem } from '../types';
-import { usePersistentState, idb } from '../hooks/usePersistentState';
-import { createWavFile } from '../utils/audio';
+import { AgentJob, MarketingHistoryItem } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { loadSettings } from '../settings';
+import { loadPaceStats, recordVoicePace } from '../utils/pacing';
+import { completedSlots } from '../services/agentQueue';
+import { finalizeAgentJob } from '../services/agentPipeline';
+import { AgentScheduleConfig, nextSlot } from '../services/agentSchedule';
+import { AgentWorkerCommand, AgentWorkerContext, AgentWorkerEvent, AgentWorkerRequest } from '../services/agentProtocol';
+import { AgentJobList } from './AgentJobList';
 
 interface BotAgentProps {
     history: MarketingHistoryItem[];
@@ -39,7 +34,6 @@ export const BotAgent: React.FC<BotAgentProps> = ({ history, setHistory }) => {
     const [agentStatusShort, setAgentStatusShort] = useState<string>('');
 
     const [lastRuns, setLastRuns] = usePersistentState<{ [key: string]: number }>('agent_lastRuns', {});
-    const [jobsInProgress, setJobsInProgress] = useState<string[]>([]);
 
     // Integration States
     const [isYoutubeConnected, setIsYoutubeConnected] = usePersistentState('agent_youtubeConnected', false);
@@ -60,281 +54,116 @@ export const BotAgent: React.FC<BotAgentProps> = ({ history, setHistory }) => {
          else setIsTiktokConnected(false);
     };
 
-    const generateAndSaveKit = useCallback(async (
-        jobLang: string,
-        jobType: 'long' | 'short',
-        theme: string,
-        subthemes: string[],
-    ) => {
-        // 1. Generate Text Assets
-        let prayer: string;
-        let post: SocialMediaPost | YouTubeLongPost;
-    
-        // Use the configured duration for long videos, or default to 10 if not set
-        const duration = jobType === 'long' ? agentLongDuration : 1; 
+    // --- AGENT WORKER ---
+    // Scheduling and generation run in services/agentWorker.ts; this view sends it the
+    // configuration and shows the jobs it reports.
+    const [jobs, setJobs] = useState<AgentJob[]>([]);
+    const workerRef = useRef<Worker | null>(null);
 
-        if (jobType === 'long') {
-            const [p, ps] = await Promise.all([
-                generateGuidedPrayer(theme, jobLang, duration),
-                generateYouTubeLongPost(theme, subthemes, jobLang, duration)
-            ]);
-            prayer = p;
-            post = ps;
-        } else {
-            prayer = await generateShortPrayer(theme, jobLang);
-            post = await generateSocialMediaPost(prayer, jobLang);
-        }
-        if (!prayer || !post) throw new Error(`Failed to generate text assets for ${jobLang}.`);
-    
-        // 2. Generate Media Assets in Parallel
-        const audioBlobPromise: Promise<Blob> = new Promise((resolve, reject) => {
-            const pcmChunks: Uint8Array[] = [];
-            const multiConfig = jobType === 'long' 
-                ? { speakers: [{ name: 'Roberta Erickson', voice: 'Aoede' }, { name: 'Milton Dilts', voice: 'Enceladus' }] } 
-                : undefined;
-            
-            generateSpeech(prayer, multiConfig, {
-                onChunk: (pcmData) => {
-                    pcmChunks.push(pcmData);
-                },
-                onProgress: () => {}, 
-                onComplete: () => {
-                    const totalLength = pcmChunks.reduce((acc, chunk) => acc + chunk.length, 0);
-                    if (totalLength === 0) {
-                        return reject(new Error("Audio generation resulted in empty audio."));
-                    }
-                    const concatenatedPcm = new Uint8Array(totalLength);
-                    let offset = 0;
-                    pcmChunks.forEach(chunk => {
-                        concatenatedPcm.set(chunk, offset);
-                        offset += chunk.length;
-                    });
-                    const wavBlob = createWavFile(concatenatedPcm, 1, 24000, 16);
-                    resolve(wavBlob);
-                },
-                onError: (errorMsg) => {
-                    reject(new Error(errorMsg));
-                }
-            });
-        });
-    
-        const imageBlobPromise = (async (): Promise<Blob> => {
-            const visualPrompt = await createThumbnailPromptFromPost(post.title, post.description, prayer, jobLang);
-            const aspectRatio: AspectRatio = jobType === 'short' ? '9:16' : '16:9';
-            const imageB64 = await generateImageFromPrayer(visualPrompt, aspectRatio, 'imagen-4.0-generate-001');
-            if (!imageB64) throw new Error("Image generation failed");
-            const imageResponse = await fetch(`data:image/png;base64,${imageB64}`);
-            return await imageResponse.blob();
-        })();
-    
-        const [audioBlob, imageBlob] = await Promise.all([audioBlobPromise, imageBlobPromise]);
-    
-        if (!audioBlob || !imageBlob) throw new Error("Failed to create media blobs.");
-    
-        // 3. Save to History
-        const id = `${Date.now()}-${jobLang}-${jobType}`;
-        const audioBlobKey = `history_audio_${id}`;
-        const imageBlobKey = `history_image_${id}`;
-        await Promise.all([
-            idb.set(audioBlobKey, audioBlob),
-            idb.set(imageBlobKey, imageBlob),
-        ]);
-    
-        const newHistoryItem: MarketingHistoryItem = {
-            id,
-            timestamp: Date.now(),
-            type: jobType,
-            language: jobLang,
-            prompt: theme,
-            subthemes: subthemes,
-            prayer: prayer,
-            socialPost: jobType === 'short' ? post as SocialMediaPost : null,
-            longPost: jobType === 'long' ? post as YouTubeLongPost : null,
-            audioBlobKey,
-            imageBlobKey,
-            isDownloaded: false,
-        };
-        setHistory(prev => [newHistoryItem, ...prev].sort((a, b) => b.timestamp - a.timestamp));
-    }, [setHistory, agentLongDuration]);
+    // A job interrupted right after saving may deliver its kit again on resume
+    const handleKitSaved = useCallback((item: MarketingHistoryItem) => {
+        setHistory(prev => prev.some(existing => existing.id === item.id)
+            ? prev
+            : [item, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    }, [setHistory]);
 
-    const runAutomatedLongVideoBatch = useCallback(async () => {
-        const jobIdentifiers = ['pt-long', 'en-long', 'es-long'];
-        setJobsInProgress(prev => [...prev, ...jobIdentifiers]);
-        try {
-            const { theme, subthemes } = await getTrendingTopic('pt', 'long');
-            for (const lang of ['pt', 'en', 'es'] as const) {
-                await generateAndSaveKit(lang, 'long', theme, subthemes);
+    useEffect(() => {
+        const worker = new Worker(new URL('../services/agentWorker.ts', import.meta.url), { type: 'module' });
+        const send = (command: AgentWorkerCommand) => worker.postMessage(command);
+
+        const answer = async (requestId: number, request: AgentWorkerRequest) => {
+            try {
+                if (request.type === 'context') {
+                    const context: AgentWorkerContext = { settings: loadSettings(), paceStats: loadPaceStats(), apiKey: process.env.API_KEY };
+                    send({ type: 'reply', requestId, result: context });
+                } else {
+                    handleKitSaved(await finalizeAgentJob(request.job));
+                    send({ type: 'reply', requestId });
+                }
+            } catch (error) {
+                send({ type: 'reply', requestId, error: error instanceof Error ? error.message : String(error) });
             }
-        } catch (error) {
-            console.error(`Autonomous agent long video batch failed:`, error);
-        } finally {
-            setJobsInProgress(prev => prev.filter(job => !jobIdentifiers.includes(job)));
-        }
-    }, [generateAndSaveKit]);
+        };
 
-    const runAutomatedShortVideoJob = useCallback(async (jobLang: string) => {
-        const jobIdentifier = `${jobLang}-short`;
-        setJobsInProgress(prev => [...prev, jobIdentifier]);
-        try {
-            const { theme, subthemes } = await getTrendingTopic(jobLang, 'short');
-            await generateAndSaveKit(jobLang, 'short', theme, subthemes);
-        } catch (error) {
-             console.error(`Autonomous agent job failed for ${jobLang}/short:`, error);
-        } finally {
-             setJobsInProgress(prev => prev.filter(job => job !== jobIdentifier));
-        }
-    }, [generateAndSaveKit]);
+        worker.onmessage = (event: MessageEvent<AgentWorkerEvent>) => {
+            const message = event.data;
+            if (message.type === 'jobs') setJobs(message.jobs);
+            else if (message.type === 'paceSamples') recordVoicePace(message.samples);
+            else answer(message.requestId, message.request);
+        };
+        worker.onerror = (event) => console.error("Agent worker error:", event.message);
+        workerRef.current = worker;
+        return () => {
+            worker.terminate();
+            workerRef.current = null;
+        };
+    }, [handleKitSaved]);
 
+    const scheduleConfig = useMemo((): AgentScheduleConfig => ({
+        longActive: isAgentLongActive,
+        shortActive: isAgentShortActive,
+        longCadence: longVideoCadence,
+        shortCadence: shortVideoCadence,
+        longDuration: agentLongDuration,
+        lastRuns,
+    }), [isAgentLongActive, isAgentShortActive, longVideoCadence, shortVideoCadence, agentLongDuration, lastRuns]);
 
     useEffect(() => {
-        const schedules = {
-            pt: { long: [6, 12, 18], short: [9, 12, 18] },
-            en: { long: [7, 13, 19], short: [9, 12, 18] },
-            es: { long: [8, 14, 20], short: [9, 12, 18] },
-        };
-        const offsets = { pt: 0, en: 20, es: 40 };
-        
-        const findNextLongBatchJob = (cadence: number) => {
-            const now = new Date();
-            let closestJob = { time: Infinity, details: '' };
+        workerRef.current?.postMessage({ type: 'config', config: scheduleConfig } satisfies AgentWorkerCommand);
+    }, [scheduleConfig]);
 
-            for (let d = 0; d < 2; d++) {
-                const checkDate = new Date(now);
-                checkDate.setDate(now.getDate() + d);
-                const todayStr = checkDate.toISOString().split('T')[0];
-                const scheduleHours = schedules['pt'].long.slice(0, cadence);
-                
-                for (const hour of scheduleHours) {
-                    const minute = offsets['pt'];
-                    const jobKey = `${todayStr}_pt_long_batch_${hour}:${minute}`;
-                    const jobTime = new Date(checkDate);
-                    jobTime.setHours(hour, minute, 0, 0);
-
-                    if (jobTime.getTime() > now.getTime() && jobTime.getTime() < closestJob.time && !lastRuns[jobKey]) {
-                       closestJob = {
-                           time: jobTime.getTime(),
-                           details: t('agentStatusIdle')
-                             .replace('{type}', t('agentTitleLong'))
-                             .replace('{lang}', 'PT, EN, ES')
-                             .replace('{time}', jobTime.toLocaleTimeString(t('appLocaleCode'), { hour: '2-digit', minute: '2-digit' }))
-                       };
-                    }
-                }
-                if (closestJob.time !== Infinity) break; 
-            }
-             return closestJob.details;
-        };
+    // A schedule slot only counts as run once every job it queued has succeeded
+    useEffect(() => {
+        const newlyCompleted = completedSlots(jobs).filter(slot => !lastRuns[slot]);
+        if (newlyCompleted.length === 0) return;
+        setLastRuns(prev => ({ ...prev, ...Object.fromEntries(newlyCompleted.map(slot => [slot, Date.now()])) }));
+    }, [jobs, lastRuns, setLastRuns]);
 
-        const findNextShortJob = (cadence: number) => {
-            const now = new Date();
-            let closestJob = { time: Infinity, details: '' };
+    const handleRetryJob = (job: AgentJob) => {
+        workerRef.current?.postMessage({ type: 'retry', jobId: job.id } satisfies AgentWorkerCommand);
+    };
 
-             for (const lang of ['pt', 'en', 'es'] as const) {
-                for (let d = 0; d < 2; d++) {
-                    const checkDate = new Date(now);
-                    checkDate.setDate(now.getDate() + d);
-                    const todayStr = checkDate.toISOString().split('T')[0];
-                    const scheduleHours = schedules[lang].short.slice(0, cadence);
-                    
-                    for (const hour of scheduleHours) {
-                        const minute = offsets[lang];
-                        const jobKey = `${todayStr}_${lang}_short_${hour}:${minute}`;
-                        const jobTime = new Date(checkDate);
-                        jobTime.setHours(hour, minute, 0, 0);
+    const handleRemoveJobs = (removed: AgentJob[]) => {
+        workerRef.current?.postMessage({ type: 'remove', jobIds: removed.map(job => job.id) } satisfies AgentWorkerCommand);
+    };
 
-                        if (jobTime.getTime() > now.getTime() && jobTime.getTime() < closestJob.time && !lastRuns[jobKey]) {
-                           closestJob = {
-                               time: jobTime.getTime(),
-                               details: t('agentStatusIdle')
-                                 .replace('{type}', t('marketingShortVideo'))
-                                 .replace('{lang}', lang.toUpperCase())
-                                 .replace('{time}', jobTime.toLocaleTimeString(t('appLocaleCode'), { hour: '2-digit', minute: '2-digit' }))
-                           };
-                        }
-                    }
-                }
-             }
-             return closestJob.details;
+    // --- STATUS ---
+    useEffect(() => {
+        const placeholder = t('agentStatusIdle').replace('{type}', '...').replace('{lang}', '...').replace('{time}', '...');
+        const describeNext = (kind: 'long' | 'short') => {
+            const slot = nextSlot(scheduleConfig, new Date(), kind);
+            if (!slot) return placeholder;
+            return t('agentStatusIdle')
+                .replace('{type}', t(kind === 'long' ? 'agentTitleLong' : 'marketingShortVideo'))
+                .replace('{lang}', slot.languages.map(lang => lang.toUpperCase()).join(', '))
+                .replace('{time}', new Date(slot.time).toLocaleTimeString(t('appLocaleCode'), { hour: '2-digit', minute: '2-digit' }));
         };
 
         const updateStatuses = () => {
-            const isLongJobRunning = jobsInProgress.some(job => job.endsWith('-long'));
-            if (isLongJobRunning) {
-                const typeStr = t('marketingLongVideo');
-                setAgentStatusLong(t('agentStatusRunning').replace('{type}', typeStr).replace('{lang}', 'PT, EN, ES'));
+            const running = jobs.filter(job => job.status === 'running');
+            const runningLong = running.filter(job => job.kind === 'long').map(job => job.language.toUpperCase());
+            if (runningLong.length > 0) {
+                setAgentStatusLong(t('agentStatusRunning').replace('{type}', t('marketingLongVideo')).replace('{lang}', runningLong.join(', ')));
             } else if (isAgentLongActive) {
-                const nextJob = findNextLongBatchJob(longVideoCadence);
-                setAgentStatusLong(nextJob || t('agentStatusIdle').replace('{type}','...').replace('{lang}','...').replace('{time}','...'));
+                setAgentStatusLong(describeNext('long'));
             } else {
                 setAgentStatusLong(t('agentStatusDisabled'));
             }
 
-            const runningShortJobs = jobsInProgress
-                .filter(job => job.endsWith('-short'))
-                .map(job => job.split('-')[0].toUpperCase());
-            if (runningShortJobs.length > 0) {
-                 const typeStr = t('marketingShortVideo');
-                 setAgentStatusShort(t('agentStatusRunning').replace('{type}', typeStr).replace('{lang}', runningShortJobs.join(', ')));
+            const runningShort = running.filter(job => job.kind === 'short').map(job => job.language.toUpperCase());
+            if (runningShort.length > 0) {
+                setAgentStatusShort(t('agentStatusRunning').replace('{type}', t('marketingShortVideo')).replace('{lang}', runningShort.join(', ')));
             } else if (isAgentShortActive) {
-                 const nextJob = findNextShortJob(shortVideoCadence);
-                setAgentStatusShort(nextJob || t('agentStatusIdle').replace('{type}','...').replace('{lang}','...').replace('{time}','...'));
+                setAgentStatusShort(describeNext('short'));
             } else {
                 setAgentStatusShort(t('agentStatusDisabled'));
             }
         };
 
-        const checkSchedule = () => {
-            const now = new Date();
-            const todayStr = now.toISOString().split('T')[0];
-            const currentHour = now.getHours();
-            const currentMinute = now.getMinutes();
-
-            if (isAgentLongActive) {
-                const scheduleHours = schedules['pt'].long.slice(0, longVideoCadence);
-                for (const hour of scheduleHours) {
-                    const minute = offsets['pt'];
-                    const jobKey = `${todayStr}_pt_long_batch_${hour}:${minute}`;
-                    if (currentHour === hour && currentMinute === minute && !lastRuns[jobKey]) {
-                        setLastRuns(prev => ({ ...prev, [jobKey]: Date.now() }));
-                        runAutomatedLongVideoBatch();
-                    }
-                }
-            }
-            
-            if (isAgentShortActive) {
-                for (const lang of ['pt', 'en', 'es'] as const) {
-                    const scheduleHours = schedules[lang].short.slice(0, shortVideoCadence);
-                    for (const hour of scheduleHours) {
-                        const minute = offsets[lang];
-                        const jobKey = `${todayStr}_${lang}_short_${hour}:${minute}`;
-                        if (currentHour === hour && currentMinute === minute && !lastRuns[jobKey]) {
-                            setLastRuns(prev => ({ ...prev, [jobKey]: Date.now() }));
-                            runAutomatedShortVideoJob(lang);
-                        }
-                    }
-                }
-            }
-        };
-
         updateStatuses();
         const statusInterval = window.setInterval(updateStatuses, 60000);
-
-        let jobIntervalId: number | undefined;
-        let startupTimeoutId: number | undefined;
-
-        if (isAgentLongActive || isAgentShortActive) {
-            startupTimeoutId = setTimeout(() => {
-                checkSchedule();
-                jobIntervalId = window.setInterval(checkSchedule, 30000);
-            }, 10000);
-        }
-
-        return () => {
-            clearInterval(statusInterval);
-            if (startupTimeoutId) clearTimeout(startupTimeoutId);
-            if (jobIntervalId) clearInterval(jobIntervalId);
-        };
-    }, [isAgentLongActive, isAgentShortActive, longVideoCadence, shortVideoCadence, lastRuns, setLastRuns, runAutomatedLongVideoBatch, runAutomatedShortVideoJob, t, jobsInProgress]);
+        return () => clearInterval(statusInterval);
+    }, [scheduleConfig, isAgentLongActive, isAgentShortActive, jobs, t]);
 
     const AgentPanel = ({
         type,
@@ -491,7 +320,12 @@ export const BotAgent: React.FC<BotAgentProps> = ({ history, setHistory }) => {
                     status={agentStatusShort}
                 />
             </div>
-            <p className="text-center text-xs text-gray-400">{t('agentKeepTabOpen')}</p>
+            <p className="text-center text-xs text-gray-400">{t('agentRunsInBackground')}</p>
+
+            {/* Job Queue */}
+            <div className="border-t border-gray-700 pt-6">
+                <AgentJobList jobs={jobs} onRetry={handleRetryJob} onRemove={handleRemoveJobs} />
+            </div>
 
             {/* Integrations Panel */}
             <div className="border-t border-gray-700 pt-6">
@@ -0,0 +1,60 @@
+import React, { useContext } from 'react';
+import { PrayerCheckpoint } from '../types';
+import { LanguageContext, LanguageContextType } from '../context';
+import { formatTimestamp } from '../utils/audio';
+
+interface CheckpointProgressProps {
+    checkpoint: PrayerCheckpoint | null;
+    isGenerating: boolean;
+    onResume: () => void;
+}
+
+export const CheckpointProgress: React.FC<CheckpointProgressProps> = ({ checkpoint, isGenerating, onResume }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+
+    // Single-block prayers have nothing to resume, so only show the tracker for multi-block runs.
+    if (!checkpoint || checkpoint.totalBlocks < 2) return null;
+    if (checkpoint.status === 'completed' && !isGenerating) return null;
+
+    const completed = checkpoint.blocks.length;
+    const canResume = !isGenerating && checkpoint.status !== 'completed';
+
+    return (
+        <div className="p-3 bg-gray-900 border border-gray-700 rounded-lg space-y-2" aria-live="polite">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-semibold text-gray-300">
+                    {t('prayerBlocksProgress').replace('{done}', String(completed)).replace('{total}', String(checkpoint.totalBlocks))}
+                </span>
+                {canResume && (
+                    <button onClick={onResume} className="bg-teal-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-teal-700 transition">
+                        {t('prayerResume')}
+                    </button>
+                )}
+            </div>
+            <div className="flex gap-1">
+                {Array.from({ length: checkpoint.totalBlocks }).map((_, i) => {
+                    const isDone = i < completed;
+                    const isCurrent = i === completed;
+                    const color = isDone
+                        ? 'bg-green-500'
+                        : isCurrent && isGenerating
+                            ? 'bg-amber-400 animate-pulse'
+                            : isCurrent && checkpoint.status === 'failed'
+                                ? 'bg-red-500'
+                                : 'bg-gray-600';
+                    return <div key={i} title={`${i + 1}/${checkpoint.totalBlocks}`} className={`h-2 flex-1 rounded-full ${color}`}></div>;
+                })}
+            </div>
+            {checkpoint.projectedSeconds !== undefined && (
+                <p className="text-xs text-gray-400">
+                    {t('prayerProjectedSoFar').replace('{projected}', formatTimestamp(checkpoint.projectedSeconds)).replace('{target}', formatTimestamp(checkpoint.duration * 60))}
+                </p>
+            )}
+            {canResume && (
+                <p className="text-xs text-yellow-300">
+                    {t('prayerIncomplete').replace('{block}', String(completed + 1))}
+                </p>
+            )}
+        </div>
+    );
+};
@@ -1,39 +1,57 @@
 
-import React, { useState, useEffect, useContext, useRef } from 'react';
-import { generateSpeech, generateImageFromPrayer, generateVideo, createMediaPromptFromPrayer } from '../services/geminiService';
+import React, { useState, useEffect, useContext, useRef, useMemo } from 'react';
+import { generateSpeech, generateImageFromPrayer, generateVideo, createMediaPromptFromPrayer, castToSpeakerConfig, findUnknownSpeakers, allowedSpeakerNames, estimateNarrationSeconds, narrationWordsPerMinute, rewriteScriptTurn, revoiceScriptTurns } from '../services/geminiService';
 import { SpinnerIcon, DownloadIcon } from './icons';
 import { LanguageContext, LanguageContextType } from '../context';
-import { AspectRatio } from '../types';
+import { AspectRatio, AudioDurationCheck, PrayerCheckpoint, PrayerScript, ScriptTurn, TimedBlock } from '../types';
 import { usePersistentState, usePersistentBlob } from '../hooks/usePersistentState';
-import { generateGuidedPrayer } from '../services/geminiService';
+import { generateGuidedPrayer, loadPrayerCheckpoint, GuidedPrayerOptions } from '../services/geminiService';
 import { createOPFSFile, getOPFSFileAsBlob } from '../utils/opfsUtils';
+import { CheckpointProgress } from './CheckpointProgress';
+import { AudioDurationReport, DurationProjection } from './AudioDurationReport';
+import { ScriptEditor } from './ScriptEditor';
+import { ScriptLintReport } from './ScriptLintReport';
+import { replaceScriptTurn, scriptToText, turnKey } from '../utils/prayerScript';
+import { checkAudioDuration, concatPcmChunks, createWavFile, SAMPLE_RATE } from '../utils/audio';
+import { isRateLimitError } from '../utils/retry';
+import { useAppSettings } from '../hooks/useAppSettings';
+import { castForLanguage } from '../settings';
+import { applyAllLintFixes, applyLintFix, lintScript, LintFinding, LintOptions, translateInstruction } from '../utils/scriptLinter';
 
 interface PrayerGeneratorProps {
     titleKey: string;
     descriptionKey: string;
-    prayerGeneratorFn: (prompt: string, language: string, duration?: number) => Promise<string>;
+    prayerGeneratorFn: (prompt: string, language: string, duration?: number, options?: GuidedPrayerOptions) => Promise<PrayerScript>;
     storageKeyPrefix: string;
     showDurationSelector?: boolean;
 }
 
 export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, descriptionKey, prayerGeneratorFn, storageKeyPrefix, showDurationSelector = false }) => {
-    const [prayer, setPrayer] = usePersistentState(`${storageKeyPrefix}_prayer`, '');
+    const [script, setScript] = usePersistentState<PrayerScript | null>(`${storageKeyPrefix}_script`, null);
+    const prayer = useMemo(() => scriptToText(script), [script]);
     const [prompt, setPrompt] = usePersistentState(`${storageKeyPrefix}_prompt`, '');
     const [duration, setDuration] = usePersistentState<number>(`${storageKeyPrefix}_duration`, 10);
     
     // Persistent Blobs
-    const [audioUrl, , setAudioBlob, isAudioLoadingFromDB] = usePersistentBlob(`${storageKeyPrefix}_audio`);
+    const [audioUrl, audioBlob, setAudioBlob, isAudioLoadingFromDB] = usePersistentBlob(`${storageKeyPrefix}_audio`);
     const [imageUrl, , setImageBlob, isImageLoadingFromDB] = usePersistentBlob(`${storageKeyPrefix}_image`);
 
     const [videoUrl, setVideoUrl] = usePersistentState<string | null>(`${storageKeyPrefix}_videoUrl`, null);
 
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
+    const [checkpoint, setCheckpoint] = useState<PrayerCheckpoint | null>(null);
     const { language, t } = useContext(LanguageContext) as LanguageContextType;
+    const [settings] = useAppSettings();
 
     const [isAudioLoading, setIsAudioLoading] = useState(false);
     const [audioProgress, setAudioProgress] = useState(0);
     const [audioError, setAudioError] = useState('');
+    const [audioDurationCheck, setAudioDurationCheck] = usePersistentState<AudioDurationCheck | null>(`${storageKeyPrefix}_audioDurationCheck`, null);
+    // Timing map of the narration, kept only when every block was voiced so single turns can be patched.
+    const [timings, setTimings] = usePersistentState<TimedBlock[]>(`${storageKeyPrefix}_timings`, []);
+    const [changedTurns, setChangedTurns] = usePersistentState<string[]>(`${storageKeyPrefix}_changedTurns`, []);
+    const [busyTurns, setBusyTurns] = useState<string[]>([]);
     
     const [isVideoLoading, setIsVideoLoading] = useState(false);
     const [videoError, setVideoError] = useState('');
@@ -47,6 +65,28 @@ export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, desc
     
     const isAnyMediaGenerating = isAudioLoading || isVideoLoading || isImageLoading;
 
+    const multiSpeakerConfig = storageKeyPrefix === 'guidedPrayer'
+        ? castToSpeakerConfig(castForLanguage(settings.voiceCast, language))
+        : undefined;
+    // Only the duration-driven generator has a target to verify against
+    const targetSeconds = showDurationSelector ? (checkpoint?.duration ?? duration) * 60 : undefined;
+
+    const lintOptions: LintOptions = {
+        language,
+        allowedSpeakers: allowedSpeakerNames(multiSpeakerConfig),
+        replacementSpeaker: multiSpeakerConfig?.speakers[0]?.name,
+        targetMinutes: targetSeconds ? targetSeconds / 60 : undefined,
+        wordsPerMinute: narrationWordsPerMinute(multiSpeakerConfig),
+    };
+    const lintFindings = useMemo(
+        () => script ? lintScript(script, lintOptions) : [],
+        [script, language, settings.voiceCast, targetSeconds]
+    );
+    const projectedSeconds = useMemo(
+        () => script ? estimateNarrationSeconds(script, multiSpeakerConfig) : 0,
+        [script, language, settings.voiceCast]
+    );
+
     useEffect(() => {
         const checkKey = async () => {
             if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
@@ -57,50 +97,63 @@ export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, desc
         checkKey();
     }, []);
 
-    const handleRateLimitError = (e: any): boolean => {
-      const errorPayload = e.error || e;
-      if (errorPayload.status === 'RESOURCE_EXHAUSTED' || errorPayload.code === 429) {
-        return true;
-      }
-      return false;
-    }
+    useEffect(() => {
+        loadPrayerCheckpoint(storageKeyPrefix).then(stored => setCheckpoint(stored || null));
+    }, [storageKeyPrefix]);
 
-    const handleGenerate = async (useRandomTheme: boolean = false) => {
+    const runGeneration = async (generationPrompt: string, generationLanguage: string, generationDuration: number, resume: boolean) => {
         setIsLoading(true);
         setError('');
-        setPrayer('');
+        setScript(null);
+        setChangedTurns([]);
         // Clear previous media
         setAudioBlob(null);
+        setTimings([]);
         setAudioError('');
         setVideoUrl(null);
         setVideoError('');
         setImageBlob(null);
         setImageError('');
         try {
-            const result = await prayerGeneratorFn(useRandomTheme ? '' : prompt, language, duration);
-            setPrayer(result);
+            const result = await prayerGeneratorFn(generationPrompt, generationLanguage, generationDuration, {
+                checkpointKey: storageKeyPrefix,
+                resume,
+                onCheckpoint: setCheckpoint,
+            });
+            setScript(result);
         } catch (e) {
-            setError(handleRateLimitError(e) ? t('errorRateLimit') : t('prayerError'));
+            setError(isRateLimitError(e) ? t('errorRateLimit') : t('prayerError'));
             console.error(e);
         } finally {
             setIsLoading(false);
         }
     };
+
+    const handleGenerate = (useRandomTheme: boolean = false) => {
+        return runGeneration(useRandomTheme ? '' : prompt, language, duration, false);
+    };
+
+    const handleResume = () => {
+        if (!checkpoint) return;
+        return runGeneration(checkpoint.prompt, checkpoint.language, checkpoint.duration, true);
+    };
     
     const handleGenerateAudio = async () => {
-        if (!prayer) return;
+        if (!script) return;
+        const lintErrors = lintFindings.filter(f => f.severity === 'error').length;
+        if (lintErrors > 0 && !window.confirm(t('scriptLintConfirm').replace('{count}', String(lintErrors)))) return;
+        const unknownSpeakers = findUnknownSpeakers(script, multiSpeakerConfig);
+        if (unknownSpeakers.length > 0 && !window.confirm(
+            t('unknownSpeakersConfirm').replace('{speakers}', unknownSpeakers.join(', ')).replace('{voice}', multiSpeakerConfig?.fallbackVoice || '')
+        )) return;
         setIsAudioLoading(true);
         setAudioProgress(0);
         setAudioBlob(null);
         setAudioError('');
+        setAudioDurationCheck(null);
+        setTimings([]);
+        setChangedTurns([]);
     
-        const multiSpeakerConfig = storageKeyPrefix === 'guidedPrayer' ? {
-            speakers: [
-                { name: 'Roberta Erickson', voice: 'Aoede' }, // Female
-                { name: 'Milton Dilts', voice: 'Enceladus' }      // Male
-            ]
-        } : undefined;
-        
         // BLADE RUNNER: Use OPFS for direct disk writing to save RAM
         const filename = `${storageKeyPrefix}_audio_temp.wav`;
         let fileHandle: FileSystemFileHandle | undefined;
@@ -110,26 +163,40 @@ export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, desc
         } catch (e) {
             console.warn("OPFS not supported or failed, falling back to memory.", e);
         }
+
+        const pcmChunks: Uint8Array[] = [];
     
-        await generateSpeech(prayer, multiSpeakerConfig, {
+        await generateSpeech(script, multiSpeakerConfig, {
             onChunk: (pcmData) => {
-                // Chunk handling for visualization (optional) or fallback if no fileHandle
+                // Fallback when OPFS is unavailable: keep chunks in memory
+                pcmChunks.push(pcmData);
             },
             onProgress: (progress) => {
                 setAudioProgress(progress);
             },
-            onComplete: async () => {
-                if (fileHandle) {
-                    try {
+            // generateSpeech does not await this callback, so every failure has to be handled here
+            onComplete: async (result) => {
+                try {
+                    const durationCheck = { ...checkAudioDuration(result.pcmBytes, targetSeconds), projectedSeconds };
+                    setAudioDurationCheck(durationCheck);
+                    if (result.gaps.length > 0) {
+                        setAudioError(t('speechGapsTitle').replace('{count}', String(result.gaps.length)));
+                    } else {
+                        setTimings(result.timings);
+                    }
+                    if (fileHandle) {
                         // Retrieve the full file from disk
                         const finalBlob = await getOPFSFileAsBlob(filename);
                         setAudioBlob(finalBlob);
-                    } catch (e) {
-                        console.error("Error reading back audio from OPFS", e);
-                        setAudioError(t('audioError'));
+                    } else if (pcmChunks.length > 0) {
+                        setAudioBlob(createWavFile(concatPcmChunks(pcmChunks), 1, SAMPLE_RATE, 16));
                     }
+                } catch (e) {
+                    console.error("Error finishing the narration", e);
+                    setAudioError(t('audioError'));
+                } finally {
+                    setIsAudioLoading(false);
                 }
-                setIsAudioLoading(false);
             },
             onError: (errorMsg) => {
                 setAudioError(t('audioError'));
@@ -139,6 +206,60 @@ export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, desc
         }, fileHandle);
     };
     
+    // --- SCRIPT EDITOR ---
+    const handleTurnChange = (sectionIndex: number, turnIndex: number, turn: ScriptTurn) => {
+        setScript(prev => prev ? replaceScriptTurn(prev, sectionIndex, turnIndex, turn) : prev);
+        const key = turnKey(sectionIndex, turnIndex);
+        if (audioBlob) setChangedTurns(prev => prev.includes(key) ? prev : [...prev, key]);
+    };
+
+    const handleRewriteTurn = async (sectionIndex: number, turnIndex: number, instruction: string) => {
+        if (!script) return;
+        const key = turnKey(sectionIndex, turnIndex);
+        setBusyTurns(prev => [...prev, key]);
+        setError('');
+        try {
+            handleTurnChange(sectionIndex, turnIndex, await rewriteScriptTurn(script, sectionIndex, turnIndex, instruction, language));
+        } catch (e) {
+            setError(isRateLimitError(e) ? t('errorRateLimit') : t('scriptEditorRewriteError'));
+            console.error(e);
+        } finally {
+            setBusyTurns(prev => prev.filter(k => k !== key));
+        }
+    };
+
+    const handleRevoiceTurns = async (keys: string[]) => {
+        if (!audioBlob || !script || timings.length === 0) return;
+        setBusyTurns(keys);
+        setIsAudioLoading(true);
+        setAudioError('');
+        try {
+            const result = await revoiceScriptTurns(audioBlob, script, keys, timings, multiSpeakerConfig);
+            setAudioBlob(result.blob);
+            setTimings(result.timings);
+            setAudioDurationCheck({ ...checkAudioDuration(result.pcmBytes, targetSeconds), projectedSeconds });
+            setChangedTurns(prev => prev.filter(k => !keys.includes(k)));
+        } catch (e) {
+            setAudioError(t('audioError'));
+            console.error("Re-voicing failed:", e);
+        } finally {
+            setBusyTurns([]);
+            setIsAudioLoading(false);
+        }
+    };
+
+    const handleLintFix = (finding: LintFinding) => {
+        if (finding.fix === 'translate' && finding.sectionIndex !== undefined && finding.turnIndex !== undefined) {
+            handleRewriteTurn(finding.sectionIndex, finding.turnIndex, translateInstruction(language));
+            return;
+        }
+        setScript(prev => prev ? applyLintFix(prev, finding, lintOptions) : prev);
+    };
+
+    const handleLintFixAll = () => {
+        setScript(prev => prev ? applyAllLintFixes(prev, lintFindings, lintOptions) : prev);
+    };
+
     const handleGenerateImage = async () => {
         if (!prayer) return;
         setIsImageLoading(true);
@@ -153,7 +274,7 @@ export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, desc
         } catch (e: any) {
             if (e.message?.includes("media prompt")) {
                 setImageError(t('mediaPromptError'));
-            } else if (handleRateLimitError(e)) {
+            } else if (isRateLimitError(e)) {
                 setImageError(t('errorRateLimit'));
             } else {
                 setImageError(t('imageError'));
@@ -284,12 +405,35 @@ export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, desc
                 </div>
             </div>
 
+            <CheckpointProgress checkpoint={checkpoint} isGenerating={isLoading} onResume={handleResume} />
+
             {error && <p className="text-red-400 text-center" aria-live="polite">{error}</p>}
 
-            {prayer && (
+            {script && prayer && (
                 <div className="mt-6 p-6 bg-gray-900 rounded-lg border border-gray-700" aria-live="polite">
                     <h3 className="text-xl font-semibold text-amber-300 mb-3">{t('prayerHeader')}</h3>
-                    <p className="text-gray-100 whitespace-pre-wrap leading-relaxed max-h-60 overflow-y-auto">{prayer}</p>
+                    <div className="max-h-96 overflow-y-auto">
+                        <ScriptEditor
+                            script={script}
+                            changedTurns={changedTurns}
+                            busyTurns={busyTurns}
+                            canRevoice={!!audioBlob && timings.length > 0 && !isAnyMediaGenerating}
+                            onTurnChange={handleTurnChange}
+                            onRewrite={handleRewriteTurn}
+                            onRevoice={handleRevoiceTurns}
+                        />
+                    </div>
+                    {!audioUrl && !isLoading && (
+                        <div className="mt-3">
+                            <ScriptLintReport
+                                findings={lintFindings}
+                                replacementSpeaker={lintOptions.replacementSpeaker}
+                                isBusy={busyTurns.length > 0 || isAnyMediaGenerating}
+                                onFix={handleLintFix}
+                                onFixAll={handleLintFixAll}
+                            />
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -320,6 +464,8 @@ export const PrayerGenerator: React.FC<PrayerGeneratorProps> = ({ titleKey, desc
                                 </a>
                             </div>
                        )}
+                       {audioUrl && !isAudioLoading && <AudioDurationReport check={audioDurationCheck} />}
+                       {!audioUrl && !isAudioLoading && <DurationProjection projectedSeconds={projectedSeconds} targetSeconds={targetSeconds} />}
                        <p className="text-xs text-gray-400 pl-1">{t('audioInfo')}</p>
                     </div>
 
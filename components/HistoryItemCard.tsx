@@ -1,48 +1,25 @@
 
-import React, { useState, useEffect, useContext, Dispatch, SetStateAction } from 'react';
-import { MarketingHistoryItem } from '../types';
+import React, { useState, useContext, Dispatch, SetStateAction } from 'react';
+import { MarketingHistoryItem, PromptTemplateId } from '../types';
 import { LanguageContext, LanguageContextType } from '../context';
 import { SpinnerIcon, DownloadIcon, TrashIcon, CheckIcon } from './icons';
 import { idb } from '../hooks/usePersistentState';
+import { useBlobLoader } from '../hooks/useBlobLoader';
+import { scriptScriptureRefs } from '../utils/prayerScript';
+import { LoudnessSummary } from './AudioDurationReport';
+import { AudiogramVisualizer, renderAudiogram, renderNarrationVideo } from '../utils/videoRenderer';
+import { timingsToCues } from '../utils/subtitles';
+import { formatTimestamp } from '../utils/audio';
+import { createShortFromLongItem } from '../services/shortClipper';
+import { findPromptTemplate } from '../services/promptTemplates';
+import { pickThumbnailWinner, pickTitleWinner } from '../services/abVariants';
+import { VariantComparison } from './VariantComparison';
 
 // These are loaded from CDN in index.html
 declare const JSZip: any;
 declare const saveAs: any;
 
 
-const useBlobLoader = (key?: string) => {
-    const [url, setUrl] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
-
-    useEffect(() => {
-        if (!key) {
-            setUrl(null);
-            return;
-        }
-        let isActive = true;
-        let objectUrl: string | null = null;
-        
-        setIsLoading(true);
-        idb.get<Blob>(key).then(blob => {
-            if (isActive && blob) {
-                objectUrl = URL.createObjectURL(blob);
-                setUrl(objectUrl);
-            }
-        }).finally(() => {
-            if(isActive) setIsLoading(false)
-        });
-
-        return () => {
-            isActive = false;
-            if (objectUrl) {
-                URL.revokeObjectURL(objectUrl);
-            }
-        };
-    }, [key]);
-
-    return { url, isLoading };
-};
-
 const CopyButton = ({ textToCopy }: { textToCopy: string | string[] }) => {
     const { t } = useContext(LanguageContext) as LanguageContextType;
     const [copied, setCopied] = useState(false);
@@ -63,6 +40,9 @@ const CopyButton = ({ textToCopy }: { textToCopy: string | string[] }) => {
 };
 
 
+// Clip lengths offered for audiograms; 0 renders the whole narration.
+const AUDIOGRAM_LENGTHS = [15, 30, 45, 60, 0];
+
 interface HistoryItemCardProps {
     item: MarketingHistoryItem;
     onDelete: (id: string) => void;
@@ -73,10 +53,22 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
     const { t } = useContext(LanguageContext) as LanguageContextType;
     const [isOpen, setIsOpen] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
+    const [renderProgress, setRenderProgress] = useState<number | null>(null);
+    const [burnSubtitles, setBurnSubtitles] = useState(true);
+    const [isClipping, setIsClipping] = useState(false);
+    const [audiogramProgress, setAudiogramProgress] = useState<number | null>(null);
+    const [audiogramSeconds, setAudiogramSeconds] = useState(30);
+    const [audiogramVisualizer, setAudiogramVisualizer] = useState<AudiogramVisualizer>('waveform');
 
     const { url: audioUrl, isLoading: isAudioLoading } = useBlobLoader(item.audioBlobKey);
+    const { url: mixedAudioUrl } = useBlobLoader(item.mixedAudioBlobKey);
+    const audioFormat = item.audioFormat || 'wav';
     const { url: imageUrl, isLoading: isImageLoading } = useBlobLoader(item.imageBlobKey);
     const { url: videoUrl, isLoading: isVideoLoading } = useBlobLoader(item.videoBlobKey);
+    const videoFormat = item.videoFormat || 'mp4';
+    const canRenderVideo = !!(item.audioBlobKey && item.imageBlobKey);
+    const { url: audiogramUrl } = useBlobLoader(item.audiogramBlobKey);
+    const audiogramFormat = item.audiogramFormat || 'mp4';
 
     const title = item.longPost?.title || item.socialPost?.title || item.prompt;
     const date = new Date(item.timestamp).toLocaleString(t('appLocaleCode') || 'en-US');
@@ -87,6 +79,80 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
         onDelete(item.id);
     };
 
+    // Renders the still image over the narration (the ambience mix when there is one).
+    const handleRenderVideo = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const audioKey = item.mixedAudioBlobKey || item.audioBlobKey;
+        if (!audioKey || !item.imageBlobKey) return;
+        setRenderProgress(0);
+        try {
+            const [audio, image] = await Promise.all([idb.get<Blob>(audioKey), idb.get<Blob>(item.imageBlobKey)]);
+            if (!audio || !image) throw new Error("Audio or image is missing from storage.");
+            const isShort = item.type === 'short';
+            const { blob, format } = await renderNarrationVideo(audio, image, {
+                width: isShort ? 1080 : 1920,
+                height: isShort ? 1920 : 1080,
+                subtitles: burnSubtitles && item.timings ? timingsToCues(item.timings) : undefined,
+                onProgress: (fraction) => setRenderProgress(Math.round(fraction * 100)),
+            });
+            // A new key, so the blob loader picks up the new file
+            const videoBlobKey = `history_video_${item.id}_${Date.now()}`;
+            await idb.set(videoBlobKey, blob);
+            if (item.videoBlobKey) await idb.del(item.videoBlobKey);
+            setHistory(prev => prev.map(histItem =>
+                histItem.id === item.id ? { ...histItem, videoBlobKey, videoFormat: format } : histItem
+            ));
+        } catch (error) {
+            console.error("Video render failed", error);
+            alert(t('videoRenderError'));
+        } finally {
+            setRenderProgress(null);
+        }
+    };
+
+    const handleClipToShort = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setIsClipping(true);
+        try {
+            const short = await createShortFromLongItem(item);
+            setHistory(prev => [short, ...prev]);
+            alert(t('clipToShortDone'));
+        } catch (error) {
+            console.error("Clipping to short failed", error);
+            alert(t('clipToShortError'));
+        } finally {
+            setIsClipping(false);
+        }
+    };
+
+    const handleRenderAudiogram = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const audioKey = item.mixedAudioBlobKey || item.audioBlobKey;
+        if (!audioKey || !item.imageBlobKey) return;
+        setAudiogramProgress(0);
+        try {
+            const [audio, image] = await Promise.all([idb.get<Blob>(audioKey), idb.get<Blob>(item.imageBlobKey)]);
+            if (!audio || !image) throw new Error("Audio or image is missing from storage.");
+            const { blob, format } = await renderAudiogram(audio, image, {
+                visualizer: audiogramVisualizer,
+                durationSeconds: audiogramSeconds || undefined,
+                captions: item.timings ? timingsToCues(item.timings) : undefined,
+                onProgress: (fraction) => setAudiogramProgress(Math.round(fraction * 100)),
+            });
+            const audiogramBlobKey = `history_audiogram_${item.id}_${Date.now()}`;
+            await idb.set(audiogramBlobKey, blob);
+            if (item.audiogramBlobKey) await idb.del(item.audiogramBlobKey);
+            setHistory(prev => prev.map(histItem =>
+                histItem.id === item.id ? { ...histItem, audiogramBlobKey, audiogramFormat: format } : histItem
+            ));
+        } catch (error) {
+            console.error("Audiogram render failed", error);
+            alert(t('videoRenderError'));
+        } finally {
+            setAudiogramProgress(null);
+        }
+    };
+
     const handleDownloadKit = async (e: React.MouseEvent) => {
         e.stopPropagation();
         setIsDownloading(true);
@@ -96,6 +162,10 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
             // 1. Create content.txt
             let textContent = `PROMPT: ${item.prompt}\n\n`;
             textContent += `====================\nSCRIPT (PRAYER)\n====================\n\n${item.prayer}\n\n`;
+            const scriptureRefs = item.script ? scriptScriptureRefs(item.script) : [];
+            if (scriptureRefs.length > 0) {
+                textContent += `SCRIPTURE REFERENCES: ${scriptureRefs.join('; ')}\n\n`;
+            }
             
             if (item.longPost) {
                 textContent += `====================\nYOUTUBE POST\n====================\n\n`;
@@ -115,9 +185,14 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
             
             // 2. Add media files
             const blobPromises = [
-                item.audioBlobKey ? idb.get<Blob>(item.audioBlobKey).then(blob => ({ name: 'narration.wav', blob })) : Promise.resolve(null),
+                item.audioBlobKey ? idb.get<Blob>(item.audioBlobKey).then(blob => ({ name: `narration.${audioFormat}`, blob })) : Promise.resolve(null),
+                item.mixedAudioBlobKey ? idb.get<Blob>(item.mixedAudioBlobKey).then(blob => ({ name: `narration_mixed.${audioFormat}`, blob })) : Promise.resolve(null),
+                item.wavAudioBlobKey ? idb.get<Blob>(item.wavAudioBlobKey).then(blob => ({ name: 'narration.wav', blob })) : Promise.resolve(null),
+                item.srtBlobKey ? idb.get<Blob>(item.srtBlobKey).then(blob => ({ name: 'subtitles.srt', blob })) : Promise.resolve(null),
+                item.vttBlobKey ? idb.get<Blob>(item.vttBlobKey).then(blob => ({ name: 'subtitles.vtt', blob })) : Promise.resolve(null),
                 item.imageBlobKey ? idb.get<Blob>(item.imageBlobKey).then(blob => ({ name: 'visual.png', blob })) : Promise.resolve(null),
-                item.videoBlobKey ? idb.get<Blob>(item.videoBlobKey).then(blob => ({ name: 'video.mp4', blob })) : Promise.resolve(null)
+                item.videoBlobKey ? idb.get<Blob>(item.videoBlobKey).then(blob => ({ name: `video.${videoFormat}`, blob })) : Promise.resolve(null),
+                item.audiogramBlobKey ? idb.get<Blob>(item.audiogramBlobKey).then(blob => ({ name: `audiogram.${audiogramFormat}`, blob })) : Promise.resolve(null)
             ];
 
             const mediaFiles = await Promise.all(blobPromises);
@@ -150,6 +225,14 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
         }
     };
 
+    const handlePickTitle = (index: number) => {
+        setHistory(prev => prev.map(histItem => histItem.id === item.id ? pickTitleWinner(histItem, index) : histItem));
+    };
+
+    const handlePickThumbnail = (index: number) => {
+        setHistory(prev => prev.map(histItem => histItem.id === item.id ? pickThumbnailWinner(histItem, index) : histItem));
+    };
+
     const post = item.longPost || item.socialPost;
 
     return (
@@ -168,6 +251,11 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
                             }`}>
                                 {item.language.toUpperCase()}
                             </span>
+                            {item.parentId && (
+                                <span title={[t('clipOfParent').replace('{time}', formatTimestamp(item.clipStartSeconds || 0)), item.clipReason].filter(Boolean).join('\n')} className="px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-800 text-purple-200">
+                                    {t('clipBadge')}
+                                </span>
+                            )}
                              {item.isDownloaded && (
                                 <span title={t('historyDownloaded')} className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-600 text-gray-300">
                                     <CheckIcon className="h-3 w-3" />
@@ -207,6 +295,23 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
 
             {isOpen && (
                  <div className="p-4 border-t border-gray-700 space-y-6 animate-fade-in">
+                    {item.promptVersions && (
+                        <p className="text-xs text-gray-400">
+                            {t('historyPromptVersions')}{' '}
+                            {Object.entries(item.promptVersions).map(([id, version]) => `${t(findPromptTemplate(id as PromptTemplateId).nameKey)} v${version}`).join(' · ')}
+                        </p>
+                    )}
+                    {(item.titleVariants || item.thumbnailVariants) && (
+                        <div className="space-y-2">
+                            <h4 className="text-sm font-bold text-gray-200">{t('variantComparisonTitle')}</h4>
+                            <VariantComparison
+                                titles={item.titleVariants || []}
+                                thumbnails={item.thumbnailVariants || []}
+                                onPickTitle={handlePickTitle}
+                                onPickThumbnail={handlePickThumbnail}
+                            />
+                        </div>
+                    )}
                     {/* Media Section */}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div className="p-2 bg-gray-900 rounded-lg">
@@ -214,9 +319,32 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
                             {isAudioLoading ? <SpinnerIcon/> : audioUrl ? (
                                 <div className="flex items-center gap-2">
                                     <audio controls src={audioUrl} className="w-full"></audio>
-                                    <a href={audioUrl} download={`audio_${item.id}.wav`} title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300"><DownloadIcon/></a>
+                                    <a href={audioUrl} download={`audio_${item.id}.${audioFormat}`} title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300"><DownloadIcon/></a>
                                 </div>
                             ) : <p className="text-xs text-gray-500 text-center">N/A</p>}
+                            <LoudnessSummary report={item.loudness} />
+                            {item.type === 'long' && audioUrl && (
+                                <div className="mt-2 text-center">
+                                    <button
+                                        onClick={handleClipToShort}
+                                        disabled={isClipping || !item.timings?.length}
+                                        title={item.timings?.length ? '' : t('clipToShortUnavailable')}
+                                        className="bg-purple-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-purple-700 transition disabled:bg-gray-600 disabled:cursor-not-allowed inline-flex items-center gap-1"
+                                    >
+                                        {isClipping ? <><SpinnerIcon className="animate-spin h-3 w-3" /> {t('clipToShortRunning')}</> : t('clipToShort')}
+                                    </button>
+                                </div>
+                            )}
+                            {mixedAudioUrl && (
+                                <div className="mt-2">
+                                    <p className="text-xs text-gray-400 text-center">{t('ambienceMixedLabel')}</p>
+                                    <div className="flex items-center gap-2">
+                                        <audio controls src={mixedAudioUrl} className="w-full"></audio>
+                                        <a href={mixedAudioUrl} download={`audio_mixed_${item.id}.${audioFormat}`} title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300"><DownloadIcon/></a>
+                                    </div>
+                                    <LoudnessSummary report={item.mixedLoudness} />
+                                </div>
+                            )}
                         </div>
                          <div className="p-2 bg-gray-900 rounded-lg">
                             <h4 className="text-sm font-bold text-gray-200 mb-2 text-center">{t('generateImage')}</h4>
@@ -232,9 +360,61 @@ export const HistoryItemCard: React.FC<HistoryItemCardProps> = ({ item, onDelete
                             {isVideoLoading ? <SpinnerIcon/> : videoUrl ? (
                                 <div className="text-center">
                                     <video src={videoUrl} controls className="rounded-md max-h-40 mx-auto" />
-                                    <a href={videoUrl} download={`video_${item.id}.mp4`} title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300 text-xs inline-flex items-center gap-1 mt-1"><DownloadIcon/> {t('downloadMedia')}</a>
+                                    <a href={videoUrl} download={`video_${item.id}.${videoFormat}`} title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300 text-xs inline-flex items-center gap-1 mt-1"><DownloadIcon/> {t('downloadMedia')}</a>
                                 </div>
                             ) : <p className="text-xs text-gray-500 text-center">N/A</p>}
+                            {canRenderVideo && (
+                                <div className="mt-2 space-y-1 text-center">
+                                    {item.timings && item.timings.length > 0 && (
+                                        <label className="flex items-center justify-center gap-2 text-xs text-gray-300">
+                                            <input type="checkbox" checked={burnSubtitles} disabled={renderProgress !== null} onChange={(e) => setBurnSubtitles(e.target.checked)} className="accent-amber-500" />
+                                            {t('videoRenderSubtitles')}
+                                        </label>
+                                    )}
+                                    <button
+                                        onClick={handleRenderVideo}
+                                        disabled={renderProgress !== null}
+                                        className="bg-teal-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-teal-700 transition disabled:bg-gray-600 disabled:cursor-not-allowed inline-flex items-center gap-1"
+                                    >
+                                        {renderProgress !== null
+                                            ? <><SpinnerIcon className="animate-spin h-3 w-3" /> {t('videoRendering').replace('{percent}', String(renderProgress))}</>
+                                            : t('videoRender')}
+                                    </button>
+                                    {renderProgress !== null && <p className="text-xs text-gray-400">{t('videoRenderInfo')}</p>}
+                                </div>
+                            )}
+                            {item.type === 'short' && canRenderVideo && (
+                                <div className="mt-3 pt-3 border-t border-gray-700 space-y-2 text-center">
+                                    <h5 className="text-xs font-bold text-gray-200">{t('audiogramTitle')}</h5>
+                                    {audiogramUrl && (
+                                        <div>
+                                            <video src={audiogramUrl} controls className="rounded-md max-h-40 mx-auto" />
+                                            <a href={audiogramUrl} download={`audiogram_${item.id}.${audiogramFormat}`} title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300 text-xs inline-flex items-center gap-1 mt-1"><DownloadIcon/> {t('downloadMedia')}</a>
+                                        </div>
+                                    )}
+                                    <div className="flex justify-center gap-2">
+                                        <select value={audiogramVisualizer} disabled={audiogramProgress !== null} onChange={(e) => setAudiogramVisualizer(e.target.value as AudiogramVisualizer)} className="bg-gray-800 text-white text-xs p-1 rounded border border-gray-600">
+                                            <option value="waveform">{t('audiogramWaveform')}</option>
+                                            <option value="spectrum">{t('audiogramSpectrum')}</option>
+                                        </select>
+                                        <select value={audiogramSeconds} disabled={audiogramProgress !== null} onChange={(e) => setAudiogramSeconds(Number(e.target.value))} className="bg-gray-800 text-white text-xs p-1 rounded border border-gray-600">
+                                            {AUDIOGRAM_LENGTHS.map(seconds => (
+                                                <option key={seconds} value={seconds}>{seconds ? `${seconds}s` : t('audiogramFullLength')}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <button
+                                        onClick={handleRenderAudiogram}
+                                        disabled={audiogramProgress !== null}
+                                        className="bg-teal-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-teal-700 transition disabled:bg-gray-600 disabled:cursor-not-allowed inline-flex items-center gap-1"
+                                    >
+                                        {audiogramProgress !== null
+                                            ? <><SpinnerIcon className="animate-spin h-3 w-3" /> {t('videoRendering').replace('{percent}', String(audiogramProgress))}</>
+                                            : t('audiogramRender')}
+                                    </button>
+                                    {audiogramProgress !== null && <p className="text-xs text-gray-400">{t('videoRenderInfo')}</p>}
+                                </div>
+                            )}
                         </div>
                     </div>
                     {/* Text Section */}
@@ -1,30 +1,70 @@
 
-import React, { useState, useEffect, useContext, useRef } from 'react';
+import React, { useState, useEffect, useContext, useRef, useMemo } from 'react';
 import { 
     generateGuidedPrayer, 
     generateShortPrayer, 
     generateSpeech, 
-    generateImageFromPrayer, 
     generateVideo, 
-    createThumbnailPromptFromPost,
+    createThumbnailDesignFromPost,
     generateSocialMediaPost,
     generateYouTubeLongPost,
+    generateTitleVariants,
+    loadPrayerCheckpoint,
+    resynthesizeSpeechGaps,
+    rewriteScriptTurn,
+    revoiceScriptTurns,
+    castToSpeakerConfig,
+    findUnknownSpeakers,
+    allowedSpeakerNames,
+    estimateNarrationSeconds,
+    narrationWordsPerMinute,
     MultiSpeakerConfig
 } from '../services/geminiService';
 import { SpinnerIcon, DownloadIcon } from './icons';
 import { LanguageContext, LanguageContextType } from '../context';
-import { AspectRatio, SocialMediaPost, YouTubeLongPost, MarketingHistoryItem } from '../types';
+import { AspectRatio, AudioDurationCheck, LoudnessReport, SpeechGap, TimedBlock, SocialMediaPost, YouTubeLongPost, MarketingHistoryItem, PrayerCheckpoint, PrayerScript, PromptVersionMap, ScriptTurn, ThumbnailText, ThumbnailVariant } from '../types';
 import { usePersistentState, usePersistentBlob, idb } from '../hooks/usePersistentState';
 import { createOPFSFile, getOPFSFileAsBlob } from '../utils/opfsUtils';
+import { CheckpointProgress } from './CheckpointProgress';
+import { AudioDurationReport, DurationProjection, LoudnessSummary } from './AudioDurationReport';
+import { SpeechGapReport } from './SpeechGapReport';
+import { ScriptEditor } from './ScriptEditor';
+import { ScriptLintReport } from './ScriptLintReport';
+import { activePromptVersions } from '../services/promptTemplates';
+import { generateThumbnailVariants } from '../services/abVariants';
+import { generateThumbnailBase } from '../services/thumbnails';
+import { composeThumbnail } from '../utils/thumbnailCompositor';
+import { ThumbnailCompositor } from './ThumbnailCompositor';
+import { VariantComparison } from './VariantComparison';
+import { useAppSettings } from '../hooks/useAppSettings';
+import { castForLanguage, ThumbnailStyle } from '../settings';
+import { mixWithConfiguredAmbience } from '../utils/mixer';
+import { replaceScriptTurn, scriptToText, turnKey } from '../utils/prayerScript';
+import { checkAudioDuration, concatPcmChunks, createWavFile, masterWav, SAMPLE_RATE } from '../utils/audio';
+import { encodeAudio } from '../utils/audioEncoder';
+import { createSubtitleFiles } from '../utils/subtitles';
+import { withChapterTimes } from '../utils/chapters';
+import { applyAllLintFixes, applyLintFix, lintScript, LintFinding, LintOptions, translateInstruction } from '../utils/scriptLinter';
 
 interface MarketingKit {
     prompt: string;
     subthemes: string[];
-    prayer: string;
+    script: PrayerScript | null;
     videoDownloadLink: string | null;
     socialPost: SocialMediaPost | null;
     longPost: YouTubeLongPost | null;
     audioError: string;
+    audioDurationCheck?: AudioDurationCheck | null;
+    speechGaps?: SpeechGap[]; // Blocks missing from the current narration.
+    timings?: TimedBlock[]; // Timing map of the current narration, used for subtitles.
+    changedTurns?: string[]; // Turns edited since the narration was synthesized (turnKey).
+    promptVersions?: PromptVersionMap;
+    titleVariants?: string[]; // A/B candidates, the post title first.
+    thumbnailVariants?: ThumbnailVariant[]; // Images are stored under `marketing_<type>_image_variant_<n>`.
+    thumbnailText?: ThumbnailText; // Overlay of the single thumbnail, drawn over the stored base image.
+    thumbnailStyle?: ThumbnailStyle; // Per-kit changes to the channel style from settings.
+    loudness?: LoudnessReport;
+    mixedLoudness?: LoudnessReport;
     videoError: string;
 
     imageError: string;
@@ -33,7 +73,7 @@ interface MarketingKit {
 const initialMarketingKit: MarketingKit = {
     prompt: '',
     subthemes: ['', '', ''],
-    prayer: '',
+    script: null,
     videoDownloadLink: null,
     socialPost: null,
     longPost: null,
@@ -48,6 +88,7 @@ interface GenerationStatus {
     audioProgress: number;
     isVideoLoading: boolean;
     isImageLoading: boolean;
+    isMixing: boolean;
     isFetchingVideo: boolean;
     error: string;
 }
@@ -58,6 +99,7 @@ const initialGenerationStatus: GenerationStatus = {
     audioProgress: 0,
     isVideoLoading: false,
     isImageLoading: false,
+    isMixing: false,
     isFetchingVideo: false,
     error: '',
 };
@@ -89,6 +131,7 @@ interface MarketingExpertProps {
 
 export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHistory }) => {
     const { language, t } = useContext(LanguageContext) as LanguageContextType;
+    const [settings] = useAppSettings();
 
     const [contentType, setContentType] = usePersistentState<'long' | 'short'>('marketing_contentType', 'long');
     const [longKit, setLongKit] = usePersistentState<MarketingKit>('marketing_longKit', initialMarketingKit);
@@ -101,9 +144,13 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
     
     const [audioObjUrl, audioBlob, setAudioBlob, isAudioLoadingFromDB] = usePersistentBlob(`marketing_${contentType}_audio`);
     const [imageObjUrl, imageBlob, setImageBlob, isImageLoadingFromDB] = usePersistentBlob(`marketing_${contentType}_image`);
+    const [, baseImageBlob, setBaseImageBlob] = usePersistentBlob(`marketing_${contentType}_baseImage`);
+    const [mixedAudioObjUrl, mixedAudioBlob, setMixedAudioBlob, isMixedAudioLoadingFromDB] = usePersistentBlob(`marketing_${contentType}_mixedAudio`);
     
     const [videoObjUrl, setVideoObjUrl] = useState<string | null>(null);
     const [videoBlob, setVideoBlob] = useState<Blob | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [busyTurns, setBusyTurns] = useState<string[]>([]);
 
     const [generationStatus, setGenerationStatus] = useState<{
         long: GenerationStatus;
@@ -114,11 +161,18 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
     });
     
     const [apiKeySelected, setApiKeySelected] = useState(false);
+
+    const [checkpoints, setCheckpoints] = useState<{
+        long: PrayerCheckpoint | null;
+        short: PrayerCheckpoint | null;
+    }>({ long: null, short: null });
     
     
     // Derived state for easier access
     const currentStatus = generationStatus[contentType];
-    const isAnyMediaGenerating = currentStatus.isAudioLoading || currentStatus.isVideoLoading || currentStatus.isImageLoading || currentStatus.isFetchingVideo;
+    const currentCheckpoint = checkpoints[contentType];
+    const prayerText = useMemo(() => scriptToText(currentKit.script), [currentKit.script]);
+    const isAnyMediaGenerating = currentStatus.isAudioLoading || currentStatus.isVideoLoading || currentStatus.isImageLoading || currentStatus.isMixing || currentStatus.isFetchingVideo;
     const isLongKitBusy = Object.values(generationStatus.long).some(s => typeof s === 'boolean' && s);
     const isShortKitBusy = Object.values(generationStatus.short).some(s => typeof s === 'boolean' && s);
 
@@ -131,6 +185,11 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
         };
         checkKey();
     }, []);
+
+    useEffect(() => {
+        Promise.all([loadPrayerCheckpoint('marketing_long'), loadPrayerCheckpoint('marketing_short')])
+            .then(([long, short]) => setCheckpoints({ long: long || null, short: short || null }));
+    }, []);
     
     useEffect(() => {
         let url: string | null = null;
@@ -177,36 +236,71 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
         setCurrentKit(prev => ({...prev, subthemes: newSubthemes }));
     };
 
-    const handleGenerateTextAssets = async () => {
+    // --- A/B VARIANTS ---
+
+    const titleVariantsFor = async (title: string, theme: string, lang: string): Promise<string[] | undefined> =>
+        settings.variantCount > 1 ? generateTitleVariants(title, theme, lang, settings.variantCount) : undefined;
+
+    const handleGenerateTextAssets = async (resume: boolean = false) => {
+        const resumeFrom = resume ? currentCheckpoint : null;
+        const generationPrompt = resumeFrom ? resumeFrom.prompt : currentKit.prompt;
+        const generationDuration = resumeFrom ? resumeFrom.duration : longVideoDuration;
+        const generationLanguage = resumeFrom ? resumeFrom.language : language;
+
         setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], isTextLoading: true, error: '' } }));
         setCurrentKit(prev => ({
             ...prev,
-            prayer: '',
-            socialPost: null,
-            longPost: null,
+            script: null,
+            // Post copy generated before an interrupted prayer is still valid when resuming
+            socialPost: resume ? prev.socialPost : null,
+            longPost: resume ? prev.longPost : null,
+            titleVariants: resume ? prev.titleVariants : undefined,
+            thumbnailVariants: undefined,
+            thumbnailText: undefined,
             videoDownloadLink: null,
+            changedTurns: [],
             audioError: '',
             videoError: '',
             imageError: '',
         }));
         setAudioBlob(null);
+        setMixedAudioBlob(null);
         setImageBlob(null);
+        setBaseImageBlob(null);
         setVideoBlob(null);
         setVideoObjUrl(null);
+
+        const kitType = contentType;
+        const textVersions = activePromptVersions(['guidedPrayer', kitType === 'long' ? 'seoDescription' : 'socialCaption']);
+        setCurrentKit(prev => ({ ...prev, promptVersions: { ...(resume ? prev.promptVersions : {}), ...textVersions } }));
+        const prayerOptions = {
+            checkpointKey: `marketing_${kitType}`,
+            resume,
+            onCheckpoint: (checkpoint: PrayerCheckpoint) => setCheckpoints(prev => ({ ...prev, [kitType]: checkpoint })),
+        };
         
         try {
-            const prayerFn = contentType === 'long' ? generateGuidedPrayer : generateShortPrayer;
-            
             if (contentType === 'long') {
-                const [generatedPrayer, generatedPost] = await Promise.all([
-                    prayerFn(currentKit.prompt, language, longVideoDuration),
-                    generateYouTubeLongPost(currentKit.prompt, currentKit.subthemes, language, longVideoDuration)
+                const [prayerResult, postResult] = await Promise.allSettled([
+                    generateGuidedPrayer(generationPrompt, generationLanguage, generationDuration, { ...prayerOptions, subthemes: currentKit.subthemes }),
+                    resume && currentKit.longPost
+                        ? Promise.resolve(currentKit.longPost)
+                        : generateYouTubeLongPost(generationPrompt, currentKit.subthemes, generationLanguage, generationDuration)
                 ]);
-                setCurrentKit(prev => ({ ...prev, prayer: generatedPrayer, longPost: generatedPost }));
+                if (postResult.status === 'fulfilled') {
+                    setCurrentKit(prev => ({ ...prev, longPost: postResult.value }));
+                }
+                if (prayerResult.status === 'rejected') throw prayerResult.reason;
+                if (postResult.status === 'rejected') throw postResult.reason;
+                const titleVariants = resume && currentKit.titleVariants
+                    ? currentKit.titleVariants
+                    : await titleVariantsFor(postResult.value.title, generationPrompt, generationLanguage);
+                setCurrentKit(prev => ({ ...prev, script: prayerResult.value, titleVariants }));
             } else {
-                const generatedPrayer = await prayerFn(currentKit.prompt, language);
-                const generatedPost = await generateSocialMediaPost(generatedPrayer, language);
-                setCurrentKit(prev => ({ ...prev, prayer: generatedPrayer, socialPost: generatedPost }));
+                const generatedPrayer = await generateShortPrayer(generationPrompt, generationLanguage, prayerOptions);
+                const generatedPost = await generateSocialMediaPost(scriptToText(generatedPrayer), generationLanguage);
+                const titleVariants = await titleVariantsFor(generatedPost.title, generationPrompt, generationLanguage);
+                setCurrentKit(prev => ({ ...prev, script: generatedPrayer, socialPost: generatedPost, titleVariants }));
             }
 
         } catch (e: any) {
@@ -221,21 +315,60 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
         }
     };
 
+    const multiSpeakerConfig: MultiSpeakerConfig | undefined = contentType === 'long'
+        ? castToSpeakerConfig(castForLanguage(settings.voiceCast, language))
+        : undefined;
+
+    // Shorts have no requested length; long videos are checked against the duration the script was generated for
+    const targetSeconds = contentType === 'long' ? (currentCheckpoint?.duration ?? longVideoDuration) * 60 : undefined;
+
+    const lintOptions: LintOptions = {
+        language,
+        allowedSpeakers: allowedSpeakerNames(multiSpeakerConfig),
+        replacementSpeaker: multiSpeakerConfig?.speakers[0]?.name,
+        targetMinutes: targetSeconds ? targetSeconds / 60 : undefined,
+        wordsPerMinute: narrationWordsPerMinute(multiSpeakerConfig),
+    };
+    const lintFindings = useMemo(
+        () => currentKit.script ? lintScript(currentKit.script, lintOptions) : [],
+        [currentKit.script, language, settings.voiceCast, contentType, targetSeconds]
+    );
+    const projectedSeconds = useMemo(
+        () => currentKit.script ? estimateNarrationSeconds(currentKit.script, multiSpeakerConfig) : 0,
+        [currentKit.script, settings.voiceCast, contentType, language]
+    );
+    const durationCheck = (pcmBytes: number): AudioDurationCheck => ({ ...checkAudioDuration(pcmBytes, targetSeconds), projectedSeconds });
+
+    // Chapter lines of the long post follow the narration that was just synthesized.
+    const retimedPost = (kit: MarketingKit, timings: TimedBlock[]) =>
+        kit.longPost && kit.script && timings.length > 0 ? withChapterTimes(kit.longPost, kit.script, kit.subthemes, timings) : kit.longPost;
+
+    // Whole-file mastering pass; the measured values travel with the kit into the history item.
+    const masterNarration = async (wav: Blob): Promise<Blob> => {
+        if (!settings.mastering.enabled) {
+            setCurrentKit(prev => ({ ...prev, loudness: undefined }));
+            return wav;
+        }
+        const { blob, report } = await masterWav(wav, settings.mastering.targetLufs, settings.mastering.ceilingDb);
+        setCurrentKit(prev => ({ ...prev, loudness: report }));
+        return blob;
+    };
+
     const handleGenerateAudio = async () => {
-        if (!currentKit.prayer) return;
+        if (!currentKit.script) return;
+        const lintErrors = lintFindings.filter(f => f.severity === 'error').length;
+        if (lintErrors > 0 && !window.confirm(t('scriptLintConfirm').replace('{count}', String(lintErrors)))) return;
+        const unknownSpeakers = findUnknownSpeakers(currentKit.script, multiSpeakerConfig);
+        if (unknownSpeakers.length > 0 && !window.confirm(
+            t('unknownSpeakersConfirm').replace('{speakers}', unknownSpeakers.join(', ')).replace('{voice}', multiSpeakerConfig?.fallbackVoice || '')
+        )) return;
         setGenerationStatus(prev => ({ 
             ...prev, 
             [contentType]: { ...prev[contentType], isAudioLoading: true, audioProgress: 0 } 
         }));
         setAudioBlob(null);
-        setCurrentKit(prev => ({ ...prev, audioError: '' }));
-    
-        const multiSpeakerConfig: MultiSpeakerConfig | undefined = contentType === 'long' ? {
-            speakers: [
-                { name: 'Roberta Erickson', voice: 'Aoede' }, // Female
-                { name: 'Milton Dilts', voice: 'Enceladus' }      // Male
-            ]
-        } : undefined;
+        setMixedAudioBlob(null);
+        setCurrentKit(prev => ({ ...prev, audioError: '', audioDurationCheck: null, speechGaps: [], timings: [], changedTurns: [] }));
     
         // BLADE RUNNER: Use OPFS for direct disk writing to save RAM
         const filename = `marketing_${contentType}_audio_temp.wav`;
@@ -247,9 +380,12 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
             console.warn("OPFS not supported or failed, falling back to memory.", e);
         }
 
-        await generateSpeech(currentKit.prayer, multiSpeakerConfig, {
+        const pcmChunks: Uint8Array[] = [];
+
+        await generateSpeech(currentKit.script, multiSpeakerConfig, {
             onChunk: (pcmData) => {
-               // Chunk handled by stream writing if fileHandle exists
+               // Chunk handled by stream writing if fileHandle exists; otherwise kept in memory
+               pcmChunks.push(pcmData);
             },
             onProgress: (progress) => {
                 setGenerationStatus(prev => ({
@@ -257,18 +393,24 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                     [contentType]: { ...prev[contentType], audioProgress: progress }
                 }));
             },
-            onComplete: async () => {
-                if (fileHandle) {
-                    try {
+            // generateSpeech does not await this callback, so every failure has to be handled here
+            onComplete: async (result) => {
+                try {
+                    const audioDurationCheck = durationCheck(result.pcmBytes);
+                    setCurrentKit(prev => ({ ...prev, audioDurationCheck, speechGaps: result.gaps, timings: result.timings, longPost: retimedPost(prev, result.timings) }));
+                    if (fileHandle) {
                         // Retrieve the full file from disk
                         const finalBlob = await getOPFSFileAsBlob(filename);
-                        setAudioBlob(finalBlob);
-                    } catch (e) {
-                        console.error("Error reading back audio from OPFS", e);
-                        setCurrentKit(prev => ({ ...prev, audioError: t('audioError') }));
+                        setAudioBlob(await masterNarration(finalBlob));
+                    } else if (pcmChunks.length > 0) {
+                        setAudioBlob(await masterNarration(createWavFile(concatPcmChunks(pcmChunks), 1, SAMPLE_RATE, 16)));
                     }
+                } catch (e) {
+                    console.error("Error finishing the narration", e);
+                    setCurrentKit(prev => ({ ...prev, audioError: t('audioError') }));
+                } finally {
+                    setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], isAudioLoading: false } }));
                 }
-                setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], isAudioLoading: false } }));
             },
             onError: (errorMsg) => {
                 setCurrentKit(prev => ({ ...prev, audioError: t('audioError') }));
@@ -278,10 +420,135 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
         }, fileHandle);
     };
 
+    const handleResynthesizeGaps = async () => {
+        if (!audioBlob || !currentKit.speechGaps?.length) return;
+        const kitType = contentType;
+        setGenerationStatus(prev => ({ ...prev, [kitType]: { ...prev[kitType], isAudioLoading: true, audioProgress: 0 } }));
+        setCurrentKit(prev => ({ ...prev, audioError: '' }));
+        try {
+            const { blob, result } = await resynthesizeSpeechGaps(audioBlob, currentKit.speechGaps, currentKit.timings || [], multiSpeakerConfig);
+            setAudioBlob(await masterNarration(blob));
+            setMixedAudioBlob(null);
+            setCurrentKit(prev => ({
+                ...prev,
+                speechGaps: result.gaps,
+                timings: result.timings,
+                longPost: retimedPost(prev, result.timings),
+                audioDurationCheck: durationCheck(result.pcmBytes),
+            }));
+        } catch (e) {
+            console.error("Re-synthesis failed:", e);
+            setCurrentKit(prev => ({ ...prev, audioError: t('audioError') }));
+        } finally {
+            setGenerationStatus(prev => ({ ...prev, [kitType]: { ...prev[kitType], isAudioLoading: false } }));
+        }
+    };
+
+    // --- SCRIPT EDITOR ---
+    // Edited turns are only marked as changed while there is narration to patch; before that
+    // the whole script is voiced anyway.
+    const markTurnChanged = (prev: MarketingKit, key: string) =>
+        audioBlob && !prev.changedTurns?.includes(key) ? [...(prev.changedTurns || []), key] : prev.changedTurns;
+
+    const handleTurnChange = (sectionIndex: number, turnIndex: number, turn: ScriptTurn) => {
+        setCurrentKit(prev => prev.script ? {
+            ...prev,
+            script: replaceScriptTurn(prev.script, sectionIndex, turnIndex, turn),
+            changedTurns: markTurnChanged(prev, turnKey(sectionIndex, turnIndex)),
+        } : prev);
+    };
+
+    const handleRewriteTurn = async (sectionIndex: number, turnIndex: number, instruction: string) => {
+        if (!currentKit.script) return;
+        const key = turnKey(sectionIndex, turnIndex);
+        setBusyTurns(prev => [...prev, key]);
+        setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], error: '' } }));
+        try {
+            const turn = await rewriteScriptTurn(currentKit.script, sectionIndex, turnIndex, instruction, language);
+            handleTurnChange(sectionIndex, turnIndex, turn);
+        } catch (e) {
+            console.error("Turn rewrite failed:", e);
+            setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], error: t('scriptEditorRewriteError') } }));
+        } finally {
+            setBusyTurns(prev => prev.filter(k => k !== key));
+        }
+    };
+
+    const handleRevoiceTurns = async (keys: string[]) => {
+        if (!audioBlob || !currentKit.script || !currentKit.timings?.length) return;
+        const kitType = contentType;
+        setBusyTurns(keys);
+        setGenerationStatus(prev => ({ ...prev, [kitType]: { ...prev[kitType], isAudioLoading: true, audioProgress: 0 } }));
+        setCurrentKit(prev => ({ ...prev, audioError: '' }));
+        try {
+            const { blob, pcmBytes, timings } = await revoiceScriptTurns(audioBlob, currentKit.script, keys, currentKit.timings, multiSpeakerConfig);
+            setAudioBlob(await masterNarration(blob));
+            setMixedAudioBlob(null);
+            setCurrentKit(prev => ({
+                ...prev,
+                timings,
+                longPost: retimedPost(prev, timings),
+                audioDurationCheck: durationCheck(pcmBytes),
+                changedTurns: (prev.changedTurns || []).filter(k => !keys.includes(k)),
+            }));
+        } catch (e) {
+            console.error("Re-voicing failed:", e);
+            setCurrentKit(prev => ({ ...prev, audioError: t('audioError') }));
+        } finally {
+            setBusyTurns([]);
+            setGenerationStatus(prev => ({ ...prev, [kitType]: { ...prev[kitType], isAudioLoading: false } }));
+        }
+    };
+
+    const handleLintFix = (finding: LintFinding) => {
+        if (finding.fix === 'translate' && finding.sectionIndex !== undefined && finding.turnIndex !== undefined) {
+            handleRewriteTurn(finding.sectionIndex, finding.turnIndex, translateInstruction(language));
+            return;
+        }
+        setCurrentKit(prev => prev.script ? { ...prev, script: applyLintFix(prev.script, finding, lintOptions) } : prev);
+    };
+
+    const handleLintFixAll = () => {
+        setCurrentKit(prev => prev.script ? { ...prev, script: applyAllLintFixes(prev.script, lintFindings, lintOptions) } : prev);
+    };
+
+    const handleMixAmbience = async () => {
+        if (!audioBlob) return;
+        const kitType = contentType;
+        setGenerationStatus(prev => ({ ...prev, [kitType]: { ...prev[kitType], isMixing: true } }));
+        setCurrentKit(prev => ({ ...prev, audioError: '' }));
+        try {
+            const { blob, loudness } = await mixWithConfiguredAmbience(audioBlob, settings.ambience, settings.mastering);
+            setMixedAudioBlob(blob);
+            setCurrentKit(prev => ({ ...prev, mixedLoudness: loudness }));
+        } catch (e: any) {
+            console.error("Ambience mixing failed:", e);
+            setCurrentKit(prev => ({ ...prev, audioError: e?.message || t('ambienceMixError') }));
+        } finally {
+            setGenerationStatus(prev => ({ ...prev, [kitType]: { ...prev[kitType], isMixing: false } }));
+        }
+    };
+
+    // --- THUMBNAIL TEXT ---
+
+    const thumbnailStyle = currentKit.thumbnailStyle || settings.thumbnailStyle;
+    const canEditThumbnailText = !!(baseImageBlob && currentKit.thumbnailText && !currentKit.thumbnailVariants);
+
+    const handleApplyThumbnailText = async () => {
+        if (!baseImageBlob || !currentKit.thumbnailText) return;
+        try {
+            setImageBlob(await composeThumbnail(baseImageBlob, currentKit.thumbnailText, thumbnailStyle));
+        } catch (e: any) {
+            console.error("Thumbnail compositing failed:", e);
+            setCurrentKit(prev => ({ ...prev, imageError: t('thumbnailComposeError') }));
+        }
+    };
+
     const handleGenerateImage = async () => {
-        if (!currentKit.prayer) return;
+        if (!prayerText) return;
         setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], isImageLoading: true } }));
         setImageBlob(null);
+        setBaseImageBlob(null);
         setCurrentKit(prev => ({ ...prev, imageError: '' }));
         
         try {
@@ -292,20 +559,37 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                 return;
             }
             
-            const visualPrompt = await createThumbnailPromptFromPost(
+            const thumbnailVersions = activePromptVersions(['thumbnail']);
+            const aspectRatio: AspectRatio = contentType === 'long' ? '16:9' : '9:16';
+
+            if (currentKit.titleVariants && currentKit.titleVariants.length > 1) {
+                const kitType = contentType;
+                const thumbnailVariants = await generateThumbnailVariants(
+                    currentKit.titleVariants,
+                    postContent.description,
+                    prayerText,
+                    language,
+                    aspectRatio,
+                    `marketing_${kitType}_image_variant`
+                );
+                setCurrentKit(prev => ({ ...prev, thumbnailVariants, thumbnailText: undefined, promptVersions: { ...prev.promptVersions, ...thumbnailVersions } }));
+                // Variant A is the kit's image until a winner is picked in the history
+                setImageBlob((await idb.get<Blob>(thumbnailVariants[0].imageBlobKey)) || null);
+                return;
+            }
+
+            const design = await createThumbnailDesignFromPost(
                 postContent.title,
                 postContent.description,
-                currentKit.prayer,
+                prayerText,
                 language
             );
+            const thumbnailText = { headline: design.headline, subheadline: design.subheadline };
+            setCurrentKit(prev => ({ ...prev, thumbnailVariants: undefined, thumbnailText, promptVersions: { ...prev.promptVersions, ...thumbnailVersions } }));
             
-            const imageModel = contentType === 'long' ? 'imagen-4.0-generate-001' : 'imagen-4.0-generate-001';
-            const aspectRatio: AspectRatio = contentType === 'long' ? '16:9' : '9:16';
-            
-            const base64Image = await generateImageFromPrayer(visualPrompt, aspectRatio, imageModel);
-            const imageResponse = await fetch(`data:image/png;base64,${base64Image}`);
-            const blob = await imageResponse.blob();
-            setImageBlob(blob);
+            const base = await generateThumbnailBase(design, aspectRatio);
+            setBaseImageBlob(base);
+            setImageBlob(await composeThumbnail(base, thumbnailText, thumbnailStyle));
         } catch (e: any) {
              let errorMsg = t('imageError');
              if (e.message?.includes("thumbnail prompt")) {
@@ -326,7 +610,7 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
     };
 
     const handleGenerateVideo = async () => {
-        if (!currentKit.prayer) return;
+        if (!prayerText) return;
         setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], isVideoLoading: true } }));
         setCurrentKit(prev => ({ ...prev, videoDownloadLink: null, videoError: '' }));
         
@@ -338,13 +622,13 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                 setGenerationStatus(prev => ({ ...prev, [contentType]: { ...prev[contentType], isVideoLoading: false } }));
                 return;
             }
-            const visualPrompt = await createThumbnailPromptFromPost(
+            const { imagePrompt } = await createThumbnailDesignFromPost(
                  postContent.title,
                  postContent.description,
-                 currentKit.prayer,
+                 prayerText,
                  language
             );
-            const downloadLink = await generateVideo(visualPrompt, contentType === 'long' ? '16:9' : '9:16');
+            const downloadLink = await generateVideo(imagePrompt, contentType === 'long' ? '16:9' : '9:16');
             setCurrentKit(prev => ({ ...prev, videoDownloadLink: downloadLink }));
         } catch (e: any)
         {
@@ -363,17 +647,38 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
 
     const handleSaveToHistory = async () => {
         const id = Date.now().toString();
+        const { audioExport } = settings;
         
         const audioBlobKey = audioBlob ? `history_audio_${id}` : undefined;
-        const imageBlobKey = imageBlob ? `history_image_${id}` : undefined;
+        const mixedAudioBlobKey = mixedAudioBlob ? `history_mixed_audio_${id}` : undefined;
+        const wavAudioBlobKey = audioBlob && audioExport.format !== 'wav' && audioExport.keepWav ? `history_audio_wav_${id}` : undefined;
+        // With A/B thumbnails the item's image is variant A, stored once with the others.
+        const thumbnailVariants = currentKit.thumbnailVariants?.map((variant, index) => ({ ...variant, imageBlobKey: `history_image_${id}_${index}` }));
+        const imageBlobKey = thumbnailVariants ? thumbnailVariants[0].imageBlobKey : imageBlob ? `history_image_${id}` : undefined;
         const videoBlobKey = videoBlob ? `history_video_${id}` : undefined;
+        const timings = audioBlob && currentKit.timings?.length ? currentKit.timings : undefined;
+        const srtBlobKey = timings ? `history_srt_${id}` : undefined;
+        const vttBlobKey = timings ? `history_vtt_${id}` : undefined;
 
-        const blobPromises: Promise<void>[] = [];
-        if (audioBlob && audioBlobKey) blobPromises.push(idb.set(audioBlobKey, audioBlob));
-        if (imageBlob && imageBlobKey) blobPromises.push(idb.set(imageBlobKey, imageBlob));
-        if (videoBlob && videoBlobKey) blobPromises.push(idb.set(videoBlobKey, videoBlob));
-
+        setIsSaving(true);
         try {
+            // Narration and mix are stored in the export format; the working copies stay WAV.
+            const blobPromises: Promise<void>[] = [];
+            if (audioBlob && audioBlobKey) blobPromises.push(idb.set(audioBlobKey, await encodeAudio(audioBlob, audioExport)));
+            if (mixedAudioBlob && mixedAudioBlobKey) blobPromises.push(idb.set(mixedAudioBlobKey, await encodeAudio(mixedAudioBlob, audioExport)));
+            if (audioBlob && wavAudioBlobKey) blobPromises.push(idb.set(wavAudioBlobKey, audioBlob));
+            // The overlay may have been edited since it was last applied
+            const finalImage = canEditThumbnailText ? await composeThumbnail(baseImageBlob!, currentKit.thumbnailText!, thumbnailStyle) : imageBlob;
+            if (finalImage && imageBlobKey && !thumbnailVariants) blobPromises.push(idb.set(imageBlobKey, finalImage));
+            currentKit.thumbnailVariants?.forEach((variant, index) => blobPromises.push(
+                idb.get<Blob>(variant.imageBlobKey).then(blob => blob ? idb.set(thumbnailVariants![index].imageBlobKey, blob) : undefined)
+            ));
+            if (videoBlob && videoBlobKey) blobPromises.push(idb.set(videoBlobKey, videoBlob));
+            if (timings && srtBlobKey && vttBlobKey) {
+                const { srt, vtt } = createSubtitleFiles(timings);
+                blobPromises.push(idb.set(srtBlobKey, srt), idb.set(vttBlobKey, vtt));
+            }
+
             await Promise.all(blobPromises);
             const newHistoryItem: MarketingHistoryItem = {
                 id,
@@ -382,12 +687,25 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                 language: language,
                 prompt: currentKit.prompt,
                 subthemes: currentKit.subthemes,
-                prayer: currentKit.prayer,
+                prayer: prayerText,
+                script: currentKit.script || undefined,
                 socialPost: currentKit.socialPost,
                 longPost: currentKit.longPost,
                 audioBlobKey,
+                audioDurationSeconds: currentKit.audioDurationCheck?.actualSeconds,
+                mixedAudioBlobKey,
+                loudness: currentKit.loudness,
+                mixedLoudness: mixedAudioBlob ? currentKit.mixedLoudness : undefined,
+                audioFormat: audioExport.format,
+                wavAudioBlobKey,
+                timings,
+                srtBlobKey,
+                vttBlobKey,
                 imageBlobKey,
                 videoBlobKey,
+                promptVersions: currentKit.promptVersions,
+                titleVariants: currentKit.titleVariants?.map(title => ({ title })),
+                thumbnailVariants,
                 isDownloaded: false,
             };
             setHistory(prev => [newHistoryItem, ...prev]);
@@ -395,10 +713,20 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
         } catch (error) {
             console.error("Failed to save kit to history:", error);
             alert(t('marketingErrorSaving'));
+        } finally {
+            setIsSaving(false);
         }
     };
 
-    const isSaveDisabled = !audioBlob || !imageBlob || currentStatus.isTextLoading;
+    const variantComparison = currentKit.titleVariants && currentKit.titleVariants.length > 1 && (
+        <div className="space-y-1">
+            <label className="text-xs font-semibold text-gray-300">{t('variantComparisonTitle')}</label>
+            <VariantComparison titles={currentKit.titleVariants.map(title => ({ title }))} thumbnails={currentKit.thumbnailVariants || []} />
+            <p className="text-xs text-gray-400">{t('variantPickInHistory')}</p>
+        </div>
+    );
+
+    const isSaveDisabled = !audioBlob || !imageBlob || currentStatus.isTextLoading || isSaving;
 
     return (
         <div className="bg-gray-800 p-6 rounded-xl shadow-lg animate-fade-in space-y-6">
@@ -474,25 +802,27 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                 )}
 
 
-                <button onClick={handleGenerateTextAssets} disabled={currentStatus.isTextLoading || !currentKit.prompt} className="w-full flex items-center justify-center bg-amber-500 text-gray-900 font-bold py-3 px-6 rounded-lg hover:bg-amber-600 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed transform hover:scale-105">
+                <button onClick={() => handleGenerateTextAssets()} disabled={currentStatus.isTextLoading || !currentKit.prompt} className="w-full flex items-center justify-center bg-amber-500 text-gray-900 font-bold py-3 px-6 rounded-lg hover:bg-amber-600 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed transform hover:scale-105">
                     {currentStatus.isTextLoading ? <><SpinnerIcon /> {t('marketingGeneratingKit')}</> : t('marketingGenerateKit')}
                 </button>
             </div>
             
+            <CheckpointProgress checkpoint={currentCheckpoint} isGenerating={currentStatus.isTextLoading} onResume={() => handleGenerateTextAssets(true)} />
+
             {currentStatus.error && <p className="text-red-400 text-center" aria-live="polite">{currentStatus.error}</p>}
 
-            {(currentKit.prayer || currentKit.socialPost || currentKit.longPost || currentStatus.isTextLoading) && (
+            {(prayerText || currentKit.socialPost || currentKit.longPost || currentStatus.isTextLoading) && (
                 <div className="mt-6 p-6 bg-gray-900 rounded-lg border border-gray-700 space-y-6">
                     <div className="flex justify-between items-center">
                         <h3 className="text-xl font-semibold text-amber-300">{t('marketingKitHeader')}</h3>
-                        {currentKit.prayer && !currentStatus.isTextLoading && (
+                        {prayerText && !currentStatus.isTextLoading && (
                              <div title={isSaveDisabled ? t('marketingSaveDisabledTooltip') : ''}>
                                 <button 
                                     onClick={handleSaveToHistory} 
                                     disabled={isSaveDisabled}
                                     className="bg-amber-600 text-white text-xs font-bold py-2 px-3 rounded-lg hover:bg-amber-700 transition disabled:bg-gray-600 disabled:cursor-not-allowed"
                                 >
-                                    {t('marketingSaveToHistory')}
+                                    {isSaving ? t('marketingSavingKit') : t('marketingSaveToHistory')}
                                 </button>
                             </div>
                         )}
@@ -505,9 +835,33 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                                 <div>
                                     <div className="flex justify-between items-center mb-1">
                                         <h4 className="font-bold text-gray-200">{t('marketingScript')}</h4>
-                                        {currentKit.prayer && <CopyButton textToCopy={currentKit.prayer} />}
+                                        {prayerText && <CopyButton textToCopy={prayerText} />}
                                     </div>
-                                    <p className="p-2 bg-gray-700 rounded mt-1 text-gray-100 whitespace-pre-wrap text-sm leading-relaxed max-h-40 overflow-y-auto">{currentKit.prayer}</p>
+                                    {currentKit.script && (
+                                        <div className="mt-1 max-h-96 overflow-y-auto">
+                                            <ScriptEditor
+                                                script={currentKit.script}
+                                                changedTurns={currentKit.changedTurns || []}
+                                                busyTurns={busyTurns}
+                                                canRevoice={!!audioBlob && !!currentKit.timings?.length && !currentKit.speechGaps?.length && !isAnyMediaGenerating}
+                                                onTurnChange={handleTurnChange}
+                                                onRewrite={handleRewriteTurn}
+                                                onRevoice={handleRevoiceTurns}
+                                            />
+                                        </div>
+                                    )}
+                                    {/* The linter runs before synthesis; once narration exists, edits go through the editor */}
+                                    {currentKit.script && !audioBlob && (
+                                        <div className="mt-2">
+                                            <ScriptLintReport
+                                                findings={lintFindings}
+                                                replacementSpeaker={lintOptions.replacementSpeaker}
+                                                isBusy={busyTurns.length > 0 || isAnyMediaGenerating}
+                                                onFix={handleLintFix}
+                                                onFixAll={handleLintFixAll}
+                                            />
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="space-y-3 text-sm pt-4 border-t border-gray-700">
                                     <h4 className="font-bold text-gray-200">{t('marketingPostCopy')}</h4>
@@ -517,6 +871,7 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                                                 <label className="text-xs font-semibold text-gray-300 flex justify-between items-center">{t('marketingTitleLabel')} <CopyButton textToCopy={currentKit.longPost.title} /></label>
                                                 <p className="p-2 bg-gray-700 rounded mt-1 text-gray-100">{currentKit.longPost.title}</p>
                                             </div>
+                                            {variantComparison}
                                             <div>
                                                 <label className="text-xs font-semibold text-gray-300 flex justify-between items-center">{t('marketingDescriptionLabel')} <CopyButton textToCopy={currentKit.longPost.description} /></label>
                                                 <p className="p-2 bg-gray-700 rounded mt-1 text-gray-100 whitespace-pre-wrap">{currentKit.longPost.description}</p>
@@ -540,6 +895,7 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                                                 <label className="text-xs font-semibold text-gray-300 flex justify-between items-center">{t('marketingTitleLabel')} <CopyButton textToCopy={currentKit.socialPost.title} /></label>
                                                 <p className="p-2 bg-gray-700 rounded mt-1 text-gray-100">{currentKit.socialPost.title}</p>
                                             </div>
+                                            {variantComparison}
                                             <div>
                                                 <label className="text-xs font-semibold text-gray-300 flex justify-between items-center">{t('marketingDescriptionLabel')} <CopyButton textToCopy={currentKit.socialPost.description} /></label>
                                                 <p className="p-2 bg-gray-700 rounded mt-1 text-gray-100 whitespace-pre-wrap">{currentKit.socialPost.description}</p>
@@ -549,14 +905,14 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                                                 <p className="p-2 bg-gray-700 rounded mt-1 text-sky-300 text-xs flex flex-wrap gap-2">{currentKit.socialPost.hashtags.map(h => `#${h}`).join(' ')}</p>
                                             </div>
                                         </>
-                                    ) : (currentKit.prayer && <p className="text-xs text-gray-400">{t('marketingErrorSocial')}</p>)}
+                                    ) : (prayerText && <p className="text-xs text-gray-400">{t('marketingErrorSocial')}</p>)}
                                 </div>
                             </>
                         )}
                     </div>
 
                     {/* Media Generation Section */}
-                    {currentKit.prayer && !currentStatus.isTextLoading && (
+                    {prayerText && !currentStatus.isTextLoading && (
                          <div className="p-4 bg-gray-800 rounded-lg space-y-4">
                              <h4 className="font-bold text-amber-300 border-b border-gray-700 pb-2 mb-4">{t('marketingMediaGenerationOptions')}</h4>
                              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -576,6 +932,7 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                                             </div>
                                          )}
                                          {isAudioLoadingFromDB && <div className="text-center text-gray-300 italic text-xs">Loading saved audio... <SpinnerIcon/></div>}
+                                         {!audioObjUrl && !currentStatus.isAudioLoading && <DurationProjection projectedSeconds={projectedSeconds} targetSeconds={targetSeconds} />}
                                          {currentKit.audioError && <p className="text-xs text-red-400">{currentKit.audioError}</p>}
                                          {audioObjUrl && !currentStatus.isAudioLoading && (
                                             <div className="flex items-center gap-2">
@@ -583,6 +940,31 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                                                  <a href={audioObjUrl} download="narration.wav" title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300"><DownloadIcon/></a>
                                             </div>
                                          )}
+                                         {audioObjUrl && !currentStatus.isAudioLoading && <AudioDurationReport check={currentKit.audioDurationCheck || null} />}
+                                         {audioObjUrl && !currentStatus.isAudioLoading && <LoudnessSummary report={currentKit.loudness} />}
+                                         {audioObjUrl && !currentStatus.isAudioLoading && (
+                                            <div className="pt-2 space-y-2">
+                                                <button onClick={handleMixAmbience} disabled={isAnyMediaGenerating} className="w-full flex items-center justify-center bg-teal-600 text-white text-sm font-bold py-1 px-3 rounded-lg hover:bg-teal-700 disabled:bg-gray-600">
+                                                    {currentStatus.isMixing ? <><SpinnerIcon /> {t('ambienceMixing')}</> : t('ambienceMix')}
+                                                </button>
+                                                {isMixedAudioLoadingFromDB && <div className="text-center text-gray-300 italic text-xs">Loading saved audio... <SpinnerIcon/></div>}
+                                                {mixedAudioObjUrl && !currentStatus.isMixing && (
+                                                    <div className="flex items-center gap-2">
+                                                        <audio controls src={mixedAudioObjUrl} className="w-full"></audio>
+                                                        <a href={mixedAudioObjUrl} download="narration_mixed.wav" title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300"><DownloadIcon/></a>
+                                                    </div>
+                                                )}
+                                                {mixedAudioObjUrl && !currentStatus.isMixing && <LoudnessSummary report={currentKit.mixedLoudness} />}
+                                            </div>
+                                         )}
+                                         {audioObjUrl && (
+                                            <SpeechGapReport
+                                                gaps={currentKit.speechGaps}
+                                                isBusy={isAnyMediaGenerating}
+                                                isResynthesizing={currentStatus.isAudioLoading}
+                                                onResynthesize={handleResynthesizeGaps}
+                                            />
+                                         )}
                                      </div>
                                 </div>
                                  {/* Image */}
@@ -595,9 +977,23 @@ export const MarketingExpert: React.FC<MarketingExpertProps> = ({ history, setHi
                                         <p className="text-xs text-gray-400">{t('imageInfoBilled')}</p>
                                         {isImageLoadingFromDB && <div className="text-center text-gray-300 italic text-xs">Loading saved image... <SpinnerIcon/></div>}
                                         {currentKit.imageError && <p className="text-xs text-red-400">{currentKit.imageError}</p>}
+                                        {canEditThumbnailText && baseImageBlob && currentKit.thumbnailText && (
+                                            <div className="mt-2">
+                                                <ThumbnailCompositor
+                                                    image={baseImageBlob}
+                                                    text={currentKit.thumbnailText}
+                                                    style={thumbnailStyle}
+                                                    isBusy={isAnyMediaGenerating}
+                                                    onTextChange={(thumbnailText) => setCurrentKit(prev => ({ ...prev, thumbnailText }))}
+                                                    onStyleChange={(style) => setCurrentKit(prev => ({ ...prev, thumbnailStyle: style }))}
+                                                    onResetStyle={() => setCurrentKit(prev => ({ ...prev, thumbnailStyle: undefined }))}
+                                                    onApply={handleApplyThumbnailText}
+                                                />
+                                            </div>
+                                        )}
                                         {imageObjUrl && (
                                              <div className="text-center mt-2">
-                                                <img src={imageObjUrl} alt="Generated visual" className="rounded-md max-h-40 mx-auto" />
+                                                {!canEditThumbnailText && <img src={imageObjUrl} alt="Generated visual" className="rounded-md max-h-40 mx-auto" />}
                                                  <a href={imageObjUrl} download="visual.png" title={t('downloadMedia')} className="text-sky-400 hover:text-sky-300 text-xs inline-flex items-center gap-1 mt-1"><DownloadIcon/> {t('downloadMedia')}</a>
                                              </div>
                                         )}
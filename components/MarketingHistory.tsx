@@ -4,6 +4,7 @@ import { MarketingHistoryItem } from '../types';
 import { LanguageContext, LanguageContextType } from '../context';
 import { HistoryItemCard } from './HistoryItemCard';
 import { idb } from '../hooks/usePersistentState';
+import { itemImageKeys } from '../services/abVariants';
 
 interface MarketingHistoryProps {
     history: MarketingHistoryItem[];
@@ -23,7 +24,7 @@ export const MarketingHistory: React.FC<MarketingHistoryProps> = ({ history, set
             if (!itemToDelete) return;
             
             // Delete associated blobs from IndexedDB
-            const blobKeys = [itemToDelete.audioBlobKey, itemToDelete.imageBlobKey, itemToDelete.videoBlobKey];
+            const blobKeys = [itemToDelete.audioBlobKey, itemToDelete.mixedAudioBlobKey, itemToDelete.wavAudioBlobKey, itemToDelete.srtBlobKey, itemToDelete.vttBlobKey, ...itemImageKeys(itemToDelete), itemToDelete.videoBlobKey, itemToDelete.audiogramBlobKey];
             const deletePromises = blobKeys.filter(key => !!key).map(key => idb.del(key!));
             
             try {
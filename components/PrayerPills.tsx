@@ -7,7 +7,8 @@ export const PrayerPills: React.FC = () => {
         <PrayerGenerator
             titleKey="pillsTitle"
             descriptionKey="pillsDescription"
-            prayerGeneratorFn={generateShortPrayer}
+            // Pills have a fixed length, so the selected duration is not passed on
+            prayerGeneratorFn={(prompt, language, _duration, options) => generateShortPrayer(prompt, language, options)}
             storageKeyPrefix="prayerPill"
         />
     );
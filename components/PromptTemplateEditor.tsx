@@ -0,0 +1,120 @@
+import React, { useContext, useState } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { PromptTemplateId } from '../types';
+import { PromptTemplateStore } from '../settings';
+import {
+    BUILT_IN_VERSION,
+    PROMPT_TEMPLATES,
+    activePromptVersion,
+    addPromptVersion,
+    findPromptTemplate,
+    promptTemplateVersions,
+    renderPromptText,
+    setActivePromptVersion,
+    unknownPromptVariables,
+} from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+    store: PromptTemplateStore;
+    onChange: (store: PromptTemplateStore) => void;
+}
+
+const inputClass = "w-full bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm";
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ store, onChange }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const [templateId, setTemplateId] = useState<PromptTemplateId>(PROMPT_TEMPLATES[0].id);
+    const [draft, setDraft] = useState(() => activePromptVersion(PROMPT_TEMPLATES[0].id, store));
+    const [note, setNote] = useState('');
+    const [showPreview, setShowPreview] = useState(false);
+
+    const template = findPromptTemplate(templateId);
+    const versions = promptTemplateVersions(templateId, store);
+    const active = activePromptVersion(templateId, store);
+    const base = versions.find(version => version.version === draft.version) || active;
+    const isDirty = draft.system !== base.system || draft.user !== base.user;
+    const unknown = unknownPromptVariables(templateId, `${draft.system}\n${draft.user}`);
+    const samples = Object.fromEntries(template.variables.map(variable => [variable.name, variable.sample]));
+
+    const selectTemplate = (id: PromptTemplateId) => {
+        setTemplateId(id);
+        setDraft(activePromptVersion(id, store));
+        setNote('');
+    };
+
+    const saveVersion = () => {
+        const updated = addPromptVersion(store, templateId, { system: draft.system, user: draft.user, note: note.trim() || undefined });
+        onChange(updated);
+        setDraft(activePromptVersion(templateId, updated));
+        setNote('');
+    };
+
+    const activate = (version: number) => {
+        onChange(setActivePromptVersion(store, templateId, version));
+        setDraft(versions.find(candidate => candidate.version === version) || active);
+    };
+
+    return (
+        <div className="space-y-3">
+            <label className="block text-xs text-gray-400 space-y-1">
+                <span>{t('promptTemplateSelect')}</span>
+                <select value={templateId} onChange={(e) => selectTemplate(e.target.value as PromptTemplateId)} className={inputClass}>
+                    {PROMPT_TEMPLATES.map(candidate => <option key={candidate.id} value={candidate.id}>{t(candidate.nameKey)}</option>)}
+                </select>
+            </label>
+
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+                {versions.map(version => (
+                    <li key={version.version} className={`flex items-center justify-between gap-2 p-1 px-2 rounded text-xs ${version.version === draft.version ? 'bg-gray-700' : 'bg-gray-800'}`}>
+                        <button onClick={() => setDraft(version)} className="text-left text-gray-200 hover:text-amber-300 truncate">
+                            v{version.version} · {version.version === BUILT_IN_VERSION ? t('promptTemplateBuiltIn') : new Date(version.createdAt).toLocaleString()}
+                            {version.note && <span className="text-gray-400"> · {version.note}</span>}
+                        </button>
+                        {version.version === active.version ? (
+                            <span className="shrink-0 text-green-400">{t('promptTemplateActive')}</span>
+                        ) : (
+                            <button onClick={() => activate(version.version)} className="shrink-0 bg-gray-600 px-2 py-0.5 rounded hover:bg-gray-500 transition">
+                                {t('promptTemplateActivate')}
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex flex-wrap gap-1">
+                {template.variables.map(variable => (
+                    <code key={variable.name} title={variable.sample} className="text-xs bg-gray-800 text-amber-300 px-1.5 py-0.5 rounded">{`{${variable.name}}`}</code>
+                ))}
+            </div>
+
+            <label className="block text-xs text-gray-400 space-y-1">
+                <span>{t('promptTemplateSystem')}</span>
+                <textarea value={draft.system} onChange={(e) => setDraft({ ...draft, system: e.target.value })} rows={8} className={`${inputClass} font-mono text-xs`} />
+            </label>
+            <label className="block text-xs text-gray-400 space-y-1">
+                <span>{t('promptTemplateUser')}</span>
+                <textarea value={draft.user} onChange={(e) => setDraft({ ...draft, user: e.target.value })} rows={6} className={`${inputClass} font-mono text-xs`} />
+            </label>
+            {unknown.length > 0 && (
+                <p className="text-xs text-yellow-300">{t('promptTemplateUnknownVariables').replace('{names}', unknown.map(name => `{${name}}`).join(', '))}</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('promptTemplateNotePlaceholder')} className={`${inputClass} flex-1 min-w-[10rem] text-xs`} />
+                <button onClick={saveVersion} disabled={!isDirty} className="bg-teal-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-teal-700 transition disabled:bg-gray-600">
+                    {t('promptTemplateSaveVersion')}
+                </button>
+                <button onClick={() => setShowPreview(!showPreview)} className="bg-gray-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-gray-500 transition">
+                    {showPreview ? t('promptTemplateHidePreview') : t('promptTemplatePreview')}
+                </button>
+            </div>
+
+            {showPreview && (
+                <div className="p-2 bg-gray-800 rounded-lg border border-gray-700 space-y-2 max-h-80 overflow-y-auto">
+                    {draft.system.trim() && <pre className="text-xs text-gray-300 whitespace-pre-wrap">{renderPromptText(draft.system, samples).trim()}</pre>}
+                    <pre className="text-xs text-gray-100 whitespace-pre-wrap border-t border-gray-700 pt-2">{renderPromptText(draft.user, samples).trim()}</pre>
+                </div>
+            )}
+        </div>
+    );
+};
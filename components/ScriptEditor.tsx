@@ -0,0 +1,102 @@
+import React, { useContext, useState } from 'react';
+import { PrayerScript, ScriptTurn } from '../types';
+import { LanguageContext, LanguageContextType } from '../context';
+import { SpinnerIcon } from './icons';
+import { turnKey } from '../utils/prayerScript';
+
+interface ScriptEditorProps {
+    script: PrayerScript;
+    changedTurns: string[]; // Turns edited since the audio was generated (turnKey).
+    busyTurns: string[]; // Turns being rewritten or re-voiced.
+    canRevoice: boolean;
+    onTurnChange: (sectionIndex: number, turnIndex: number, turn: ScriptTurn) => void;
+    onRewrite: (sectionIndex: number, turnIndex: number, instruction: string) => void;
+    onRevoice: (keys: string[]) => void;
+}
+
+const PRESET_KEYS = ['scriptEditorPresetScripture', 'scriptEditorPresetSofter', 'scriptEditorPresetShorter'];
+
+const inputClass = "w-full bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm";
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ script, changedTurns, busyTurns, canRevoice, onTurnChange, onRewrite, onRevoice }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const [instructions, setInstructions] = useState<Record<string, string>>({});
+    const isBusy = busyTurns.length > 0;
+
+    return (
+        <div className="space-y-3">
+            {canRevoice && changedTurns.length > 0 && (
+                <div className="flex items-center justify-between gap-4 p-2 bg-sky-900 border border-sky-700 rounded-lg text-xs text-sky-100">
+                    <span>{t('scriptEditorChanged').replace('{count}', String(changedTurns.length))}</span>
+                    <button onClick={() => onRevoice(changedTurns)} disabled={isBusy} className="font-bold bg-sky-600 py-1 px-3 rounded-lg hover:bg-sky-700 disabled:bg-gray-600">
+                        {t('scriptEditorRevoiceChanged')}
+                    </button>
+                </div>
+            )}
+            {script.sections.map((section, sectionIndex) => (
+                <details key={sectionIndex} open={script.sections.length === 1} className="bg-gray-800 rounded-lg border border-gray-700">
+                    <summary className="cursor-pointer p-2 text-sm font-semibold text-gray-200">
+                        {section.title} <span className="text-xs text-gray-400">({section.turns.length})</span>
+                    </summary>
+                    <div className="p-2 space-y-3">
+                        {section.turns.map((turn, turnIndex) => {
+                            const key = turnKey(sectionIndex, turnIndex);
+                            const isTurnBusy = busyTurns.includes(key);
+                            const isChanged = changedTurns.includes(key);
+                            return (
+                                <div key={key} className={`p-2 rounded-md border ${isChanged ? 'border-sky-600' : 'border-gray-700'} space-y-2`}>
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span className="font-semibold text-amber-300">{turn.speaker}</span>
+                                        {isChanged && <span className="text-sky-300">{t('scriptEditorChangedBadge')}</span>}
+                                    </div>
+                                    <textarea
+                                        value={turn.text}
+                                        onChange={(e) => onTurnChange(sectionIndex, turnIndex, { ...turn, text: e.target.value })}
+                                        disabled={isTurnBusy}
+                                        rows={Math.min(8, Math.max(2, Math.ceil(turn.text.length / 90)))}
+                                        className={inputClass}
+                                    />
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <input
+                                            value={instructions[key] || ''}
+                                            onChange={(e) => setInstructions(prev => ({ ...prev, [key]: e.target.value }))}
+                                            placeholder={t('scriptEditorInstructionPlaceholder')}
+                                            className={`${inputClass} flex-1 min-w-[10rem] text-xs`}
+                                        />
+                                        {PRESET_KEYS.map(presetKey => (
+                                            <button
+                                                key={presetKey}
+                                                onClick={() => onRewrite(sectionIndex, turnIndex, t(presetKey))}
+                                                disabled={isBusy}
+                                                className="bg-gray-600 text-xs px-2 py-1 rounded hover:bg-gray-500 transition disabled:opacity-50"
+                                            >
+                                                {t(presetKey)}
+                                            </button>
+                                        ))}
+                                        <button
+                                            onClick={() => onRewrite(sectionIndex, turnIndex, instructions[key] || '')}
+                                            disabled={isBusy}
+                                            className="bg-amber-600 text-white text-xs font-bold py-1 px-2 rounded hover:bg-amber-700 transition disabled:bg-gray-600"
+                                        >
+                                            {t('scriptEditorRewrite')}
+                                        </button>
+                                        {canRevoice && (
+                                            <button
+                                                onClick={() => onRevoice([key])}
+                                                disabled={isBusy}
+                                                className="bg-sky-600 text-white text-xs font-bold py-1 px-2 rounded hover:bg-sky-700 transition disabled:bg-gray-600"
+                                            >
+                                                {t('scriptEditorRevoice')}
+                                            </button>
+                                        )}
+                                        {isTurnBusy && <SpinnerIcon className="animate-spin h-4 w-4 text-white" />}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </details>
+            ))}
+        </div>
+    );
+};
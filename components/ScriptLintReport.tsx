@@ -0,0 +1,69 @@
+import React, { useContext } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { LintFinding, LintFix, LintRule } from '../utils/scriptLinter';
+
+interface ScriptLintReportProps {
+    findings: LintFinding[];
+    replacementSpeaker?: string;
+    isBusy: boolean;
+    onFix: (finding: LintFinding) => void;
+    onFixAll: () => void;
+}
+
+const RULE_KEYS: Record<LintRule, string> = {
+    unknownSpeaker: 'scriptLintUnknownSpeaker',
+    metaText: 'scriptLintMetaText',
+    markdown: 'scriptLintMarkdown',
+    language: 'scriptLintLanguage',
+    duplicate: 'scriptLintDuplicate',
+    wordCount: 'scriptLintWordCount',
+};
+
+const FIX_KEYS: Record<LintFix, string> = {
+    replaceSpeaker: 'scriptLintFixReplaceSpeaker',
+    stripMeta: 'scriptLintFixStripMeta',
+    stripMarkdown: 'scriptLintFixStripMarkdown',
+    removeTurn: 'scriptLintFixRemoveTurn',
+    translate: 'scriptLintFixTranslate',
+};
+
+const interpolate = (text: string, params: Record<string, string | number> = {}) =>
+    Object.entries(params).reduce((result, [key, value]) => result.replace(`{${key}}`, String(value)), text);
+
+export const ScriptLintReport: React.FC<ScriptLintReportProps> = ({ findings, replacementSpeaker, isBusy, onFix, onFixAll }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    if (findings.length === 0) return <p className="text-xs text-gray-400">{t('scriptLintClean')}</p>;
+
+    const hasErrors = findings.some(f => f.severity === 'error');
+    const hasSyncFixes = findings.some(f => f.fix && f.fix !== 'translate');
+
+    return (
+        <div className={`p-3 bg-gray-800 border rounded-lg space-y-2 ${hasErrors ? 'border-red-700' : 'border-yellow-700'}`} aria-live="polite">
+            <div className="flex items-center justify-between gap-2">
+                <p className={`text-xs font-semibold ${hasErrors ? 'text-red-300' : 'text-yellow-300'}`}>{t('scriptLintTitle').replace('{count}', String(findings.length))}</p>
+                {hasSyncFixes && (
+                    <button onClick={onFixAll} disabled={isBusy} className="bg-yellow-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-yellow-700 disabled:bg-gray-600">
+                        {t('scriptLintFixAll')}
+                    </button>
+                )}
+            </div>
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {findings.map((finding, index) => (
+                    <li key={index} className="text-xs text-gray-300 flex items-start justify-between gap-2">
+                        <span title={finding.excerpt}>
+                            {finding.sectionIndex !== undefined && finding.turnIndex !== undefined && (
+                                <span className="font-mono text-gray-400">§{finding.sectionIndex + 1} · #{finding.turnIndex + 1}{' '}</span>
+                            )}
+                            <span className={finding.severity === 'error' ? 'text-red-300' : 'text-yellow-200'}>{interpolate(t(RULE_KEYS[finding.rule]), finding.params)}</span>
+                        </span>
+                        {finding.fix && (
+                            <button onClick={() => onFix(finding)} disabled={isBusy} className="shrink-0 bg-gray-600 px-2 py-0.5 rounded hover:bg-gray-500 transition disabled:opacity-50">
+                                {t(FIX_KEYS[finding.fix]).replace('{speaker}', replacementSpeaker || '')}
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -0,0 +1,177 @@
+import React, { useContext, useState } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { useAppSettings } from '../hooks/useAppSettings';
+import { AudioExportSettings, LOUDNESS_TARGETS, MP3_BITRATES, ProviderName, TTS_CONCURRENCY_OPTIONS, VARIANT_COUNT_OPTIONS } from '../settings';
+import { AudioFormat } from '../types';
+import { getProvider } from '../services/generationProvider';
+import { VoiceCastEditor } from './VoiceCastEditor';
+import { AmbienceSettingsEditor } from './AmbienceSettingsEditor';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { ThumbnailStyleEditor } from './ThumbnailStyleEditor';
+
+export const Settings: React.FC = () => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const [settings, updateSettings] = useAppSettings();
+    // The provider is fixed for the lifetime of the page, so compare against the one actually in use.
+    const [activeProviderName] = useState(() => getProvider().name);
+
+    const updateAudioExport = (patch: Partial<AudioExportSettings>) => updateSettings({ audioExport: { ...settings.audioExport, ...patch } });
+
+    const ProviderOption = ({ value, labelKey }: { value: ProviderName; labelKey: string }) => (
+        <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition ${
+            settings.generationProvider === value ? 'border-amber-500 bg-gray-700' : 'border-gray-600 hover:bg-gray-700'
+        }`}>
+            <input
+                type="radio"
+                name="generationProvider"
+                value={value}
+                checked={settings.generationProvider === value}
+                onChange={() => updateSettings({ generationProvider: value })}
+                className="accent-amber-500"
+            />
+            <span className="text-sm text-gray-200">{t(labelKey)}</span>
+        </label>
+    );
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-xl shadow-lg animate-fade-in space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold text-amber-400 mb-2">{t('settingsTitle')}</h2>
+                <p className="text-gray-300">{t('settingsDescription')}</p>
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <h3 className="font-bold text-gray-200">{t('settingsProviderLabel')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <ProviderOption value="gemini" labelKey="settingsProviderGemini" />
+                    <ProviderOption value="mock" labelKey="settingsProviderMock" />
+                </div>
+                <p className="text-xs text-gray-400">{t('settingsProviderInfo')}</p>
+                {settings.generationProvider !== activeProviderName && (
+                    <div className="flex items-center justify-between gap-4 p-2 bg-yellow-900 border border-yellow-700 rounded-lg text-xs text-yellow-200">
+                        <span>{t('settingsReloadRequired')}</span>
+                        <button onClick={() => window.location.reload()} className="font-bold underline hover:text-white">{t('settingsReload')}</button>
+                    </div>
+                )}
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <label htmlFor="tts-concurrency" className="block font-bold text-gray-200">{t('settingsTtsConcurrencyLabel')}</label>
+                <select
+                    id="tts-concurrency"
+                    value={settings.ttsConcurrency}
+                    onChange={(e) => updateSettings({ ttsConcurrency: Number(e.target.value) })}
+                    className="bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm"
+                >
+                    {TTS_CONCURRENCY_OPTIONS.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+                <p className="text-xs text-gray-400">{t('settingsTtsConcurrencyInfo')}</p>
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <label htmlFor="variant-count" className="block font-bold text-gray-200">{t('settingsVariantsLabel')}</label>
+                <select
+                    id="variant-count"
+                    value={settings.variantCount}
+                    onChange={(e) => updateSettings({ variantCount: Number(e.target.value) })}
+                    className="bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm"
+                >
+                    {VARIANT_COUNT_OPTIONS.map(value => <option key={value} value={value}>{value === 1 ? t('settingsVariantsOff') : value}</option>)}
+                </select>
+                <p className="text-xs text-gray-400">{t('settingsVariantsInfo')}</p>
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <h3 className="font-bold text-gray-200">{t('settingsVoiceCastLabel')}</h3>
+                <p className="text-xs text-gray-400">{t('settingsVoiceCastInfo')}</p>
+                <VoiceCastEditor cast={settings.voiceCast} onChange={(voiceCast) => updateSettings({ voiceCast })} />
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <h3 className="font-bold text-gray-200">{t('settingsAmbienceLabel')}</h3>
+                <p className="text-xs text-gray-400">{t('settingsAmbienceInfo')}</p>
+                <AmbienceSettingsEditor ambience={settings.ambience} onChange={(ambience) => updateSettings({ ambience })} />
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <h3 className="font-bold text-gray-200">{t('settingsThumbnailStyleLabel')}</h3>
+                <p className="text-xs text-gray-400">{t('settingsThumbnailStyleInfo')}</p>
+                <ThumbnailStyleEditor style={settings.thumbnailStyle} onChange={(thumbnailStyle) => updateSettings({ thumbnailStyle })} />
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <h3 className="font-bold text-gray-200">{t('settingsPromptTemplatesLabel')}</h3>
+                <p className="text-xs text-gray-400">{t('settingsPromptTemplatesInfo')}</p>
+                <PromptTemplateEditor store={settings.promptTemplates} onChange={(promptTemplates) => updateSettings({ promptTemplates })} />
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <h3 className="font-bold text-gray-200">{t('settingsMasteringLabel')}</h3>
+                <p className="text-xs text-gray-400">{t('settingsMasteringInfo')}</p>
+                <label className="flex items-center gap-2 text-sm text-gray-200">
+                    <input
+                        type="checkbox"
+                        checked={settings.mastering.enabled}
+                        onChange={(e) => updateSettings({ mastering: { ...settings.mastering, enabled: e.target.checked } })}
+                        className="accent-amber-500"
+                    />
+                    {t('masteringEnabled')}
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="block text-xs text-gray-400 space-y-1">
+                        <span>{t('masteringTarget')}</span>
+                        <select
+                            value={settings.mastering.targetLufs}
+                            onChange={(e) => updateSettings({ mastering: { ...settings.mastering, targetLufs: Number(e.target.value) } })}
+                            className="w-full bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm"
+                        >
+                            {LOUDNESS_TARGETS.map(value => <option key={value} value={value}>{value} LUFS</option>)}
+                        </select>
+                    </label>
+                    <label className="block text-xs text-gray-400 space-y-1">
+                        <span className="flex justify-between"><span>{t('masteringCeiling')}</span><span className="font-mono text-gray-200">{settings.mastering.ceilingDb} dBFS</span></span>
+                        <input
+                            type="range" min={-3} max={0} step={0.5}
+                            value={settings.mastering.ceilingDb}
+                            onChange={(e) => updateSettings({ mastering: { ...settings.mastering, ceilingDb: Number(e.target.value) } })}
+                            className="w-full accent-amber-500"
+                        />
+                    </label>
+                </div>
+            </div>
+
+            <div className="p-4 bg-gray-900 rounded-lg space-y-3">
+                <h3 className="font-bold text-gray-200">{t('settingsAudioExportLabel')}</h3>
+                <p className="text-xs text-gray-400">{t('settingsAudioExportInfo')}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {(['mp3', 'wav'] as AudioFormat[]).map(format => (
+                        <label key={format} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition ${
+                            settings.audioExport.format === format ? 'border-amber-500 bg-gray-700' : 'border-gray-600 hover:bg-gray-700'
+                        }`}>
+                            <input type="radio" name="audioExportFormat" checked={settings.audioExport.format === format} onChange={() => updateAudioExport({ format })} className="accent-amber-500" />
+                            <span className="text-sm text-gray-200">{t(format === 'mp3' ? 'audioExportMp3' : 'audioExportWav')}</span>
+                        </label>
+                    ))}
+                </div>
+                {settings.audioExport.format === 'mp3' && (
+                    <div className="space-y-3">
+                        <label className="block text-xs text-gray-400 space-y-1">
+                            <span>{t('audioExportBitrate')}</span>
+                            <select
+                                value={settings.audioExport.mp3BitrateKbps}
+                                onChange={(e) => updateAudioExport({ mp3BitrateKbps: Number(e.target.value) })}
+                                className="bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm"
+                            >
+                                {MP3_BITRATES.map(value => <option key={value} value={value}>{value} kbps</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-200">
+                            <input type="checkbox" checked={settings.audioExport.keepWav} onChange={(e) => updateAudioExport({ keepWav: e.target.checked })} className="accent-amber-500" />
+                            {t('audioExportKeepWav')}
+                        </label>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
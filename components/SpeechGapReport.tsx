@@ -0,0 +1,35 @@
+import React, { useContext } from 'react';
+import { SpeechGap } from '../types';
+import { LanguageContext, LanguageContextType } from '../context';
+import { SpinnerIcon } from './icons';
+import { formatTimestamp } from '../utils/audio';
+
+interface SpeechGapReportProps {
+    gaps: SpeechGap[] | undefined;
+    isBusy: boolean;
+    isResynthesizing: boolean;
+    onResynthesize: () => void;
+}
+
+export const SpeechGapReport: React.FC<SpeechGapReportProps> = ({ gaps, isBusy, isResynthesizing, onResynthesize }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    if (!gaps || gaps.length === 0) return null;
+
+    return (
+        <div className="p-3 bg-gray-800 border border-yellow-700 rounded-lg space-y-2" aria-live="polite">
+            <p className="text-xs font-semibold text-yellow-300">{t('speechGapsTitle').replace('{count}', String(gaps.length))}</p>
+            <p className="text-xs text-gray-400">{t('speechGapsDescription')}</p>
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+                {gaps.map(gap => (
+                    <li key={gap.blockIndex} className="text-xs text-gray-300" title={gap.error}>
+                        <span className="font-mono text-yellow-200">#{gap.blockIndex + 1} · {formatTimestamp(gap.offsetSeconds)}</span>{' '}
+                        <span className="font-semibold">{gap.speaker}:</span> {gap.text.length > 90 ? `${gap.text.slice(0, 90)}…` : gap.text}
+                    </li>
+                ))}
+            </ul>
+            <button onClick={onResynthesize} disabled={isBusy} className="w-full flex items-center justify-center bg-yellow-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-yellow-700 disabled:bg-gray-600">
+                {isResynthesizing ? <><SpinnerIcon /> {t('speechGapsResynthesizing')}</> : t('speechGapsResynthesize')}
+            </button>
+        </div>
+    );
+};
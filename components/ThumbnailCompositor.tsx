@@ -0,0 +1,75 @@
+import React, { useContext, useEffect, useRef, useState } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { ThumbnailText } from '../types';
+import { ThumbnailStyle } from '../settings';
+import { drawThumbnail, loadThumbnailFont } from '../utils/thumbnailCompositor';
+import { ThumbnailStyleEditor } from './ThumbnailStyleEditor';
+
+interface ThumbnailCompositorProps {
+    image: Blob; // Text-free image.
+    text: ThumbnailText;
+    style: ThumbnailStyle;
+    isBusy: boolean;
+    onTextChange: (text: ThumbnailText) => void;
+    onStyleChange: (style: ThumbnailStyle) => void;
+    onResetStyle: () => void;
+    onApply: () => void;
+}
+
+const inputClass = "w-full bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm";
+
+// Live preview of the overlay; the stored thumbnail is only replaced on apply.
+export const ThumbnailCompositor: React.FC<ThumbnailCompositorProps> = ({ image, text, style, isBusy, onTextChange, onStyleChange, onResetStyle, onApply }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+
+    useEffect(() => {
+        let isActive = true;
+        let decoded: ImageBitmap | null = null;
+        createImageBitmap(image).then(result => {
+            decoded = result;
+            if (isActive) setBitmap(result);
+            else result.close();
+        }).catch(error => console.error("Thumbnail preview failed:", error));
+        return () => {
+            isActive = false;
+            setBitmap(null);
+            decoded?.close();
+        };
+    }, [image]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!bitmap || !canvas) return;
+        let isActive = true;
+        loadThumbnailFont(style).then(() => {
+            const ctx = canvas.getContext('2d');
+            if (!isActive || !ctx) return;
+            canvas.width = bitmap.width;
+            canvas.height = bitmap.height;
+            drawThumbnail(ctx, bitmap, text, style);
+        });
+        return () => { isActive = false; };
+    }, [bitmap, text, style]);
+
+    return (
+        <div className="space-y-2 text-left">
+            <canvas ref={canvasRef} className="rounded-md w-full h-auto" />
+            <input value={text.headline} onChange={(e) => onTextChange({ ...text, headline: e.target.value })} placeholder={t('thumbnailHeadline')} aria-label={t('thumbnailHeadline')} className={inputClass} />
+            <input value={text.subheadline} onChange={(e) => onTextChange({ ...text, subheadline: e.target.value })} placeholder={t('thumbnailSubheadline')} aria-label={t('thumbnailSubheadline')} className={inputClass} />
+            <details className="bg-gray-800 rounded-lg border border-gray-700">
+                <summary className="cursor-pointer p-2 text-xs font-semibold text-gray-300">{t('thumbnailStyleLabel')}</summary>
+                <div className="p-2 space-y-2">
+                    <ThumbnailStyleEditor style={style} onChange={onStyleChange} />
+                    <button onClick={onResetStyle} className="bg-gray-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-gray-500 transition">
+                        {t('thumbnailStyleReset')}
+                    </button>
+                </div>
+            </details>
+            <button onClick={onApply} disabled={isBusy} className="w-full bg-amber-600 text-white text-xs font-bold py-1.5 px-3 rounded-lg hover:bg-amber-700 transition disabled:bg-gray-600">
+                {t('thumbnailApplyText')}
+            </button>
+        </div>
+    );
+};
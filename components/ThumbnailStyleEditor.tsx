@@ -0,0 +1,56 @@
+import React, { useContext } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { THUMBNAIL_FONTS, ThumbnailStyle } from '../settings';
+
+interface ThumbnailStyleEditorProps {
+    style: ThumbnailStyle;
+    onChange: (style: ThumbnailStyle) => void;
+}
+
+const inputClass = "w-full bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm";
+
+const ColorField = ({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) => (
+    <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+        <span>{label}</span>
+        <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="h-7 w-10 bg-transparent border-0 cursor-pointer" />
+    </label>
+);
+
+export const ThumbnailStyleEditor: React.FC<ThumbnailStyleEditorProps> = ({ style, onChange }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const update = (patch: Partial<ThumbnailStyle>) => onChange({ ...style, ...patch });
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <label className="text-xs text-gray-400 space-y-1">
+                <span>{t('thumbnailStyleFont')}</span>
+                <select value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={inputClass}>
+                    {THUMBNAIL_FONTS.map(({ family }) => <option key={family} value={family} style={{ fontFamily: family }}>{family}</option>)}
+                </select>
+            </label>
+            <label className="text-xs text-gray-400 space-y-1">
+                <span>{t('thumbnailStylePosition')}</span>
+                <select value={style.position} onChange={(e) => update({ position: e.target.value as ThumbnailStyle['position'] })} className={inputClass}>
+                    <option value="top">{t('thumbnailStylePositionTop')}</option>
+                    <option value="center">{t('thumbnailStylePositionCenter')}</option>
+                    <option value="bottom">{t('thumbnailStylePositionBottom')}</option>
+                </select>
+            </label>
+            <ColorField label={t('thumbnailStyleHeadlineColor')} value={style.headlineColor} onChange={(headlineColor) => update({ headlineColor })} />
+            <ColorField label={t('thumbnailStyleSubheadlineColor')} value={style.subheadlineColor} onChange={(subheadlineColor) => update({ subheadlineColor })} />
+            <ColorField label={t('thumbnailStyleStrokeColor')} value={style.strokeColor} onChange={(strokeColor) => update({ strokeColor })} />
+            <label className="block text-xs text-gray-400 space-y-1">
+                <span className="flex justify-between"><span>{t('thumbnailStyleStrokeWidth')}</span><span className="font-mono text-gray-200">{Math.round(style.strokeWidth * 100)}%</span></span>
+                <input type="range" min={0} max={0.25} step={0.01} value={style.strokeWidth} onChange={(e) => update({ strokeWidth: Number(e.target.value) })} className="w-full accent-amber-500" />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-200">
+                <input type="checkbox" checked={style.shadow} onChange={(e) => update({ shadow: e.target.checked })} className="accent-amber-500" />
+                {t('thumbnailStyleShadow')}
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-200">
+                <input type="checkbox" checked={style.uppercase} onChange={(e) => update({ uppercase: e.target.checked })} className="accent-amber-500" />
+                {t('thumbnailStyleUppercase')}
+            </label>
+        </div>
+    );
+};
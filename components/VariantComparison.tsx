@@ -0,0 +1,72 @@
+import React, { useContext } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { ThumbnailTrigger, ThumbnailVariant, TitleVariant } from '../types';
+import { useBlobLoader } from '../hooks/useBlobLoader';
+import { variantLabel } from '../services/abVariants';
+import { SpinnerIcon } from './icons';
+
+interface VariantComparisonProps {
+    titles: TitleVariant[];
+    thumbnails: ThumbnailVariant[];
+    // Winner buttons are only shown when these are set.
+    onPickTitle?: (index: number) => void;
+    onPickThumbnail?: (index: number) => void;
+}
+
+const TRIGGER_KEYS: Record<ThumbnailTrigger, string> = {
+    sloth: 'variantTriggerSloth',
+    greed: 'variantTriggerGreed',
+    wrath: 'variantTriggerWrath',
+    pride: 'variantTriggerPride',
+    lust: 'variantTriggerLust',
+};
+
+const VariantImage = ({ blobKey }: { blobKey: string }) => {
+    const { url, isLoading } = useBlobLoader(blobKey);
+    if (isLoading) return <SpinnerIcon className="animate-spin h-4 w-4 text-white mx-auto" />;
+    return url ? <img src={url} alt="" className="rounded-md w-full object-contain max-h-40" /> : <p className="text-xs text-gray-500 text-center">N/A</p>;
+};
+
+// Side-by-side A/B columns: thumbnail i was derived from title i, but each kind has its own winner.
+export const VariantComparison: React.FC<VariantComparisonProps> = ({ titles, thumbnails, onPickTitle, onPickThumbnail }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+    const columns = Math.max(titles.length, thumbnails.length);
+    if (columns < 2) return null;
+
+    return (
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+            {Array.from({ length: columns }, (_, index) => {
+                const title = titles[index];
+                const thumbnail = thumbnails[index];
+                return (
+                    <div key={index} className="p-2 bg-gray-800 rounded-lg border border-gray-700 space-y-2 text-xs">
+                        <p className="font-bold text-gray-300">{t('variantLabel').replace('{label}', variantLabel(index))}</p>
+                        {thumbnail && (
+                            <div className={`space-y-1 p-1 rounded-md border ${thumbnail.isWinner ? 'border-green-500' : 'border-transparent'}`}>
+                                <VariantImage blobKey={thumbnail.imageBlobKey} />
+                                <div className="flex items-center justify-between gap-1">
+                                    <span className="text-purple-300">{t(TRIGGER_KEYS[thumbnail.trigger])}</span>
+                                    {thumbnail.isWinner ? (
+                                        <span className="text-green-400 font-semibold">{t('variantWinner')}</span>
+                                    ) : onPickThumbnail && (
+                                        <button onClick={() => onPickThumbnail(index)} className="bg-gray-600 px-2 py-0.5 rounded hover:bg-gray-500 transition">{t('variantPickWinner')}</button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        {title && (
+                            <div className={`space-y-1 p-1 rounded-md border ${title.isWinner ? 'border-green-500' : 'border-transparent'}`}>
+                                <p className="text-gray-100">{title.title}</p>
+                                {title.isWinner ? (
+                                    <span className="text-green-400 font-semibold">{t('variantWinner')}</span>
+                                ) : onPickTitle && (
+                                    <button onClick={() => onPickTitle(index)} className="bg-gray-600 px-2 py-0.5 rounded hover:bg-gray-500 transition">{t('variantPickWinner')}</button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,78 @@
+import React, { useContext } from 'react';
+import { LanguageContext, LanguageContextType } from '../context';
+import { VoiceCastMember } from '../types';
+import { supportedLanguages } from '../i18n';
+import { TTS_VOICES, defaultSettings } from '../settings';
+import { TrashIcon } from './icons';
+
+interface VoiceCastEditorProps {
+    cast: VoiceCastMember[];
+    onChange: (cast: VoiceCastMember[]) => void;
+}
+
+const inputClass = "w-full bg-gray-800 text-white p-2 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500 text-sm";
+
+export const VoiceCastEditor: React.FC<VoiceCastEditorProps> = ({ cast, onChange }) => {
+    const { t } = useContext(LanguageContext) as LanguageContextType;
+
+    const updateMember = (id: string, patch: Partial<VoiceCastMember>) => {
+        onChange(cast.map(member => member.id === id ? { ...member, ...patch } : member));
+    };
+
+    const addMember = () => {
+        onChange([...cast, { id: `cast_${Date.now()}`, name: '', persona: '', voice: TTS_VOICES[0], language: 'all' }]);
+    };
+
+    const removeMember = (id: string) => {
+        onChange(cast.filter(member => member.id !== id));
+    };
+
+    return (
+        <div className="space-y-3">
+            {cast.map(member => (
+                <div key={member.id} className="grid grid-cols-1 sm:grid-cols-12 gap-2 items-end p-2 bg-gray-800 rounded-lg border border-gray-700">
+                    <label className="sm:col-span-3 text-xs text-gray-400 space-y-1">
+                        <span>{t('voiceCastName')}</span>
+                        <input value={member.name} onChange={(e) => updateMember(member.id, { name: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="sm:col-span-4 text-xs text-gray-400 space-y-1">
+                        <span>{t('voiceCastPersona')}</span>
+                        <input value={member.persona} onChange={(e) => updateMember(member.id, { persona: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="sm:col-span-2 text-xs text-gray-400 space-y-1">
+                        <span>{t('voiceCastVoice')}</span>
+                        <select value={member.voice} onChange={(e) => updateMember(member.id, { voice: e.target.value })} className={inputClass}>
+                            {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                        </select>
+                    </label>
+                    <label className="sm:col-span-2 text-xs text-gray-400 space-y-1">
+                        <span>{t('voiceCastLanguage')}</span>
+                        <select value={member.language} onChange={(e) => updateMember(member.id, { language: e.target.value })} className={inputClass}>
+                            <option value="all">{t('voiceCastAllLanguages')}</option>
+                            {supportedLanguages.map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+                        </select>
+                    </label>
+                    <button onClick={() => removeMember(member.id)} title={t('voiceCastRemove')} aria-label={t('voiceCastRemove')} className="sm:col-span-1 flex justify-center p-2 text-gray-400 hover:text-red-400 transition">
+                        <TrashIcon />
+                    </button>
+                    <label className="sm:col-span-12 text-xs text-gray-400 space-y-1">
+                        <span>{t('voiceCastAliases')}</span>
+                        <input
+                            value={(member.aliases || []).join(',')}
+                            onChange={(e) => updateMember(member.id, { aliases: e.target.value ? e.target.value.split(',') : [] })}
+                            className={inputClass}
+                        />
+                    </label>
+                </div>
+            ))}
+            <div className="flex gap-2">
+                <button onClick={addMember} className="bg-teal-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-teal-700 transition">
+                    {t('voiceCastAdd')}
+                </button>
+                <button onClick={() => onChange(defaultSettings.voiceCast)} className="bg-gray-600 text-white text-xs font-bold py-1 px-3 rounded-lg hover:bg-gray-500 transition">
+                    {t('voiceCastReset')}
+                </button>
+            </div>
+        </div>
+    );
+};
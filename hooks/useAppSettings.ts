@@ -0,0 +1,13 @@
+import { usePersistentState } from './usePersistentState';
+import { AppSettings, SETTINGS_STORAGE_KEY, defaultSettings } from '../settings';
+
+export function useAppSettings(): [AppSettings, (patch: Partial<AppSettings>) => void] {
+    const [stored, setStored] = usePersistentState<AppSettings>(SETTINGS_STORAGE_KEY, defaultSettings);
+    const settings = { ...defaultSettings, ...stored };
+
+    const updateSettings = (patch: Partial<AppSettings>) => {
+        setStored(prev => ({ ...defaultSettings, ...prev, ...patch }));
+    };
+
+    return [settings, updateSettings];
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { idb } from './usePersistentState';
+
+// Object URL for a blob stored in IndexedDB, revoked when the key changes or on unmount.
+export const useBlobLoader = (key?: string) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!key) {
+            setUrl(null);
+            return;
+        }
+        let isActive = true;
+        let objectUrl: string | null = null;
+        
+        setIsLoading(true);
+        idb.get<Blob>(key).then(blob => {
+            if (isActive && blob) {
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            }
+        }).finally(() => {
+            if(isActive) setIsLoading(false)
+        });
+
+        return () => {
+            isActive = false;
+            if (objectUrl) {
+                URL.revokeObjectURL(objectUrl);
+            }
+        };
+    }, [key]);
+
+    return { url, isLoading };
+};
@@ -93,6 +93,7 @@ export const translations: Translations = {
     marketingSaveToHistory: "Save to Production History",
     marketingSaveDisabledTooltip: "Audio and Image must be generated before saving.",
     marketingKitSaved: "Kit Saved!",
+    marketingSavingKit: "Saving...",
     marketingErrorSaving: "Error saving kit.",
     marketingLongVideosTab: "Long Videos",
     marketingShortVideosTab: "Short Videos",
@@ -122,11 +123,55 @@ export const translations: Translations = {
     agentCadenceShort1: "1 / Day (Morning)",
     agentCadenceShort2: "2 / Day (Morning, Afternoon)",
     agentCadenceShort3: "3 / Day (Morning, Afternoon, Night)",
-    agentKeepTabOpen: "Note: The agent only runs when this browser tab is open.",
+    agentRunsInBackground: "Note: The agent runs in a background worker, so it keeps working while this tab is hidden or in the background. It stops when the app is closed.",
+    agentJobsTitle: "Job Queue",
+    agentJobsInfo: "Scheduled runs are queued here and survive a reload: unfinished jobs resume from their last completed step.",
+    agentJobsEmpty: "No jobs yet.",
+    agentJobsClearFinished: "Clear finished",
+    agentJobStatusQueued: "Queued",
+    agentJobStatusRunning: "Running",
+    agentJobStatusSucceeded: "Succeeded",
+    agentJobStatusFailed: "Failed",
+    agentJobStepText: "Text",
+    agentJobStepAudio: "Audio",
+    agentJobStepImage: "Image",
+    agentJobAttempts: "Attempt {attempt} of {max}",
+    agentJobNextAttempt: "Next attempt at {time}",
+    agentJobLog: "Log",
+    agentJobRetry: "Retry",
+    agentJobRemove: "Remove",
     historyFilterLanguage: "Filter by Language:",
     historyAll: "All",
     historySearchPlaceholder: "Search by title or theme...",
     historyDownloaded: "Downloaded",
+    historyPromptVersions: "Prompts:",
+    variantComparisonTitle: "A/B Variants",
+    variantLabel: "Variant {label}",
+    variantWinner: "Winner",
+    variantPickWinner: "Pick winner",
+    variantPickInHistory: "Variant A is used until you pick winners in the history.",
+    variantTriggerSloth: "Sloth",
+    variantTriggerGreed: "Greed",
+    variantTriggerWrath: "Wrath",
+    variantTriggerPride: "Pride",
+    variantTriggerLust: "Lust",
+    thumbnailHeadline: "Headline",
+    thumbnailSubheadline: "Subheadline",
+    thumbnailApplyText: "Apply text",
+    thumbnailComposeError: "Could not draw the text on the thumbnail.",
+    thumbnailStyleLabel: "Style",
+    thumbnailStyleReset: "Use channel style",
+    thumbnailStyleFont: "Font",
+    thumbnailStylePosition: "Position",
+    thumbnailStylePositionTop: "Top",
+    thumbnailStylePositionCenter: "Center",
+    thumbnailStylePositionBottom: "Bottom",
+    thumbnailStyleHeadlineColor: "Headline color",
+    thumbnailStyleSubheadlineColor: "Subheadline color",
+    thumbnailStyleStrokeColor: "Outline color",
+    thumbnailStyleStrokeWidth: "Outline",
+    thumbnailStyleShadow: "Drop shadow",
+    thumbnailStyleUppercase: "Uppercase",
     historyItemLanguage: "Language:",
     integrationsTitle: "Social Integrations",
     integrationsDescription: "Connect your accounts to enable automated publishing features (Simulation Mode).",
@@ -144,6 +189,135 @@ export const translations: Translations = {
     prayerDuration30min: "30 Minutes (High Density)",
     prayerDuration45min: "45 Minutes (High Density)",
     prayerDuration60min: "60 Minutes (High Density)",
+    navSettings: "Settings",
+    settingsTitle: "Settings",
+    settingsDescription: "Configure how the app generates scripts, audio and visuals.",
+    settingsProviderLabel: "Generation Provider",
+    settingsProviderGemini: "Google Gemini (live API)",
+    settingsProviderMock: "Offline Mock (no API key, no quota)",
+    settingsProviderInfo: "The mock provider returns canned scripts, test-tone audio and placeholder images so you can rehearse the full flow. The provider is chosen when the app starts.",
+    settingsReloadRequired: "Reload the app to apply the new provider.",
+    settingsReload: "Reload Now",
+    settingsTtsConcurrencyLabel: "Parallel audio blocks",
+    settingsTtsConcurrencyInfo: "How many speech blocks are synthesized at the same time. Higher is faster but hits rate limits sooner; the app backs off automatically when that happens.",
+    settingsVariantsLabel: "A/B Variants",
+    settingsVariantsOff: "Off",
+    settingsVariantsInfo: "Titles and thumbnails generated per kit. Each thumbnail uses a different Sexy Canvas trigger; pick the winners in the history.",
+    settingsVoiceCastLabel: "Voice cast",
+    settingsVoiceCastInfo: "Narrators used in the prayer dialogue and for text-to-speech. Members tagged with a language replace the 'All languages' cast for content in that language.",
+    voiceCastName: "Character name",
+    voiceCastPersona: "Persona",
+    voiceCastAliases: "Aliases (comma separated)",
+    voiceCastVoice: "Voice",
+    voiceCastLanguage: "Language",
+    voiceCastAllLanguages: "All languages",
+    voiceCastAdd: "Add narrator",
+    voiceCastRemove: "Remove narrator",
+    voiceCastReset: "Restore defaults",
+    settingsAmbienceLabel: "Ambience & music bed",
+    settingsAmbienceInfo: "A soft bed mixed under the narration, ducked while someone speaks. The dry narration is always kept as well.",
+    settingsThumbnailStyleLabel: "Thumbnail Text",
+    settingsThumbnailStyleInfo: "Thumbnails are generated without text; the headline and subheadline are drawn on top with this channel style.",
+    settingsPromptTemplatesLabel: "Prompt Templates",
+    settingsPromptTemplatesInfo: "The instructions sent to the text model. Saving an edit creates a new version and makes it active; every history item records the versions that produced it.",
+    promptTemplateSelect: "Template",
+    promptTemplateGuidedPrayer: "Guided prayer",
+    promptTemplateThumbnail: "Thumbnail prompt",
+    promptTemplateSeoDescription: "SEO description",
+    promptTemplateSocialCaption: "Social caption",
+    promptTemplateBuiltIn: "built-in",
+    promptTemplateActive: "Active",
+    promptTemplateActivate: "Activate",
+    promptTemplateSystem: "System instruction",
+    promptTemplateUser: "User prompt",
+    promptTemplateUnknownVariables: "Not filled in by the app: {names}",
+    promptTemplateNotePlaceholder: "What changed? (optional)",
+    promptTemplateSaveVersion: "Save as new version",
+    promptTemplatePreview: "Preview",
+    promptTemplateHidePreview: "Hide preview",
+    ambienceAutoMix: "Mix ambience automatically in agent runs",
+    ambienceSourceProcedural: "Built-in soft pad",
+    ambienceSourceCustom: "My own audio file",
+    ambienceCustomLoaded: "Custom file loaded",
+    ambienceCustomMissing: "No file uploaded yet.",
+    ambienceBedLevel: "Bed level",
+    ambienceDucking: "Ducking under speech",
+    ambienceFadeIn: "Fade in",
+    ambienceFadeOut: "Fade out",
+    ambienceMix: "Mix with ambience",
+    ambienceMixing: "Mixing...",
+    ambienceMixError: "Could not mix the ambience bed.",
+    ambienceMixedLabel: "With ambience",
+    settingsMasteringLabel: "Loudness & mastering",
+    settingsMasteringInfo: "Each TTS block is levelled, then the final narration and the ambience mix are normalized to the target loudness with a peak limiter.",
+    masteringEnabled: "Normalize loudness",
+    masteringTarget: "Target loudness",
+    masteringCeiling: "Peak ceiling",
+    loudnessSummary: "{lufs} LUFS · peak {peak} dBFS",
+    loudnessDetails: "Measured {input} LUFS before mastering, gain {gain} dB",
+    settingsAudioExportLabel: "Audio storage & export",
+    settingsAudioExportInfo: "Format used for narrations saved to history and for the ZIP download. The editor always works on WAV.",
+    audioExportWav: "WAV (uncompressed)",
+    audioExportMp3: "MP3 (compressed)",
+    audioExportBitrate: "MP3 bitrate",
+    audioExportKeepWav: "Also keep an uncompressed WAV copy",
+    videoRender: "Render video from audio + image",
+    videoRendering: "Rendering {percent}%",
+    videoRenderSubtitles: "Burn in subtitles",
+    videoRenderInfo: "Rendering runs in real time. Keep this tab open.",
+    videoRenderError: "Could not render the video.",
+    audiogramTitle: "Audiogram (9:16)",
+    audiogramWaveform: "Waveform",
+    audiogramSpectrum: "Spectrum",
+    audiogramFullLength: "Full length",
+    audiogramRender: "Render audiogram",
+    clipToShort: "Clip to short",
+    clipToShortRunning: "Clipping...",
+    clipToShortDone: "Short created from this prayer!",
+    clipToShortError: "Could not create the short.",
+    clipToShortUnavailable: "Only narrations generated with timing data can be clipped.",
+    clipBadge: "Clip",
+    clipOfParent: "Clipped from a long prayer at {time}",
+    scriptEditorChanged: "{count} edited turn(s) no longer match the narration.",
+    scriptEditorRevoiceChanged: "Re-voice edited turns",
+    scriptEditorChangedBadge: "Edited",
+    scriptEditorInstructionPlaceholder: "Instruction for the rewrite...",
+    scriptEditorRewrite: "Rewrite",
+    scriptEditorRevoice: "Re-voice",
+    scriptEditorPresetScripture: "More scripture",
+    scriptEditorPresetSofter: "Softer",
+    scriptEditorPresetShorter: "Shorter",
+    scriptEditorRewriteError: "Could not rewrite this turn. Please try again.",
+    scriptLintTitle: "{count} script issue(s) found before narration",
+    scriptLintClean: "Script check passed: ready for narration.",
+    scriptLintFixAll: "Apply all fixes",
+    scriptLintConfirm: "The script still has {count} error(s) that would be narrated. Generate audio anyway?",
+    scriptLintUnknownSpeaker: "Speaker \"{speaker}\" is not in the voice cast.",
+    scriptLintMetaText: "Contains text addressed to the user, not the listener.",
+    scriptLintMarkdown: "Contains markdown formatting.",
+    scriptLintLanguage: "Passage appears to be in {detected}.",
+    scriptLintDuplicate: "Nearly repeats section {section}, turn {turn}.",
+    scriptLintWordCount: "{words} words; about {expected} expected for {minutes} min.",
+    scriptLintFixReplaceSpeaker: "Assign to {speaker}",
+    scriptLintFixStripMeta: "Remove meta text",
+    scriptLintFixStripMarkdown: "Remove formatting",
+    scriptLintFixRemoveTurn: "Remove turn",
+    scriptLintFixTranslate: "Rewrite in target language",
+    prayerBlocksProgress: "Blocks completed: {done}/{total}",
+    prayerProjectedSoFar: "Projected so far: {projected} of {target}",
+    prayerResume: "Resume Generation",
+    prayerIncomplete: "Generation stopped at block {block}. Completed blocks are saved, so you can resume where it left off.",
+    audioDurationActual: "Audio length: {actual}",
+    audioDurationTarget: "Audio length: {actual} (requested {target})",
+    audioDurationProjectedActual: "Projected {projected} before narration, actual {actual}",
+    durationProjected: "Projected narration: {projected}",
+    durationProjectedTarget: "Projected narration: {projected} (target {target})",
+    audioDurationOff: "{percent}% off the requested duration. Consider extending or trimming the script.",
+    speechGapsTitle: "{count} audio block(s) failed and are missing from the narration.",
+    speechGapsDescription: "Each entry shows the block number and where it belongs in the audio. Re-synthesize to splice them back in place.",
+    speechGapsResynthesize: "Re-synthesize missing blocks",
+    speechGapsResynthesizing: "Re-synthesizing...",
+    unknownSpeakersConfirm: "These speakers are not in the voice cast: {speakers}. They will be read with the fallback voice ({voice}). Continue?",
   },
   pt: {
     appTitle: "Coach Pessoal de IA",
@@ -233,6 +407,7 @@ export const translations: Translations = {
     marketingSaveToHistory: "Salvar no Histórico de Produção",
     marketingSaveDisabledTooltip: "O Áudio e a Imagem devem ser gerados antes de salvar.",
     marketingKitSaved: "Kit salvo!",
+    marketingSavingKit: "Salvando...",
     marketingErrorSaving: "Erro ao salvar o kit.",
     marketingLongVideosTab: "Vídeos Longos",
     marketingShortVideosTab: "Vídeos Curtos",
@@ -262,11 +437,55 @@ export const translations: Translations = {
     agentCadenceShort1: "1 / Dia (Manhã)",
     agentCadenceShort2: "2 / Dia (Manhã, Tarde)",
     agentCadenceShort3: "3 / Dia (Manhã, Tarde, Noite)",
-    agentKeepTabOpen: "Nota: O agente só funciona quando esta aba do navegador está aberta.",
+    agentRunsInBackground: "Nota: O agente funciona num worker em segundo plano e continua trabalhando com esta aba oculta ou em segundo plano. Ele para quando o app é fechado.",
+    agentJobsTitle: "Fila de Tarefas",
+    agentJobsInfo: "As execuções agendadas entram nesta fila e sobrevivem a um recarregamento: tarefas inacabadas continuam da última etapa concluída.",
+    agentJobsEmpty: "Nenhuma tarefa ainda.",
+    agentJobsClearFinished: "Limpar concluídas",
+    agentJobStatusQueued: "Na fila",
+    agentJobStatusRunning: "Em execução",
+    agentJobStatusSucceeded: "Concluída",
+    agentJobStatusFailed: "Falhou",
+    agentJobStepText: "Texto",
+    agentJobStepAudio: "Áudio",
+    agentJobStepImage: "Imagem",
+    agentJobAttempts: "Tentativa {attempt} de {max}",
+    agentJobNextAttempt: "Próxima tentativa às {time}",
+    agentJobLog: "Registro",
+    agentJobRetry: "Tentar novamente",
+    agentJobRemove: "Remover",
     historyFilterLanguage: "Filtrar por Idioma:",
     historyAll: "Todos",
     historySearchPlaceholder: "Buscar por título ou tema...",
     historyDownloaded: "Baixado",
+    historyPromptVersions: "Prompts:",
+    variantComparisonTitle: "Variantes A/B",
+    variantLabel: "Variante {label}",
+    variantWinner: "Vencedora",
+    variantPickWinner: "Escolher",
+    variantPickInHistory: "A variante A é usada até você escolher as vencedoras no histórico.",
+    variantTriggerSloth: "Preguiça",
+    variantTriggerGreed: "Ganância",
+    variantTriggerWrath: "Ira",
+    variantTriggerPride: "Orgulho",
+    variantTriggerLust: "Luxúria",
+    thumbnailHeadline: "Título",
+    thumbnailSubheadline: "Subtítulo",
+    thumbnailApplyText: "Aplicar texto",
+    thumbnailComposeError: "Não foi possível desenhar o texto na thumbnail.",
+    thumbnailStyleLabel: "Estilo",
+    thumbnailStyleReset: "Usar estilo do canal",
+    thumbnailStyleFont: "Fonte",
+    thumbnailStylePosition: "Posição",
+    thumbnailStylePositionTop: "Topo",
+    thumbnailStylePositionCenter: "Centro",
+    thumbnailStylePositionBottom: "Base",
+    thumbnailStyleHeadlineColor: "Cor do título",
+    thumbnailStyleSubheadlineColor: "Cor do subtítulo",
+    thumbnailStyleStrokeColor: "Cor do contorno",
+    thumbnailStyleStrokeWidth: "Contorno",
+    thumbnailStyleShadow: "Sombra",
+    thumbnailStyleUppercase: "Maiúsculas",
     historyItemLanguage: "Idioma:",
     integrationsTitle: "Integrações Sociais",
     integrationsDescription: "Conecte suas contas para habilitar funcionalidades de publicação automatizada (Modo Simulação).",
@@ -284,6 +503,135 @@ export const translations: Translations = {
     prayerDuration30min: "30 Minutos (Alta Densidade)",
     prayerDuration45min: "45 Minutos (Alta Densidade)",
     prayerDuration60min: "60 Minutos (Alta Densidade)",
+    navSettings: "Configurações",
+    settingsTitle: "Configurações",
+    settingsDescription: "Configure como o app gera roteiros, áudios e visuais.",
+    settingsProviderLabel: "Provedor de Geração",
+    settingsProviderGemini: "Google Gemini (API real)",
+    settingsProviderMock: "Simulação Offline (sem chave de API, sem cota)",
+    settingsProviderInfo: "O provedor simulado retorna roteiros prontos, áudio de tom de teste e imagens de exemplo para você ensaiar todo o fluxo. O provedor é escolhido quando o app inicia.",
+    settingsReloadRequired: "Recarregue o app para aplicar o novo provedor.",
+    settingsReload: "Recarregar Agora",
+    settingsTtsConcurrencyLabel: "Blocos de áudio em paralelo",
+    settingsTtsConcurrencyInfo: "Quantos blocos de fala são sintetizados ao mesmo tempo. Valores maiores são mais rápidos, mas atingem o limite de uso antes; o app aguarda automaticamente quando isso acontece.",
+    settingsVariantsLabel: "Variantes A/B",
+    settingsVariantsOff: "Desligado",
+    settingsVariantsInfo: "Títulos e thumbnails gerados por kit. Cada thumbnail usa um gatilho Sexy Canvas diferente; escolha as vencedoras no histórico.",
+    settingsVoiceCastLabel: "Elenco de vozes",
+    settingsVoiceCastInfo: "Narradores usados no diálogo da oração e na conversão em fala. Membros marcados com um idioma substituem o elenco de 'Todos os idiomas' para conteúdo nesse idioma.",
+    voiceCastName: "Nome do personagem",
+    voiceCastPersona: "Persona",
+    voiceCastAliases: "Apelidos (separados por vírgula)",
+    voiceCastVoice: "Voz",
+    voiceCastLanguage: "Idioma",
+    voiceCastAllLanguages: "Todos os idiomas",
+    voiceCastAdd: "Adicionar narrador",
+    voiceCastRemove: "Remover narrador",
+    voiceCastReset: "Restaurar padrão",
+    settingsAmbienceLabel: "Ambiência e trilha de fundo",
+    settingsAmbienceInfo: "Uma trilha suave mixada sob a narração, abaixada enquanto alguém fala. A narração original também é mantida.",
+    settingsThumbnailStyleLabel: "Texto da Thumbnail",
+    settingsThumbnailStyleInfo: "As thumbnails são geradas sem texto; o título e o subtítulo são desenhados por cima com este estilo do canal.",
+    settingsPromptTemplatesLabel: "Modelos de Prompt",
+    settingsPromptTemplatesInfo: "As instruções enviadas ao modelo de texto. Salvar uma edição cria uma nova versão e a torna ativa; cada item do histórico registra as versões que o geraram.",
+    promptTemplateSelect: "Modelo",
+    promptTemplateGuidedPrayer: "Oração guiada",
+    promptTemplateThumbnail: "Prompt da thumbnail",
+    promptTemplateSeoDescription: "Descrição SEO",
+    promptTemplateSocialCaption: "Legenda social",
+    promptTemplateBuiltIn: "padrão",
+    promptTemplateActive: "Ativa",
+    promptTemplateActivate: "Ativar",
+    promptTemplateSystem: "Instrução de sistema",
+    promptTemplateUser: "Prompt do usuário",
+    promptTemplateUnknownVariables: "Não preenchidas pelo app: {names}",
+    promptTemplateNotePlaceholder: "O que mudou? (opcional)",
+    promptTemplateSaveVersion: "Salvar como nova versão",
+    promptTemplatePreview: "Pré-visualizar",
+    promptTemplateHidePreview: "Ocultar pré-visualização",
+    ambienceAutoMix: "Mixar ambiência automaticamente nas execuções do agente",
+    ambienceSourceProcedural: "Pad suave embutido",
+    ambienceSourceCustom: "Meu próprio arquivo de áudio",
+    ambienceCustomLoaded: "Arquivo personalizado carregado",
+    ambienceCustomMissing: "Nenhum arquivo enviado ainda.",
+    ambienceBedLevel: "Volume da trilha",
+    ambienceDucking: "Redução sob a fala",
+    ambienceFadeIn: "Fade in",
+    ambienceFadeOut: "Fade out",
+    ambienceMix: "Mixar com ambiência",
+    ambienceMixing: "Mixando...",
+    ambienceMixError: "Não foi possível mixar a ambiência.",
+    ambienceMixedLabel: "Com ambiência",
+    settingsMasteringLabel: "Loudness e masterização",
+    settingsMasteringInfo: "Cada bloco de TTS é nivelado e, depois, a narração final e a mixagem com ambiência são normalizadas para o loudness alvo com um limitador de pico.",
+    masteringEnabled: "Normalizar loudness",
+    masteringTarget: "Loudness alvo",
+    masteringCeiling: "Teto de pico",
+    loudnessSummary: "{lufs} LUFS · pico {peak} dBFS",
+    loudnessDetails: "Medido {input} LUFS antes da masterização, ganho {gain} dB",
+    settingsAudioExportLabel: "Armazenamento e exportação de áudio",
+    settingsAudioExportInfo: "Formato usado nas narrações salvas no histórico e no download em ZIP. O editor sempre trabalha com WAV.",
+    audioExportWav: "WAV (sem compressão)",
+    audioExportMp3: "MP3 (comprimido)",
+    audioExportBitrate: "Bitrate do MP3",
+    audioExportKeepWav: "Manter também uma cópia WAV sem compressão",
+    videoRender: "Renderizar vídeo com áudio + imagem",
+    videoRendering: "Renderizando {percent}%",
+    videoRenderSubtitles: "Gravar legendas no vídeo",
+    videoRenderInfo: "A renderização acontece em tempo real. Mantenha esta aba aberta.",
+    videoRenderError: "Não foi possível renderizar o vídeo.",
+    audiogramTitle: "Audiograma (9:16)",
+    audiogramWaveform: "Forma de onda",
+    audiogramSpectrum: "Espectro",
+    audiogramFullLength: "Duração completa",
+    audiogramRender: "Renderizar audiograma",
+    clipToShort: "Cortar para short",
+    clipToShortRunning: "Cortando...",
+    clipToShortDone: "Short criado a partir desta oração!",
+    clipToShortError: "Não foi possível criar o short.",
+    clipToShortUnavailable: "Só narrações geradas com dados de tempo podem ser cortadas.",
+    clipBadge: "Corte",
+    clipOfParent: "Cortado de uma oração longa em {time}",
+    scriptEditorChanged: "{count} fala(s) editada(s) não correspondem mais à narração.",
+    scriptEditorRevoiceChanged: "Regravar falas editadas",
+    scriptEditorChangedBadge: "Editada",
+    scriptEditorInstructionPlaceholder: "Instrução para reescrever...",
+    scriptEditorRewrite: "Reescrever",
+    scriptEditorRevoice: "Regravar voz",
+    scriptEditorPresetScripture: "Mais escritura",
+    scriptEditorPresetSofter: "Mais suave",
+    scriptEditorPresetShorter: "Mais curta",
+    scriptEditorRewriteError: "Não foi possível reescrever esta fala. Tente novamente.",
+    scriptLintTitle: "{count} problema(s) encontrado(s) no roteiro antes da narração",
+    scriptLintClean: "Roteiro verificado: pronto para a narração.",
+    scriptLintFixAll: "Aplicar todas as correções",
+    scriptLintConfirm: "O roteiro ainda tem {count} erro(s) que seriam narrados. Gerar o áudio mesmo assim?",
+    scriptLintUnknownSpeaker: "O locutor \"{speaker}\" não está no elenco de vozes.",
+    scriptLintMetaText: "Contém texto dirigido ao usuário, não ao ouvinte.",
+    scriptLintMarkdown: "Contém formatação markdown.",
+    scriptLintLanguage: "O trecho parece estar em {detected}.",
+    scriptLintDuplicate: "Quase repete a seção {section}, fala {turn}.",
+    scriptLintWordCount: "{words} palavras; cerca de {expected} esperadas para {minutes} min.",
+    scriptLintFixReplaceSpeaker: "Atribuir a {speaker}",
+    scriptLintFixStripMeta: "Remover metatexto",
+    scriptLintFixStripMarkdown: "Remover formatação",
+    scriptLintFixRemoveTurn: "Remover fala",
+    scriptLintFixTranslate: "Reescrever no idioma certo",
+    prayerBlocksProgress: "Blocos concluídos: {done}/{total}",
+    prayerProjectedSoFar: "Previsto até agora: {projected} de {target}",
+    prayerResume: "Retomar Geração",
+    prayerIncomplete: "A geração parou no bloco {block}. Os blocos concluídos foram salvos, então você pode retomar de onde parou.",
+    audioDurationActual: "Duração do áudio: {actual}",
+    audioDurationTarget: "Duração do áudio: {actual} (solicitado {target})",
+    audioDurationProjectedActual: "Previsto {projected} antes da narração, real {actual}",
+    durationProjected: "Narração prevista: {projected}",
+    durationProjectedTarget: "Narração prevista: {projected} (meta {target})",
+    audioDurationOff: "{percent}% fora da duração solicitada. Considere estender ou encurtar o roteiro.",
+    speechGapsTitle: "{count} bloco(s) de áudio falharam e estão faltando na narração.",
+    speechGapsDescription: "Cada item mostra o número do bloco e onde ele entra no áudio. Sintetize novamente para encaixá-los no lugar.",
+    speechGapsResynthesize: "Sintetizar blocos faltantes",
+    speechGapsResynthesizing: "Sintetizando novamente...",
+    unknownSpeakersConfirm: "Estes falantes não estão no elenco de vozes: {speakers}. Eles serão lidos com a voz padrão ({voice}). Continuar?",
   },
   es: {
     appTitle: "Entrenador Personal de IA",
@@ -373,6 +721,7 @@ export const translations: Translations = {
     marketingSaveToHistory: "Guardar en el Historial de Producción",
     marketingSaveDisabledTooltip: "El Audio y la Imagen deben generarse antes de guardar.",
     marketingKitSaved: "¡Kit guardado!",
+    marketingSavingKit: "Guardando...",
     marketingErrorSaving: "Error al guardar el kit.",
     marketingLongVideosTab: "Vídeos Largos",
     marketingShortVideosTab: "Vídeos Cortos",
@@ -402,11 +751,55 @@ export const translations: Translations = {
     agentCadenceShort1: "1 / Día (Mañana)",
     agentCadenceShort2: "2 / Día (Mañana, Tarde)",
     agentCadenceShort3: "3 / Día (Mañana, Tarde, Noche)",
-    agentKeepTabOpen: "Nota: El agente solo funciona cuando esta pestaña del navegador está abierta.",
+    agentRunsInBackground: "Nota: El agente funciona en un worker en segundo plano y sigue trabajando con esta pestaña oculta o en segundo plano. Se detiene cuando se cierra la app.",
+    agentJobsTitle: "Cola de Tareas",
+    agentJobsInfo: "Las ejecuciones programadas entran en esta cola y sobreviven a una recarga: las tareas sin terminar continúan desde el último paso completado.",
+    agentJobsEmpty: "Aún no hay tareas.",
+    agentJobsClearFinished: "Limpiar terminadas",
+    agentJobStatusQueued: "En cola",
+    agentJobStatusRunning: "En ejecución",
+    agentJobStatusSucceeded: "Completada",
+    agentJobStatusFailed: "Falló",
+    agentJobStepText: "Texto",
+    agentJobStepAudio: "Audio",
+    agentJobStepImage: "Imagen",
+    agentJobAttempts: "Intento {attempt} de {max}",
+    agentJobNextAttempt: "Próximo intento a las {time}",
+    agentJobLog: "Registro",
+    agentJobRetry: "Reintentar",
+    agentJobRemove: "Eliminar",
     historyFilterLanguage: "Filtrar por Idioma:",
     historyAll: "Todos",
     historySearchPlaceholder: "Buscar por título o tema...",
     historyDownloaded: "Descargado",
+    historyPromptVersions: "Prompts:",
+    variantComparisonTitle: "Variantes A/B",
+    variantLabel: "Variante {label}",
+    variantWinner: "Ganadora",
+    variantPickWinner: "Elegir",
+    variantPickInHistory: "La variante A se usa hasta que elijas las ganadoras en el historial.",
+    variantTriggerSloth: "Pereza",
+    variantTriggerGreed: "Avaricia",
+    variantTriggerWrath: "Ira",
+    variantTriggerPride: "Orgullo",
+    variantTriggerLust: "Lujuria",
+    thumbnailHeadline: "Titular",
+    thumbnailSubheadline: "Subtítulo",
+    thumbnailApplyText: "Aplicar texto",
+    thumbnailComposeError: "No se pudo dibujar el texto en la miniatura.",
+    thumbnailStyleLabel: "Estilo",
+    thumbnailStyleReset: "Usar estilo del canal",
+    thumbnailStyleFont: "Fuente",
+    thumbnailStylePosition: "Posición",
+    thumbnailStylePositionTop: "Arriba",
+    thumbnailStylePositionCenter: "Centro",
+    thumbnailStylePositionBottom: "Abajo",
+    thumbnailStyleHeadlineColor: "Color del titular",
+    thumbnailStyleSubheadlineColor: "Color del subtítulo",
+    thumbnailStyleStrokeColor: "Color del contorno",
+    thumbnailStyleStrokeWidth: "Contorno",
+    thumbnailStyleShadow: "Sombra",
+    thumbnailStyleUppercase: "Mayúsculas",
     historyItemLanguage: "Idioma:",
     integrationsTitle: "Integraciones Sociales",
     integrationsDescription: "Conecta tus cuentas para habilitar funciones de publicación automatizada (Modo Simulación).",
@@ -424,6 +817,135 @@ export const translations: Translations = {
     prayerDuration30min: "30 Minutos (Alta Densidad)",
     prayerDuration45min: "45 Minutos (Alta Densidade)",
     prayerDuration60min: "60 Minutos (Alta Densidade)",
+    navSettings: "Configuración",
+    settingsTitle: "Configuración",
+    settingsDescription: "Configura cómo la app genera guiones, audios y visuales.",
+    settingsProviderLabel: "Proveedor de Generación",
+    settingsProviderGemini: "Google Gemini (API real)",
+    settingsProviderMock: "Simulación Offline (sin clave de API, sin cuota)",
+    settingsProviderInfo: "El proveedor simulado devuelve guiones predefinidos, audio de tono de prueba e imágenes de ejemplo para ensayar todo el flujo. El proveedor se elige cuando la app se inicia.",
+    settingsReloadRequired: "Recarga la app para aplicar el nuevo proveedor.",
+    settingsReload: "Recargar Ahora",
+    settingsTtsConcurrencyLabel: "Bloques de audio en paralelo",
+    settingsTtsConcurrencyInfo: "Cuántos bloques de voz se sintetizan al mismo tiempo. Valores más altos son más rápidos, pero alcanzan el límite de uso antes; la app espera automáticamente cuando eso ocurre.",
+    settingsVariantsLabel: "Variantes A/B",
+    settingsVariantsOff: "Desactivado",
+    settingsVariantsInfo: "Títulos y miniaturas generados por kit. Cada miniatura usa un disparador Sexy Canvas distinto; elige las ganadoras en el historial.",
+    settingsVoiceCastLabel: "Elenco de voces",
+    settingsVoiceCastInfo: "Narradores usados en el diálogo de la oración y en la conversión a voz. Los miembros marcados con un idioma reemplazan al elenco de 'Todos los idiomas' para contenido en ese idioma.",
+    voiceCastName: "Nombre del personaje",
+    voiceCastPersona: "Persona",
+    voiceCastAliases: "Alias (separados por comas)",
+    voiceCastVoice: "Voz",
+    voiceCastLanguage: "Idioma",
+    voiceCastAllLanguages: "Todos los idiomas",
+    voiceCastAdd: "Añadir narrador",
+    voiceCastRemove: "Quitar narrador",
+    voiceCastReset: "Restaurar valores predeterminados",
+    settingsAmbienceLabel: "Ambiente y música de fondo",
+    settingsAmbienceInfo: "Una base suave mezclada bajo la narración, atenuada mientras alguien habla. La narración original también se conserva.",
+    settingsThumbnailStyleLabel: "Texto de la Miniatura",
+    settingsThumbnailStyleInfo: "Las miniaturas se generan sin texto; el titular y el subtítulo se dibujan encima con este estilo del canal.",
+    settingsPromptTemplatesLabel: "Plantillas de Prompt",
+    settingsPromptTemplatesInfo: "Las instrucciones enviadas al modelo de texto. Guardar una edición crea una nueva versión y la activa; cada elemento del historial registra las versiones que lo generaron.",
+    promptTemplateSelect: "Plantilla",
+    promptTemplateGuidedPrayer: "Oración guiada",
+    promptTemplateThumbnail: "Prompt de miniatura",
+    promptTemplateSeoDescription: "Descripción SEO",
+    promptTemplateSocialCaption: "Texto para redes",
+    promptTemplateBuiltIn: "predeterminada",
+    promptTemplateActive: "Activa",
+    promptTemplateActivate: "Activar",
+    promptTemplateSystem: "Instrucción de sistema",
+    promptTemplateUser: "Prompt del usuario",
+    promptTemplateUnknownVariables: "No las completa la app: {names}",
+    promptTemplateNotePlaceholder: "¿Qué cambió? (opcional)",
+    promptTemplateSaveVersion: "Guardar como nueva versión",
+    promptTemplatePreview: "Vista previa",
+    promptTemplateHidePreview: "Ocultar vista previa",
+    ambienceAutoMix: "Mezclar ambiente automáticamente en las ejecuciones del agente",
+    ambienceSourceProcedural: "Pad suave integrado",
+    ambienceSourceCustom: "Mi propio archivo de audio",
+    ambienceCustomLoaded: "Archivo personalizado cargado",
+    ambienceCustomMissing: "Aún no se ha subido ningún archivo.",
+    ambienceBedLevel: "Nivel de la base",
+    ambienceDucking: "Atenuación bajo la voz",
+    ambienceFadeIn: "Fade in",
+    ambienceFadeOut: "Fade out",
+    ambienceMix: "Mezclar con ambiente",
+    ambienceMixing: "Mezclando...",
+    ambienceMixError: "No se pudo mezclar el ambiente.",
+    ambienceMixedLabel: "Con ambiente",
+    settingsMasteringLabel: "Sonoridad y masterización",
+    settingsMasteringInfo: "Cada bloque de TTS se nivela y luego la narración final y la mezcla con ambiente se normalizan a la sonoridad objetivo con un limitador de picos.",
+    masteringEnabled: "Normalizar sonoridad",
+    masteringTarget: "Sonoridad objetivo",
+    masteringCeiling: "Techo de pico",
+    loudnessSummary: "{lufs} LUFS · pico {peak} dBFS",
+    loudnessDetails: "Medido {input} LUFS antes de masterizar, ganancia {gain} dB",
+    settingsAudioExportLabel: "Almacenamiento y exportación de audio",
+    settingsAudioExportInfo: "Formato usado para las narraciones guardadas en el historial y para la descarga en ZIP. El editor siempre trabaja con WAV.",
+    audioExportWav: "WAV (sin comprimir)",
+    audioExportMp3: "MP3 (comprimido)",
+    audioExportBitrate: "Bitrate del MP3",
+    audioExportKeepWav: "Conservar también una copia WAV sin comprimir",
+    videoRender: "Renderizar video con audio + imagen",
+    videoRendering: "Renderizando {percent}%",
+    videoRenderSubtitles: "Incrustar subtítulos",
+    videoRenderInfo: "El renderizado ocurre en tiempo real. Mantén esta pestaña abierta.",
+    videoRenderError: "No se pudo renderizar el video.",
+    audiogramTitle: "Audiograma (9:16)",
+    audiogramWaveform: "Forma de onda",
+    audiogramSpectrum: "Espectro",
+    audiogramFullLength: "Duración completa",
+    audiogramRender: "Renderizar audiograma",
+    clipToShort: "Recortar a short",
+    clipToShortRunning: "Recortando...",
+    clipToShortDone: "¡Short creado a partir de esta oración!",
+    clipToShortError: "No se pudo crear el short.",
+    clipToShortUnavailable: "Solo se pueden recortar narraciones generadas con datos de tiempo.",
+    clipBadge: "Recorte",
+    clipOfParent: "Recortado de una oración larga en {time}",
+    scriptEditorChanged: "{count} intervención(es) editada(s) ya no coinciden con la narración.",
+    scriptEditorRevoiceChanged: "Volver a grabar las editadas",
+    scriptEditorChangedBadge: "Editada",
+    scriptEditorInstructionPlaceholder: "Instrucción para reescribir...",
+    scriptEditorRewrite: "Reescribir",
+    scriptEditorRevoice: "Volver a grabar",
+    scriptEditorPresetScripture: "Más escritura",
+    scriptEditorPresetSofter: "Más suave",
+    scriptEditorPresetShorter: "Más corta",
+    scriptEditorRewriteError: "No se pudo reescribir esta intervención. Inténtalo de nuevo.",
+    scriptLintTitle: "{count} problema(s) encontrado(s) en el guion antes de la narración",
+    scriptLintClean: "Guion verificado: listo para la narración.",
+    scriptLintFixAll: "Aplicar todas las correcciones",
+    scriptLintConfirm: "El guion aún tiene {count} error(es) que se narrarían. ¿Generar el audio de todos modos?",
+    scriptLintUnknownSpeaker: "El locutor \"{speaker}\" no está en el elenco de voces.",
+    scriptLintMetaText: "Contiene texto dirigido al usuario, no al oyente.",
+    scriptLintMarkdown: "Contiene formato markdown.",
+    scriptLintLanguage: "El pasaje parece estar en {detected}.",
+    scriptLintDuplicate: "Casi repite la sección {section}, intervención {turn}.",
+    scriptLintWordCount: "{words} palabras; unas {expected} esperadas para {minutes} min.",
+    scriptLintFixReplaceSpeaker: "Asignar a {speaker}",
+    scriptLintFixStripMeta: "Quitar metatexto",
+    scriptLintFixStripMarkdown: "Quitar formato",
+    scriptLintFixRemoveTurn: "Quitar intervención",
+    scriptLintFixTranslate: "Reescribir en el idioma correcto",
+    prayerBlocksProgress: "Bloques completados: {done}/{total}",
+    prayerProjectedSoFar: "Previsto hasta ahora: {projected} de {target}",
+    prayerResume: "Reanudar Generación",
+    prayerIncomplete: "La generación se detuvo en el bloque {block}. Los bloques completados están guardados, así que puedes reanudar donde se quedó.",
+    audioDurationActual: "Duración del audio: {actual}",
+    audioDurationTarget: "Duración del audio: {actual} (solicitado {target})",
+    audioDurationProjectedActual: "Previsto {projected} antes de la narración, real {actual}",
+    durationProjected: "Narración prevista: {projected}",
+    durationProjectedTarget: "Narración prevista: {projected} (objetivo {target})",
+    audioDurationOff: "{percent}% fuera de la duración solicitada. Considera alargar o recortar el guion.",
+    speechGapsTitle: "{count} bloque(s) de audio fallaron y faltan en la narración.",
+    speechGapsDescription: "Cada elemento muestra el número del bloque y dónde va en el audio. Vuelve a sintetizarlos para insertarlos en su lugar.",
+    speechGapsResynthesize: "Sintetizar bloques faltantes",
+    speechGapsResynthesizing: "Sintetizando de nuevo...",
+    unknownSpeakersConfirm: "Estos hablantes no están en el elenco de voces: {speakers}. Se leerán con la voz de respaldo ({voice}). ¿Continuar?",
   },
 };
 
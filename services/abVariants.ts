@@ -0,0 +1,62 @@
+import { AspectRatio, MarketingHistoryItem, ThumbnailVariant } from '../types';
+import { idb } from '../hooks/usePersistentState';
+import { THUMBNAIL_TRIGGERS } from './geminiService';
+import { generateComposedThumbnail } from './thumbnails';
+
+// Variant letters shown in the comparison grid.
+export const variantLabel = (index: number) => String.fromCharCode(65 + index);
+
+// One thumbnail per title, each built on a different Sexy Canvas trigger. Images are stored
+// under `${keyPrefix}_${index}`.
+export const generateThumbnailVariants = async (
+    titles: string[],
+    description: string,
+    prayer: string,
+    language: string,
+    aspectRatio: AspectRatio,
+    keyPrefix: string,
+): Promise<ThumbnailVariant[]> => {
+    const variants: ThumbnailVariant[] = [];
+    try {
+        for (const [index, title] of titles.entries()) {
+            const trigger = THUMBNAIL_TRIGGERS[index % THUMBNAIL_TRIGGERS.length];
+            const { design, blob } = await generateComposedThumbnail(title, description, prayer, language, aspectRatio, trigger);
+            const imageBlobKey = `${keyPrefix}_${index}`;
+            await idb.set(imageBlobKey, blob);
+            variants.push({ trigger, title, prompt: design.imagePrompt, text: { headline: design.headline, subheadline: design.subheadline }, imageBlobKey });
+        }
+    } catch (e) {
+        // No item will reference the images stored so far, so they would never be deleted
+        await Promise.all(variants.map(variant => idb.del(variant.imageBlobKey).catch(err => console.error("Failed to delete an orphaned thumbnail", err))));
+        throw e;
+    }
+    return variants;
+};
+
+// Marks a title as the winner and makes it the title of the post.
+export const pickTitleWinner = (item: MarketingHistoryItem, index: number): MarketingHistoryItem => {
+    const variants = item.titleVariants;
+    if (!variants?.[index]) return item;
+    const title = variants[index].title;
+    return {
+        ...item,
+        titleVariants: variants.map((variant, i) => ({ ...variant, isWinner: i === index })),
+        longPost: item.longPost ? { ...item.longPost, title } : null,
+        socialPost: item.socialPost ? { ...item.socialPost, title } : null,
+    };
+};
+
+// Marks a thumbnail as the winner and makes it the image used for videos and downloads.
+export const pickThumbnailWinner = (item: MarketingHistoryItem, index: number): MarketingHistoryItem => {
+    const variants = item.thumbnailVariants;
+    if (!variants?.[index]) return item;
+    return {
+        ...item,
+        thumbnailVariants: variants.map((variant, i) => ({ ...variant, isWinner: i === index })),
+        imageBlobKey: variants[index].imageBlobKey,
+    };
+};
+
+// Every image key of an item, variants included, for deletion.
+export const itemImageKeys = (item: MarketingHistoryItem): string[] =>
+    Array.from(new Set([item.imageBlobKey, ...(item.thumbnailVariants || []).map(variant => variant.imageBlobKey)].filter((key): key is string => !!key)));
@@ -0,0 +1,271 @@
+import { AgentJob, AgentThumbnailDraft, AspectRatio, MarketingHistoryItem, SocialMediaPost, ThumbnailVariant, YouTubeLongPost } from '../types';
+import { idb } from '../hooks/usePersistentState';
+import {
+    castToSpeakerConfig,
+    clearPrayerCheckpoint,
+    findUnknownSpeakers,
+    generateGuidedPrayer,
+    generateShortPrayer,
+    generateSocialMediaPost,
+    generateSpeech,
+    generateTitleVariants,
+    generateYouTubeLongPost,
+    getTrendingTopic,
+    SpeechResult,
+    THUMBNAIL_TRIGGERS,
+} from './geminiService';
+import { activePromptVersions } from './promptTemplates';
+import { generateThumbnailDraft } from './thumbnails';
+import {
+    failAgentJob,
+    findAgentJob,
+    loadAgentJobs,
+    nextDueJob,
+    setAgentJobStep,
+    updateAgentJob,
+} from './agentQueue';
+import { castForLanguage, loadSettings } from '../settings';
+import { SAMPLE_RATE, concatPcmChunks, createWavFile, masterWav } from '../utils/audio';
+import { scriptToText } from '../utils/prayerScript';
+import { mixWithConfiguredAmbience } from '../utils/mixer';
+import { encodeAudio } from '../utils/audioEncoder';
+import { createSubtitleFiles } from '../utils/subtitles';
+import { withChapterTimes } from '../utils/chapters';
+import { composeThumbnail } from '../utils/thumbnailCompositor';
+
+// Runs agent jobs step by step: text, then narration and thumbnail in parallel, then the kit is
+// saved to history. Each step stores its output on the job before it is marked done. The steps
+// run in the agent worker; finalizeAgentJob runs on the page because it needs a document.
+
+const narrationKey = (job: AgentJob) => `agent_job_audio_${job.id}`;
+const checkpointKey = (job: AgentJob) => `agent_${job.id}`;
+const baseImageKey = (job: AgentJob, index: number) => `agent_job_image_${job.id}_${index}`;
+// A/B variants get one image per title, a single thumbnail the plain history key.
+const imageKey = (job: AgentJob, index: number, count: number) => count > 1 ? `history_image_${job.id}_${index}` : `history_image_${job.id}`;
+
+const speakerConfigFor = (job: AgentJob) => job.kind === 'long'
+    ? castToSpeakerConfig(castForLanguage(loadSettings().voiceCast, job.language))
+    : undefined;
+
+// Long videos of a batch share one topic (picked in Portuguese), so the first job to need it stores it on all of them.
+const resolveTopic = async (job: AgentJob): Promise<AgentJob> => {
+    if (job.theme) return job;
+    const siblings = job.batchId ? (await loadAgentJobs()).filter(other => other.batchId === job.batchId) : [];
+    const shared = siblings.find(other => other.theme);
+    const topic = shared
+        ? { theme: shared.theme!, subthemes: shared.subthemes || [] }
+        : await getTrendingTopic(job.kind === 'long' ? 'pt' : job.language, job.kind);
+    for (const sibling of siblings) {
+        if (sibling.id !== job.id && !sibling.theme) await updateAgentJob(sibling.id, topic);
+    }
+    return updateAgentJob(job.id, topic, `Topic: ${topic.theme}`);
+};
+
+const runTextStep = async (job: AgentJob): Promise<AgentJob> => {
+    job = await resolveTopic(job);
+    job = await setAgentJobStep(job.id, 'text', 'running', 'Writing prayer and post');
+    const theme = job.theme!;
+    const subthemes = job.subthemes || [];
+    const promptVersions = activePromptVersions(['guidedPrayer', job.kind === 'long' ? 'seoDescription' : 'socialCaption', 'thumbnail']);
+
+    // Long prayers continue from their checkpoint when a previous attempt stopped midway
+    const [script, post] = job.kind === 'long'
+        ? await Promise.all([
+            generateGuidedPrayer(theme, job.language, job.duration, { subthemes, checkpointKey: checkpointKey(job), resume: true }),
+            generateYouTubeLongPost(theme, subthemes, job.language, job.duration),
+        ])
+        : await generateShortPrayer(theme, job.language).then(async script => [script, await generateSocialMediaPost(scriptToText(script), job.language)] as const);
+    if (!scriptToText(script) || !post) throw new Error(`Failed to generate text assets for ${job.language}.`);
+
+    // Pre-flight: unattended jobs fail instead of voicing unknown speakers with the fallback voice
+    const unknownSpeakers = findUnknownSpeakers(script, speakerConfigFor(job));
+    if (unknownSpeakers.length > 0) throw new Error(`Speakers not in the voice cast: ${unknownSpeakers.join(', ')}.`);
+
+    const titles = await generateTitleVariants(post.title, theme, job.language, loadSettings().variantCount);
+    return setAgentJobStep(job.id, 'text', 'done', 'Text ready', { script, post, titles, promptVersions });
+};
+
+const runAudioStep = async (job: AgentJob): Promise<void> => {
+    await setAgentJobStep(job.id, 'audio', 'running', 'Narrating');
+    const pcmChunks: Uint8Array[] = [];
+    const result = await new Promise<SpeechResult>((resolve, reject) => {
+        // A throw before onError is called must still reach the queue's retry logic
+        generateSpeech(job.script!, speakerConfigFor(job), {
+            onChunk: (pcmData) => pcmChunks.push(pcmData),
+            onProgress: () => {},
+            onComplete: resolve,
+            onError: (errorMsg) => reject(new Error(errorMsg)),
+        }).catch(reject);
+    });
+    // Unattended jobs must not publish narration with missing passages
+    if (result.gaps.length > 0) throw new Error(`Audio generation skipped ${result.gaps.length} block(s).`);
+    const pcm = concatPcmChunks(pcmChunks);
+    if (pcm.length === 0) throw new Error("Audio generation resulted in empty audio.");
+    await idb.set(narrationKey(job), createWavFile(pcm, 1, SAMPLE_RATE, 16));
+    await setAgentJobStep(job.id, 'audio', 'done', 'Narration ready', { timings: result.timings });
+};
+
+// Designs and text-free images, one per title; each A/B variant gets its own trigger.
+const runImageStep = async (job: AgentJob): Promise<void> => {
+    await setAgentJobStep(job.id, 'image', 'running', 'Creating thumbnail');
+    const post = job.post!;
+    const titles = job.titles?.length ? job.titles : [post.title];
+    const prayer = scriptToText(job.script!);
+    const aspectRatio: AspectRatio = job.kind === 'short' ? '9:16' : '16:9';
+    const thumbnails: AgentThumbnailDraft[] = [];
+    for (const [index, title] of titles.entries()) {
+        const trigger = titles.length > 1 ? THUMBNAIL_TRIGGERS[index % THUMBNAIL_TRIGGERS.length] : undefined;
+        const { design, base } = await generateThumbnailDraft(title, post.description, prayer, job.language, aspectRatio, trigger);
+        await idb.set(baseImageKey(job, index), base);
+        thumbnails.push({ title, trigger, design, baseBlobKey: baseImageKey(job, index) });
+    }
+    await setAgentJobStep(job.id, 'image', 'done', 'Thumbnail ready', { thumbnails });
+};
+
+// Draws the text on every thumbnail with the channel style and stores the results.
+const composeThumbnails = async (job: AgentJob): Promise<{ imageBlobKey: string; variants?: ThumbnailVariant[] }> => {
+    const drafts = job.thumbnails || [];
+    if (drafts.length === 0) throw new Error("Thumbnail images are missing.");
+    const style = loadSettings().thumbnailStyle;
+    const variants: ThumbnailVariant[] = [];
+    for (const [index, draft] of drafts.entries()) {
+        const base = await idb.get<Blob>(draft.baseBlobKey);
+        if (!base) throw new Error("Stored thumbnail image is missing.");
+        const imageBlobKey = imageKey(job, index, drafts.length);
+        await idb.set(imageBlobKey, await composeThumbnail(base, draft.design, style));
+        variants.push({
+            trigger: draft.trigger || THUMBNAIL_TRIGGERS[index % THUMBNAIL_TRIGGERS.length],
+            title: draft.title,
+            prompt: draft.design.imagePrompt,
+            text: { headline: draft.design.headline, subheadline: draft.design.subheadline },
+            imageBlobKey,
+        });
+    }
+    return { imageBlobKey: variants[0].imageBlobKey, variants: variants.length > 1 ? variants : undefined };
+};
+
+// Page side of a job: thumbnail text, mastering, ambience and encoding, then the history item.
+// Safe to repeat; the worker asks again if a previous attempt failed or was interrupted.
+export const finalizeAgentJob = async (job: AgentJob): Promise<MarketingHistoryItem> => {
+    const rawAudioBlob = await idb.get<Blob>(narrationKey(job));
+    if (!rawAudioBlob) throw new Error("Stored narration is missing.");
+    const script = job.script!;
+    const timings = job.timings || [];
+    const post = job.kind === 'long' ? withChapterTimes(job.post as YouTubeLongPost, script, job.subthemes || [], timings) : job.post!;
+
+    const { ambience, mastering, audioExport } = loadSettings();
+    const mastered = mastering.enabled ? await masterWav(rawAudioBlob, mastering.targetLufs, mastering.ceilingDb) : null;
+    const audioBlob = mastered ? mastered.blob : rawAudioBlob;
+    const mixed = ambience.enabled ? await mixWithConfiguredAmbience(audioBlob, ambience, mastering) : null;
+    const mixedAudioBlob = mixed?.blob;
+
+    const image = await composeThumbnails(job);
+    const id = job.id;
+    const audioBlobKey = `history_audio_${id}`;
+    const mixedAudioBlobKey = mixedAudioBlob ? `history_mixed_audio_${id}` : undefined;
+    const wavAudioBlobKey = audioExport.format !== 'wav' && audioExport.keepWav ? `history_audio_wav_${id}` : undefined;
+    const srtBlobKey = `history_srt_${id}`;
+    const vttBlobKey = `history_vtt_${id}`;
+    const subtitles = createSubtitleFiles(timings);
+    const storedAudio = await encodeAudio(audioBlob, audioExport);
+    const storedMix = mixedAudioBlob ? await encodeAudio(mixedAudioBlob, audioExport) : null;
+    await Promise.all([
+        idb.set(audioBlobKey, storedAudio),
+        storedMix && mixedAudioBlobKey ? idb.set(mixedAudioBlobKey, storedMix) : Promise.resolve(),
+        wavAudioBlobKey ? idb.set(wavAudioBlobKey, audioBlob) : Promise.resolve(),
+        idb.set(srtBlobKey, subtitles.srt),
+        idb.set(vttBlobKey, subtitles.vtt),
+    ]);
+
+    const titles = job.titles || [];
+    return {
+        id,
+        timestamp: Date.now(),
+        type: job.kind,
+        language: job.language,
+        prompt: job.theme || '',
+        subthemes: job.subthemes || [],
+        prayer: scriptToText(script),
+        script,
+        socialPost: job.kind === 'short' ? post as SocialMediaPost : null,
+        longPost: job.kind === 'long' ? post as YouTubeLongPost : null,
+        audioBlobKey,
+        mixedAudioBlobKey,
+        loudness: mastered?.report,
+        mixedLoudness: mixed?.loudness,
+        audioFormat: audioExport.format,
+        wavAudioBlobKey,
+        timings,
+        srtBlobKey,
+        vttBlobKey,
+        imageBlobKey: image.imageBlobKey,
+        promptVersions: job.promptVersions,
+        titleVariants: titles.length > 1 ? titles.map(title => ({ title })) : undefined,
+        thumbnailVariants: image.variants,
+        isDownloaded: false,
+    };
+};
+
+// What the worker needs from the page to run a job.
+export interface AgentJobHost {
+    // Called before each job so it runs with the current settings.
+    prepare: () => Promise<void>;
+    // Runs finalizeAgentJob on the page and saves the item to history.
+    finalize: (job: AgentJob) => Promise<void>;
+}
+
+const intermediateKeys = (job: AgentJob) => [
+    narrationKey(job),
+    ...(job.thumbnails || []).map(draft => draft.baseBlobKey),
+];
+
+// Runs the steps that are not done yet, then has the page save the kit.
+export const runAgentJob = async (id: string, host: AgentJobHost): Promise<void> => {
+    let job = await findAgentJob(id);
+    if (!job) throw new Error(`Agent job ${id} no longer exists.`);
+    if (job.steps.text !== 'done') job = await runTextStep(job);
+
+    const media: Promise<void>[] = [];
+    if (job.steps.audio !== 'done') media.push(runAudioStep(job));
+    if (job.steps.image !== 'done') media.push(runImageStep(job));
+    // Let both finish before failing, so a retry never overlaps a step still running
+    const failure = (await Promise.allSettled(media)).find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+
+    job = await updateAgentJob(id, {}, 'Saving to history');
+    await host.finalize(job);
+    await Promise.all([...intermediateKeys(job).map(key => idb.del(key)), clearPrayerCheckpoint(checkpointKey(job))]);
+    await updateAgentJob(id, { status: 'succeeded', error: undefined, nextAttemptAt: undefined }, 'Saved to history');
+};
+
+// Removes what a job stored before it was saved to history.
+export const discardAgentJobData = async (job: AgentJob): Promise<void> => {
+    if (job.status === 'succeeded') return;
+    const count = job.thumbnails?.length || 1;
+    const imageKeys = Array.from({ length: count }, (_, index) => imageKey(job, index, count));
+    await Promise.all([...intermediateKeys(job), ...imageKeys].map(key => idb.del(key)).concat(clearPrayerCheckpoint(checkpointKey(job))));
+};
+
+let isProcessing = false;
+
+// Works through due jobs one at a time. Calling it while it runs is a no-op, so it can be
+// called whenever something is queued and on a timer for delayed retries.
+export const processAgentQueue = async (host: AgentJobHost): Promise<void> => {
+    if (isProcessing) return;
+    isProcessing = true;
+    try {
+        for (let job = nextDueJob(await loadAgentJobs(), Date.now()); job; job = nextDueJob(await loadAgentJobs(), Date.now())) {
+            const attempt = job.attempts + 1;
+            await updateAgentJob(job.id, { status: 'running', attempts: attempt, nextAttemptAt: undefined }, `Attempt ${attempt} started`);
+            try {
+                await host.prepare();
+                await runAgentJob(job.id, host);
+            } catch (error) {
+                console.error(`Autonomous agent job ${job.id} failed:`, error);
+                await failAgentJob(job.id, error instanceof Error ? error.message : String(error));
+            }
+        }
+    } finally {
+        isProcessing = false;
+    }
+};
@@ -0,0 +1,32 @@
+import { AgentJob } from '../types';
+import { AppSettings } from '../settings';
+import { VoicePaceSample, VoicePaceStats } from '../utils/pacing';
+import { AgentScheduleConfig } from './agentSchedule';
+
+// Messages between the BotAgent view and the agent worker (services/agentWorker.ts).
+
+// What the worker cannot read itself (localStorage), fetched from the page before each job.
+export interface AgentWorkerContext {
+    settings: AppSettings;
+    paceStats: VoicePaceStats;
+    apiKey?: string; // Gemini key of the page, which the worker's environment does not have.
+}
+
+// Work the worker hands to the page and waits for.
+export type AgentWorkerRequest =
+    | { type: 'context' }
+    // Draw the thumbnail text, mix and encode the audio and save the kit to history (needs a document).
+    | { type: 'finalize'; job: AgentJob };
+
+// Page -> worker
+export type AgentWorkerCommand =
+    | { type: 'config'; config: AgentScheduleConfig }
+    | { type: 'retry'; jobId: string }
+    | { type: 'remove'; jobIds: string[] }
+    | { type: 'reply'; requestId: number; result?: unknown; error?: string };
+
+// Worker -> page
+export type AgentWorkerEvent =
+    | { type: 'jobs'; jobs: AgentJob[] }
+    | { type: 'request'; requestId: number; request: AgentWorkerRequest }
+    | { type: 'paceSamples'; samples: VoicePaceSample[] };
@@ -0,0 +1,143 @@
+import { AgentJob, AgentJobStep, AgentStepStatus } from '../types';
+import { idb } from '../hooks/usePersistentState';
+
+// Jobs of the autonomous agent, kept in IndexedDB so a reload resumes them instead of losing them.
+// Only the agent worker changes the queue; the page gets copies through messages.
+
+const QUEUE_STORAGE_KEY = 'agent_job_queue';
+
+export const MAX_JOB_ATTEMPTS = 3;
+// Wait before automatic retry n (after failed attempt n).
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000];
+const MAX_LOG_ENTRIES = 100;
+// Finished jobs kept for the job list; older ones are dropped when new jobs are queued.
+const FINISHED_JOBS_KEPT = 30;
+
+type JobListener = (jobs: AgentJob[]) => void;
+
+let cache: AgentJob[] | null = null;
+let pending: Promise<unknown> = Promise.resolve();
+const listeners = new Set<JobListener>();
+
+// Every change runs after the previous one, so parallel steps of a job never overwrite each other.
+const mutate = (change: (jobs: AgentJob[]) => AgentJob[]): Promise<AgentJob[]> => {
+    const next = pending.then(async () => {
+        const current = cache ?? (await idb.get<AgentJob[]>(QUEUE_STORAGE_KEY)) ?? [];
+        const updated = change(current);
+        if (updated !== current) await idb.set(QUEUE_STORAGE_KEY, updated);
+        cache = updated;
+        if (updated !== current) listeners.forEach(listener => listener(updated));
+        return updated;
+    });
+    pending = next.catch(() => undefined);
+    return next;
+};
+
+const withLog = (job: AgentJob, message: string): AgentJob['log'] =>
+    [...job.log, { at: Date.now(), message }].slice(-MAX_LOG_ENTRIES);
+
+const isFinished = (job: AgentJob) => job.status === 'succeeded' || job.status === 'failed';
+
+export const loadAgentJobs = (): Promise<AgentJob[]> => mutate(jobs => jobs);
+
+export const findAgentJob = async (id: string): Promise<AgentJob | undefined> =>
+    (await loadAgentJobs()).find(job => job.id === id);
+
+export const subscribeAgentJobs = (listener: JobListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const createAgentJob = (kind: AgentJob['kind'], language: string, duration: number, scheduleKey: string, batchId?: string): AgentJob => {
+    const now = Date.now();
+    return {
+        id: `${now}-${language}-${kind}`,
+        kind,
+        language,
+        duration,
+        scheduleKey,
+        batchId,
+        status: 'queued',
+        steps: { text: 'pending', audio: 'pending', image: 'pending' },
+        attempts: 0,
+        log: [{ at: now, message: 'Queued' }],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+// Jobs already queued for the same slot and language are skipped, so overlapping schedule checks cannot double a run.
+export const enqueueAgentJobs = (newJobs: AgentJob[]): Promise<AgentJob[]> => mutate(jobs => {
+    const fresh = newJobs.filter(job => !jobs.some(existing => existing.scheduleKey === job.scheduleKey && existing.language === job.language));
+    if (fresh.length === 0) return jobs;
+    const finished = jobs.filter(isFinished);
+    const dropped = new Set(finished.slice(0, Math.max(0, finished.length - FINISHED_JOBS_KEPT)).map(job => job.id));
+    return [...jobs.filter(job => !dropped.has(job.id)), ...fresh];
+});
+
+// Applies a patch (and optionally a log line) to one job and returns the updated job. A function
+// patch sees the latest stored job, for changes that depend on it.
+export const updateAgentJob = async (id: string, patch: Partial<AgentJob> | ((job: AgentJob) => Partial<AgentJob>), message?: string): Promise<AgentJob> => {
+    const jobs = await mutate(current => current.map(job => job.id === id
+        ? { ...job, ...(typeof patch === 'function' ? patch(job) : patch), log: message ? withLog(job, message) : job.log, updatedAt: Date.now() }
+        : job));
+    const updated = jobs.find(job => job.id === id);
+    if (!updated) throw new Error(`Agent job ${id} no longer exists.`);
+    return updated;
+};
+
+// Audio and image run in parallel, so a step change is merged into the stored steps, not the caller's copy.
+export const setAgentJobStep = (id: string, step: AgentJobStep, status: AgentStepStatus, message?: string, patch: Partial<AgentJob> = {}): Promise<AgentJob> =>
+    updateAgentJob(id, job => ({ ...patch, steps: { ...job.steps, [step]: status } }), message);
+
+// Applies the retry policy: back to the queue with a delay until MAX_JOB_ATTEMPTS, then failed.
+export const failAgentJob = (id: string, error: string): Promise<AgentJob[]> => mutate(jobs => jobs.map(job => {
+    if (job.id !== id) return job;
+    const steps = Object.fromEntries(Object.entries(job.steps).map(([step, status]) => [step, status === 'running' ? 'failed' : status])) as AgentJob['steps'];
+    const retryIn = job.attempts < MAX_JOB_ATTEMPTS ? RETRY_DELAYS_MS[Math.min(job.attempts, RETRY_DELAYS_MS.length) - 1] : undefined;
+    const message = retryIn !== undefined
+        ? `Attempt ${job.attempts} failed: ${error} Retrying in ${Math.round(retryIn / 60_000)} min.`
+        : `Attempt ${job.attempts} failed: ${error} Giving up.`;
+    return {
+        ...job,
+        status: retryIn !== undefined ? 'queued' : 'failed',
+        steps,
+        error,
+        nextAttemptAt: retryIn !== undefined ? Date.now() + retryIn : undefined,
+        log: withLog(job, message),
+        updatedAt: Date.now(),
+    };
+}));
+
+// Manual retry from the job list: a fresh set of attempts, keeping the finished steps.
+export const retryAgentJob = (id: string): Promise<AgentJob[]> => mutate(jobs => jobs.map(job => job.id === id
+    ? { ...job, status: 'queued', attempts: 0, nextAttemptAt: undefined, error: undefined, log: withLog(job, 'Retry requested'), updatedAt: Date.now() }
+    : job));
+
+export const removeAgentJobs = (ids: string[]): Promise<AgentJob[]> => mutate(jobs => jobs.filter(job => !ids.includes(job.id)));
+
+// Jobs left 'running' by a closed or reloaded tab go back to the queue; finished steps are kept.
+export const recoverInterruptedJobs = (): Promise<AgentJob[]> => mutate(jobs => jobs.some(job => job.status === 'running')
+    ? jobs.map(job => job.status === 'running'
+        ? {
+            ...job,
+            status: 'queued',
+            steps: Object.fromEntries(Object.entries(job.steps).map(([step, status]) => [step, status === 'running' ? 'pending' : status])) as AgentJob['steps'],
+            log: withLog(job, 'Interrupted by a reload; resuming'),
+            updatedAt: Date.now(),
+        }
+        : job)
+    : jobs);
+
+// Oldest queued job whose retry delay has passed.
+export const nextDueJob = (jobs: AgentJob[], now: number): AgentJob | undefined =>
+    jobs.find(job => job.status === 'queued' && (job.nextAttemptAt ?? 0) <= now);
+
+export const hasJobsForSlot = (jobs: AgentJob[], scheduleKey: string): boolean =>
+    jobs.some(job => job.scheduleKey === scheduleKey);
+
+// Schedule slots whose jobs have all succeeded.
+export const completedSlots = (jobs: AgentJob[]): string[] => {
+    const slots = new Set(jobs.map(job => job.scheduleKey));
+    return [...slots].filter(slot => jobs.every(job => job.scheduleKey !== slot || job.status === 'succeeded'));
+};
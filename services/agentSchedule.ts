@@ -0,0 +1,75 @@
+import { AgentJob } from '../types';
+import { hasJobsForSlot } from './agentQueue';
+
+// When the autonomous agent publishes. Long videos run as one batch (all languages) at the
+// Portuguese times; shorts run per language.
+
+export type AgentLanguage = 'pt' | 'en' | 'es';
+export const AGENT_LANGUAGES: AgentLanguage[] = ['pt', 'en', 'es'];
+
+const SCHEDULES: Record<AgentLanguage, { long: number[]; short: number[] }> = {
+    pt: { long: [6, 12, 18], short: [9, 12, 18] },
+    en: { long: [7, 13, 19], short: [9, 12, 18] },
+    es: { long: [8, 14, 20], short: [9, 12, 18] },
+};
+const OFFSETS: Record<AgentLanguage, number> = { pt: 0, en: 20, es: 40 };
+
+// A slot missed by up to this much (a late wake-up, the app opened after the hour) still runs.
+const SLOT_GRACE_MS = 60 * 60_000;
+
+// The BotAgent settings the worker schedules from.
+export interface AgentScheduleConfig {
+    longActive: boolean;
+    shortActive: boolean;
+    longCadence: number;
+    shortCadence: number;
+    longDuration: number;
+    lastRuns: { [key: string]: number }; // Slots whose jobs all succeeded.
+}
+
+export interface ScheduleSlot {
+    key: string;
+    kind: 'long' | 'short';
+    languages: AgentLanguage[];
+    time: number;
+}
+
+// Active slots of the day `date` falls on, in time order.
+const slotsForDay = (config: AgentScheduleConfig, date: Date): ScheduleSlot[] => {
+    const dayStr = date.toISOString().split('T')[0];
+    const at = (hour: number, minute: number) => new Date(date).setHours(hour, minute, 0, 0);
+    const slots: ScheduleSlot[] = [];
+    if (config.longActive) {
+        for (const hour of SCHEDULES.pt.long.slice(0, config.longCadence)) {
+            const minute = OFFSETS.pt;
+            slots.push({ key: `${dayStr}_pt_long_batch_${hour}:${minute}`, kind: 'long', languages: AGENT_LANGUAGES, time: at(hour, minute) });
+        }
+    }
+    if (config.shortActive) {
+        for (const lang of AGENT_LANGUAGES) {
+            for (const hour of SCHEDULES[lang].short.slice(0, config.shortCadence)) {
+                const minute = OFFSETS[lang];
+                slots.push({ key: `${dayStr}_${lang}_short_${hour}:${minute}`, kind: 'short', languages: [lang], time: at(hour, minute) });
+            }
+        }
+    }
+    return slots.sort((a, b) => a.time - b.time);
+};
+
+// Slots whose time has come that have neither run nor been queued.
+export const dueSlots = (config: AgentScheduleConfig, jobs: AgentJob[], now: Date): ScheduleSlot[] =>
+    slotsForDay(config, now).filter(slot => slot.time <= now.getTime()
+        && now.getTime() - slot.time < SLOT_GRACE_MS
+        && !config.lastRuns[slot.key]
+        && !hasJobsForSlot(jobs, slot.key));
+
+// The next slot (of one kind, or any) that has not run yet, today or tomorrow.
+export const nextSlot = (config: AgentScheduleConfig, now: Date, kind?: ScheduleSlot['kind']): ScheduleSlot | undefined => {
+    for (let d = 0; d < 2; d++) {
+        const day = new Date(now);
+        day.setDate(now.getDate() + d);
+        const next = slotsForDay(config, day).find(slot => (!kind || slot.kind === kind) && slot.time > now.getTime() && !config.lastRuns[slot.key]);
+        if (next) return next;
+    }
+    return undefined;
+};
@@ -0,0 +1,116 @@
+import { setWorkerSettings } from '../settings';
+import { setWorkerApiKey } from './generationProvider';
+import { setWorkerPaceStats } from '../utils/pacing';
+import {
+    createAgentJob,
+    enqueueAgentJobs,
+    loadAgentJobs,
+    recoverInterruptedJobs,
+    removeAgentJobs,
+    retryAgentJob,
+    subscribeAgentJobs,
+} from './agentQueue';
+import { AgentJobHost, discardAgentJobData, processAgentQueue } from './agentPipeline';
+import { AgentScheduleConfig, dueSlots, nextSlot } from './agentSchedule';
+import { AgentWorkerCommand, AgentWorkerContext, AgentWorkerEvent, AgentWorkerRequest } from './agentProtocol';
+
+// Dedicated worker that owns the autonomous agent: it checks the schedule, queues jobs and runs
+// them. Worker timers keep firing when the tab is in the background, unlike the page's. Work
+// that needs a document is requested from the page (see AgentWorkerRequest).
+
+const TICK_MS = 30_000;
+// Held by the worker of one tab, so a second open tab does not run the same jobs.
+const LOCK_NAME = 'prayer-agent-worker';
+
+const post = (event: AgentWorkerEvent) => self.postMessage(event);
+
+let config: AgentScheduleConfig | null = null;
+let isOwner = false;
+let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+// --- PAGE REQUESTS ---
+
+let nextRequestId = 1;
+const pendingRequests = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+const requestPage = <T>(request: AgentWorkerRequest): Promise<T> => new Promise<T>((resolve, reject) => {
+    const requestId = nextRequestId++;
+    pendingRequests.set(requestId, { resolve: result => resolve(result as T), reject });
+    post({ type: 'request', requestId, request });
+});
+
+const host: AgentJobHost = {
+    prepare: async () => {
+        const context = await requestPage<AgentWorkerContext>({ type: 'context' });
+        if (context.settings.generationProvider === 'gemini' && !context.apiKey) {
+            throw new Error("The page has no Gemini API key to hand to the agent worker.");
+        }
+        setWorkerSettings(context.settings);
+        setWorkerApiKey(context.apiKey);
+        setWorkerPaceStats(context.paceStats, samples => post({ type: 'paceSamples', samples }));
+    },
+    finalize: job => requestPage<void>({ type: 'finalize', job }),
+};
+
+// --- SCHEDULER ---
+
+const runQueue = () => processAgentQueue(host).catch(error => console.error("Agent queue stopped:", error));
+
+const tick = async () => {
+    if (!isOwner) return;
+    if (config) {
+        const now = new Date();
+        for (const slot of dueSlots(config, await loadAgentJobs(), now)) {
+            const duration = slot.kind === 'long' ? config.longDuration : 1;
+            const batchId = slot.languages.length > 1 ? slot.key : undefined;
+            await enqueueAgentJobs(slot.languages.map(lang => createAgentJob(slot.kind, lang, duration, slot.key, batchId)));
+        }
+        // Wake exactly at the next slot instead of up to a tick later
+        clearTimeout(wakeTimer);
+        const next = nextSlot(config, now);
+        if (next && next.time - now.getTime() < TICK_MS) wakeTimer = setTimeout(tick, next.time - now.getTime());
+    }
+    runQueue();
+};
+
+const start = async () => {
+    isOwner = true;
+    subscribeAgentJobs(jobs => post({ type: 'jobs', jobs }));
+    post({ type: 'jobs', jobs: await recoverInterruptedJobs() });
+    tick();
+    setInterval(tick, TICK_MS);
+};
+
+// The lock is never released; it frees up when this worker's tab closes
+navigator.locks.request(LOCK_NAME, () => new Promise<never>(() => { start(); }));
+
+// --- MESSAGES ---
+
+self.onmessage = async (event: MessageEvent<AgentWorkerCommand>) => {
+    const command = event.data;
+    switch (command.type) {
+        case 'config':
+            config = command.config;
+            tick();
+            break;
+        case 'retry':
+            if (!isOwner) return;
+            await retryAgentJob(command.jobId);
+            runQueue();
+            break;
+        case 'remove': {
+            if (!isOwner) return;
+            const removed = (await loadAgentJobs()).filter(job => command.jobIds.includes(job.id) && job.status !== 'running');
+            await removeAgentJobs(removed.map(job => job.id));
+            await Promise.all(removed.map(discardAgentJobData));
+            break;
+        }
+        case 'reply': {
+            const pending = pendingRequests.get(command.requestId);
+            pendingRequests.delete(command.requestId);
+            if (command.error !== undefined) pending?.reject(new Error(command.error));
+            else pending?.resolve(command.result);
+            break;
+        }
+    }
+};
@@ -0,0 +1,99 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerationProvider } from './generationProvider';
+import { decode } from '../utils/audio';
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): GenerationProvider => {
+    if (!apiKey) throw new Error("No Gemini API key is configured.");
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+
+        generateText: async ({ model, contents, systemInstruction, temperature }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents,
+                config: { systemInstruction, temperature }
+            });
+            return response.text || "";
+        },
+
+        generateJson: async ({ model, contents, systemInstruction, temperature, responseSchema }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema,
+                    systemInstruction,
+                    temperature
+                }
+            });
+            return JSON.parse(response.text || "{}");
+        },
+
+        generateSpeech: async ({ model, text, voiceName }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [{ text }] },
+                config: {
+                    responseModalities: ['AUDIO'],
+                    speechConfig: {
+                        voiceConfig: { prebuiltVoiceConfig: { voiceName } }
+                    }
+                }
+            });
+
+            const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            return audioData ? decode(audioData) : null;
+        },
+
+        generateImage: async ({ model, prompt, aspectRatio }) => {
+            const response = await ai.models.generateImages({
+                model,
+                prompt,
+                config: {
+                    numberOfImages: 1,
+                    aspectRatio: aspectRatio,
+                    outputMimeType: 'image/png',
+                },
+            });
+            const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+            if (!imageBytes) throw new Error("Image generation returned no image.");
+            return imageBytes;
+        },
+
+        generateVideo: async ({ model, prompt, aspectRatio }) => {
+            let operation = await ai.models.generateVideos({
+                model,
+                prompt,
+                config: {
+                    numberOfVideos: 1,
+                    resolution: '720p',
+                    aspectRatio: aspectRatio
+                }
+            });
+
+            // Poll for completion
+            while (!operation.done) {
+                await new Promise(resolve => setTimeout(resolve, 5000));
+                operation = await ai.operations.getVideosOperation({ operation: operation });
+            }
+
+            return operation.response?.generatedVideos?.[0]?.video?.uri || "";
+        },
+
+        analyzeImage: async ({ model, prompt, mimeType, data }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: {
+                    parts: [
+                        { inlineData: { mimeType, data } },
+                        { text: prompt }
+                    ]
+                }
+            });
+            return response.text || "";
+        },
+    };
+};
@@ -1,290 +1,710 @@
 
-import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
-import { createOPFSFile, writeChunkToStream, getOPFSFileAsBlob } from '../utils/opfsUtils';
-import { YouTubeLongPost, SocialMediaPost, AspectRatio } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type } from "@google/genai";
+import { writeChunkToStream, reserveWavHeader, finalizeWavHeader } from '../utils/opfsUtils';
+import { SAMPLE_RATE, WAV_HEADER_BYTES, concatPcmChunks, createSilence, formatTimestamp, getWavDuration, normalizePcmBlock, replaceWavRanges, spliceWavPcm } from '../utils/audio';
+import { YouTubeLongPost, SocialMediaPost, AspectRatio, PrayerCheckpoint, PrayerScript, ScriptSection, ScriptTurn, SpeechGap, ThumbnailDesign, ThumbnailTrigger, TimedBlock, VoiceCastMember } from '../types';
+import { getProvider } from './generationProvider';
+import { idb } from '../hooks/usePersistentState';
+import { withRetry, isRateLimitError, sleep } from '../utils/retry';
+import { runOrderedPool } from '../utils/concurrency';
+import { loadSettings, castForLanguage } from '../settings';
+import { subthemeForSection } from '../utils/chapters';
+import { ClipRange, fitClipRange } from '../utils/clips';
+import { renderPrompt } from './promptTemplates';
+import { normalizeSection, normalizeSpeakerName, parseTurnKey, scriptSpeakers, scriptToSpeechBlocks, sectionToText, turnKey } from '../utils/prayerScript';
+import { DURATION_TOLERANCE, estimateScriptSeconds, planNextPart, recordVoicePace, scriptWordCount, trimScriptToDuration, voiceWordsPerMinute, WORDS_PER_PART } from '../utils/pacing';
 
 // Helper to clean stage directions from the start of lines for TTS
+// Pacing cues like [pause 3s] are extracted into silence blocks before this runs.
 const cleanTextForSpeech = (text: string): string => {
-    // Removes (Softly), [Pause], etc., only if they appear at the start of a line or sentence
+    // Removes (Softly), [Whispering], etc., only if they appear at the start of a line or sentence
     // Preserves internal emphasis like *stars* or (biblical references) inside the sentence.
     return text.replace(/^\s*[\(\[][^)\]]*[\)\]]\s*/gm, "");
 };
 
 export interface MultiSpeakerConfig {
-    speakers: { name: string; voice: string }[];
+    speakers: { name: string; voice: string; aliases?: string[] }[];
+    // Voice for speakers that match neither a name nor an alias.
+    fallbackVoice?: string;
+}
+
+const DEFAULT_VOICE = 'Aoede';
+
+// The lead narrator (first cast member) doubles as the fallback voice.
+export const castToSpeakerConfig = (cast: VoiceCastMember[]): MultiSpeakerConfig => ({
+    speakers: cast.map(({ name, voice, aliases }) => ({ name, voice, aliases })),
+    fallbackVoice: cast[0]?.voice,
+});
+
+const findSpeaker = (speaker: string, multiSpeakerConfig: MultiSpeakerConfig) => {
+    const key = normalizeSpeakerName(speaker);
+    return multiSpeakerConfig.speakers.find(s =>
+        normalizeSpeakerName(s.name) === key || (s.aliases || []).some(alias => alias.trim() && normalizeSpeakerName(alias) === key)
+    );
+};
+
+// Pre-flight check: speakers in the script that the config cannot voice (they would get the fallback voice).
+export const findUnknownSpeakers = (script: PrayerScript, multiSpeakerConfig?: MultiSpeakerConfig): string[] => {
+    if (!multiSpeakerConfig) return [];
+    return scriptSpeakers(script).filter(speaker => !findSpeaker(speaker, multiSpeakerConfig));
+};
+
+// Every name the config can voice, used by the script linter.
+export const allowedSpeakerNames = (multiSpeakerConfig?: MultiSpeakerConfig): string[] | undefined =>
+    multiSpeakerConfig?.speakers.flatMap(s => [s.name, ...(s.aliases || [])].filter(name => name.trim()));
+
+export interface SpeechResult {
+    pcmBytes: number; // Size of the audio payload, excluding any WAV header.
+    durationSeconds: number;
+    gaps: SpeechGap[]; // Blocks that still failed after retries, in timeline order.
+    timings: TimedBlock[]; // Spoken blocks in timeline order.
+}
+
+export interface SpeechOptions {
+    // Number of TTS blocks synthesized at once. Defaults to the value in settings.
+    concurrency?: number;
 }
 
+export interface GuidedPrayerOptions {
+    // When set, every completed block is persisted in IndexedDB under this key.
+    checkpointKey?: string;
+    // Continue from the stored checkpoint instead of starting over (only if it matches the same request).
+    resume?: boolean;
+    onCheckpoint?: (checkpoint: PrayerCheckpoint) => void;
+    // Narrators for the dialogue. Defaults to the voice cast configured for the language.
+    cast?: VoiceCastMember[];
+    // Subthemes shared out over the parts in order; chapter times are later taken from these sections.
+    subthemes?: string[];
+}
+
+// --- CHECKPOINTS ---
+
+const checkpointStorageKey = (key: string) => `prayer_checkpoint_${key}`;
+
+export const loadPrayerCheckpoint = (key: string): Promise<PrayerCheckpoint | undefined> => {
+    return idb.get<PrayerCheckpoint>(checkpointStorageKey(key));
+};
+
+export const clearPrayerCheckpoint = (key: string): Promise<void> => {
+    return idb.del(checkpointStorageKey(key));
+};
+
 // --- CORE GENERATION FUNCTIONS ---
 
-export const generateGuidedPrayer = async (prompt: string, language: string, duration: number = 10): Promise<string> => {
+const scriptSectionSchema = (speakerNames: string[]) => ({
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING, description: "Short label for this part of the prayer (e.g. 'Induction', 'Deepening')." },
+        turns: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    speaker: { type: Type.STRING, enum: speakerNames },
+                    text: { type: Type.STRING, description: "Spoken words only, plus optional breathing cues like [pause 3s] or [breathe in 4]. No speaker label, no stage directions." },
+                    pauseAfterSeconds: { type: Type.NUMBER, description: "Optional silence after this turn, in seconds." },
+                    scriptureRefs: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Bible references quoted or alluded to in this turn, e.g. 'Psalm 23:1'." },
+                },
+                required: ['speaker', 'text'],
+            },
+        },
+    },
+    required: ['title', 'turns'],
+});
+
+export const generateGuidedPrayer = async (prompt: string, language: string, duration: number = 10, options: GuidedPrayerOptions = {}): Promise<PrayerScript> => {
     const model = 'gemini-2.5-flash'; // Using Flash for high-volume text generation (recursion)
     
     // Language Map
     const langMap: {[key: string]: string} = { 'pt': 'Português', 'en': 'Inglês', 'es': 'Espanhol' };
     const targetLang = langMap[language] || 'Inglês';
 
-    // Calculate iterations based on duration to ensure density
-    // 10 min = 2 calls (approx 2500 words) -> High Density
-    // 60 min = 8 calls (approx 10000 words)
-    const numIterations = Math.ceil(duration / 7); 
-    let fullPrayer = "";
-    let lastContext = "";
+    const cast = options.cast && options.cast.length > 0 ? options.cast : castForLanguage(loadSettings().voiceCast, language);
+    const speakerNames = cast.map(member => member.name);
+    const castDescription = cast.map(member => `"${member.name}" (Voice: ${member.voice}${member.persona ? `, ${member.persona}` : ''})`).join(' and ');
+    const speakerList = speakerNames.map(name => `"${name}"`).join(' or ');
+
+    // Duration controller: the script is projected at the measured pace of the cast's voices and
+    // every part is sized to close the remaining gap, so the number of parts follows the words actually written.
+    const speakerConfig = castToSpeakerConfig(cast);
+    const targetSeconds = duration * 60;
+    const leadWordsPerMinute = narrationWordsPerMinute(speakerConfig);
+    const project = (sections: ScriptSection[]) => estimateNarrationSeconds({ sections }, speakerConfig);
+    const plan = (sections: ScriptSection[]) => planNextPart(
+        targetSeconds, project(sections), scriptWordCount({ sections }), sections.length, leadWordsPerMinute
+    );
+    // Safety net for a model that keeps writing far less than asked
+    const maxParts = Math.ceil((duration * leadWordsPerMinute) / WORDS_PER_PART) * 2 + 1;
+
+    let checkpoint: PrayerCheckpoint = {
+        key: options.checkpointKey || '',
+        prompt,
+        language,
+        duration,
+        totalBlocks: plan([]).totalParts,
+        blocks: [],
+        status: 'in_progress',
+        updatedAt: Date.now(),
+    };
+
+    if (options.checkpointKey && options.resume) {
+        const stored = await loadPrayerCheckpoint(options.checkpointKey);
+        // Checkpoints written before structured scripts hold plain strings and cannot be resumed
+        const isStructured = stored?.blocks.every(block => typeof block === 'object');
+        if (stored && isStructured && stored.prompt === prompt && stored.language === language && stored.duration === duration) {
+            checkpoint = { ...stored, status: 'in_progress', error: undefined };
+        }
+    }
+
+    const saveCheckpoint = async (patch: Partial<PrayerCheckpoint>) => {
+        checkpoint = { ...checkpoint, ...patch, updatedAt: Date.now() };
+        if (options.checkpointKey) {
+            try {
+                await idb.set(checkpointStorageKey(options.checkpointKey), checkpoint);
+            } catch (e) {
+                console.error("Failed to persist prayer checkpoint", e);
+            }
+        }
+        if (options.onCheckpoint) options.onCheckpoint(checkpoint);
+    };
+
+    await saveCheckpoint({});
 
-    console.log(`Starting Recursive Generation: ${duration} min = ${numIterations} iterations.`);
+    // Once the closing part exists, a prayer that is still short grows by parts inserted before it.
+    const needsExtension = (blocks: ScriptSection[]) =>
+        blocks.length >= 2 && blocks.length < maxParts && project(blocks) < targetSeconds * (1 - DURATION_TOLERANCE);
 
-    for (let i = 0; i < numIterations; i++) {
+    while (!checkpoint.closed || needsExtension(checkpoint.blocks)) {
+        const isExtension = !!checkpoint.closed;
+        const i = isExtension ? checkpoint.blocks.length - 1 : checkpoint.blocks.length;
+        const previousSection = checkpoint.blocks[i - 1];
+        const lastContext = previousSection ? sectionToText(previousSection) : "";
+        const next = plan(checkpoint.blocks);
         const isFirst = i === 0;
-        const isLast = i === numIterations - 1;
-        
-        const systemInstruction = `
-        You are a Master of Guided Prayer and Erickson Hypnosis.
-        Your goal is to write a DEEPLY THERAPEUTIC dialogue script.
-        
-        CRITICAL RULES:
-        1. CHARACTERS: The dialogue MUST be exclusively between "Roberta Erickson" (Voice: Aoede, Soft, NLP Guide) and "Milton Dilts" (Voice: Enceladus, Deep, Hypnotic Voice).
-        2. FORMAT: Always start lines with "Roberta Erickson:" or "Milton Dilts:". Do NOT use other names.
-        3. LANGUAGE: Write strictly in ${targetLang}.
-        4. NO META-DATA: Do NOT write introductions like "Here is the script", summaries, or stage directions in parentheses at the start of lines. Just the dialogue.
-        5. DENSITY: Write extensive, rich, poetic text. Use sensory descriptions (VAK), loops, and embedded commands.
-        6. GOLDEN THREAD: The central theme "${prompt || 'Divine Connection'}" must be woven into every paragraph to maintain focus.
-        
-        STRUCTURAL GOAL FOR THIS BLOCK (Part ${i + 1} of ${numIterations}):
-        ${isFirst ? "- Start with a 'Hypnotic Hook': A provocative question or deep validation of the user's pain to grab attention immediately (First 30s). Then move to induction." : ""}
-        ${!isFirst && !isLast ? "- Deepening: Biblical metaphors (David/Solomon/Jesus), PNL ressignification, sensory immersion. Expand on the theme." : ""}
-        ${isLast ? "- Anchor the feeling, gratitude, and slowly return. End with a blessing." : ""}
+        const isLast = !isExtension && (next.isLast || i + 1 >= maxParts);
+        const numIterations = isLast ? i + 1 : isExtension ? checkpoint.blocks.length + 1 : Math.max(next.totalParts, i + 2);
+        const partMinutes = Math.max(1, Math.round(next.targetWords / leadWordsPerMinute));
+        const subthemes = (options.subthemes || []).map(theme => theme.trim()).filter(Boolean);
+        const focus = subthemes.length > 0 ? subthemes[subthemeForSection(i, numIterations, subthemes.length)] : '';
         
-        ${!isFirst ? `CONTEXT FROM PREVIOUS BLOCK: "...${lastContext.slice(-300)}"` : ""}
-        `;
-
-        const userPrompt = `
-        Write Part ${i + 1}/${numIterations} of the prayer about "${prompt}".
-        Duration target for this block: ~8 minutes of spoken text (approx 1200 words).
-        Keep the flow continuous. Start directly with a character name.
-        `;
+        const stageGoal = [
+            isFirst ? "- Start with a 'Hypnotic Hook': A provocative question or deep validation of the user's pain to grab attention immediately (First 30s). Then move to induction." : "",
+            !isFirst && !isLast ? "- Deepening: Biblical metaphors (David/Solomon/Jesus), PNL ressignification, sensory immersion. Expand on the theme." : "",
+            isLast ? "- Anchor the feeling, gratitude, and slowly return. End with a blessing." : "",
+            focus ? `- Focus of this part: "${focus}". Use it as the section title.` : "",
+        ].filter(Boolean).join('\n');
+
+        const { system: systemInstruction, user: userPrompt } = renderPrompt('guidedPrayer', {
+            theme: prompt || 'Divine Connection',
+            targetLang,
+            duration,
+            castDescription,
+            speakerList,
+            part: i + 1,
+            totalParts: numIterations,
+            partWords: next.targetWords,
+            partMinutes,
+            stageGoal,
+            previousContext: !isFirst ? `CONTEXT FROM PREVIOUS BLOCK: "...${lastContext.slice(-300)}"` : "",
+        });
 
         try {
-            const result = await ai.models.generateContent({
-                model,
-                contents: userPrompt,
-                config: { systemInstruction, temperature: 0.7 } // Creative but coherent
+            const section = await withRetry(async () => {
+                const result = await getProvider().generateJson<ScriptSection>({
+                    model,
+                    contents: userPrompt,
+                    systemInstruction,
+                    temperature: 0.7, // Creative but coherent
+                    responseSchema: scriptSectionSchema(speakerNames)
+                });
+                const normalized = normalizeSection(result, `Part ${i + 1}`);
+                if (normalized.turns.length === 0) throw new Error(`Block ${i + 1} came back empty.`);
+                return normalized;
+            }, {
+                retries: 3,
+                baseDelayMs: 2000,
+                onRetry: (attempt, error, delayMs) => console.warn(`Retrying block ${i + 1} (attempt ${attempt}) in ${delayMs}ms`, error),
+            });
+
+            const blocks = [...checkpoint.blocks.slice(0, i), section, ...checkpoint.blocks.slice(i)];
+            const closed = isExtension || isLast;
+            await saveCheckpoint({
+                blocks,
+                closed,
+                totalBlocks: closed ? blocks.length + (needsExtension(blocks) ? 1 : 0) : plan(blocks).totalParts,
+                projectedSeconds: project(blocks),
             });
-            
-            const text = result.text || "";
-            fullPrayer += text + "\n\n";
-            lastContext = text;
-        } catch (e) {
+        } catch (e: any) {
             console.error(`Error in block ${i}:`, e);
-            // If one block fails, we return what we have so far rather than crashing
-            break; 
+            // Keep the completed blocks so the generation can be resumed instead of returning a truncated prayer
+            await saveCheckpoint({ status: 'failed', error: e?.message || String(e) });
+            throw new Error(`Prayer generation stopped at block ${i + 1} of ${numIterations}.`);
         }
     }
 
-    return fullPrayer;
+    // A part that ran long is trimmed back rather than narrated past the target
+    const script = trimScriptToDuration({ sections: checkpoint.blocks }, targetSeconds, draft => estimateNarrationSeconds(draft, speakerConfig));
+    await saveCheckpoint({ status: 'completed', blocks: script.sections, projectedSeconds: project(script.sections) });
+    return script;
 };
 
-export const generateShortPrayer = async (prompt: string, language: string): Promise<string> => {
+export const generateShortPrayer = async (prompt: string, language: string, options?: GuidedPrayerOptions): Promise<PrayerScript> => {
     // Short prayer (pills) doesn't need recursion
-    return generateGuidedPrayer(prompt, language, 5); 
+    return generateGuidedPrayer(prompt, language, 5, options); 
 };
 
 // --- SPEECH GENERATION (BLADE RUNNER ARCHITECTURE) ---
 
-const parseDialogueIntoChunks = (text: string): { speaker: string; text: string }[] => {
-    const lines = text.split('\n');
-    const chunks: { speaker: string; text: string }[] = [];
-    let currentSpeaker = 'Narrator'; // Default
-    let currentBuffer = '';
-
-    // Regex to detect "Name:" pattern
-    const speakerRegex = /^([A-Za-zÀ-ÖØ-öø-ÿ ]+):/i;
-
-    for (const line of lines) {
-        const match = line.match(speakerRegex);
-        if (match) {
-            // If we have a buffer for the previous speaker, push it
-            if (currentBuffer.trim()) {
-                chunks.push({ speaker: currentSpeaker, text: currentBuffer.trim() });
-            }
-            // Start new speaker
-            currentSpeaker = match[1].trim();
-            currentBuffer = line.replace(speakerRegex, '').trim();
-        } else {
-            // Append to current speaker
-            if (line.trim()) {
-                currentBuffer += ' ' + line.trim();
-            }
-        }
-    }
-    // Push final buffer
-    if (currentBuffer.trim()) {
-        chunks.push({ speaker: currentSpeaker, text: currentBuffer.trim() });
-    }
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts'; // Correct TTS model
 
-    // Further split very long chunks to avoid TTS timeouts
-    const finalChunks: { speaker: string; text: string }[] = [];
-    const MAX_CHARS = 1500; 
-
-    for (const chunk of chunks) {
-        if (chunk.text.length > MAX_CHARS) {
-            // Split by sentences roughly
-            const sentences = chunk.text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || [chunk.text];
-            let temp = '';
-            for (const sentence of sentences) {
-                if ((temp + sentence).length > MAX_CHARS) {
-                    finalChunks.push({ speaker: chunk.speaker, text: temp });
-                    temp = sentence;
-                } else {
-                    temp += temp ? ' ' + sentence : sentence;
-                }
-            }
-            if (temp) finalChunks.push({ speaker: chunk.speaker, text: temp });
-        } else {
-            finalChunks.push(chunk);
-        }
-    }
+const resolveVoice = (speaker: string, multiSpeakerConfig?: MultiSpeakerConfig): string => {
+    if (!multiSpeakerConfig) return DEFAULT_VOICE;
+    const speakerMap = findSpeaker(speaker, multiSpeakerConfig);
+    return speakerMap?.voice || multiSpeakerConfig.fallbackVoice || DEFAULT_VOICE;
+};
 
-    return finalChunks;
+// Projected narration length of a script with the voices of this config.
+export const estimateNarrationSeconds = (script: PrayerScript, multiSpeakerConfig?: MultiSpeakerConfig): number =>
+    estimateScriptSeconds(script, speaker => resolveVoice(speaker, multiSpeakerConfig));
+
+// Words per minute of the voice that reads most of the script (the lead narrator).
+export const narrationWordsPerMinute = (multiSpeakerConfig?: MultiSpeakerConfig): number =>
+    voiceWordsPerMinute(multiSpeakerConfig?.fallbackVoice || DEFAULT_VOICE);
+
+// Synthesizes single blocks with exponential backoff and per-block loudness normalization. All callers sharing one synthesizer
+// back off together once the quota is hit, instead of each hammering the API.
+const createBlockSynthesizer = (multiSpeakerConfig?: MultiSpeakerConfig) => {
+    let cooldownUntil = 0;
+    const { mastering } = loadSettings();
+    return async (speaker: string, text: string, label: string): Promise<Uint8Array | null> => {
+        // Surgical Clean: Remove stage directions from start of speech only
+        const textToSpeak = cleanTextForSpeech(text);
+        if (!textToSpeak.trim()) return null;
+        const voiceName = resolveVoice(speaker, multiSpeakerConfig);
+        return withRetry(async () => {
+            const wait = cooldownUntil - Date.now();
+            if (wait > 0) await sleep(wait);
+            const bytes = await getProvider().generateSpeech({ model: TTS_MODEL, text: textToSpeak, voiceName });
+            if (!bytes || bytes.length === 0) throw new Error(`No audio returned for ${label}.`);
+            // Blocks come back at different levels; level them before they reach the file
+            return mastering.enabled ? normalizePcmBlock(bytes, mastering.targetLufs, mastering.ceilingDb) : bytes;
+        }, {
+            retries: 4,
+            baseDelayMs: 1500,
+            onRetry: (attempt, error, delayMs) => {
+                if (isRateLimitError(error)) cooldownUntil = Math.max(cooldownUntil, Date.now() + delayMs);
+                console.warn(`Retrying TTS ${label} (attempt ${attempt}) in ${delayMs}ms`, error);
+            },
+        });
+    };
 };
 
+type BlockOutcome = { bytes: Uint8Array | null; error?: string };
+
 export const generateSpeech = async (
-    text: string, 
+    script: PrayerScript, 
     multiSpeakerConfig?: MultiSpeakerConfig,
     callbacks?: {
         onChunk?: (data: Uint8Array) => void,
         onProgress?: (progress: number) => void,
-        onComplete?: () => void,
+        onComplete?: (result: SpeechResult) => void,
         onError?: (msg: string) => void
     },
-    opfsFileHandle?: FileSystemFileHandle
-): Promise<void> => {
-    const model = 'gemini-2.5-flash-preview-tts'; // Correct TTS model
-    const blocks = parseDialogueIntoChunks(text);
+    opfsFileHandle?: FileSystemFileHandle,
+    options: SpeechOptions = {}
+): Promise<SpeechResult> => {
+    const blocks = scriptToSpeechBlocks(script);
     const totalBlocks = blocks.length;
+    const unknownSpeakers = findUnknownSpeakers(script, multiSpeakerConfig);
+    if (unknownSpeakers.length > 0) {
+        console.warn(`Speakers not in the voice cast will use the fallback voice: ${unknownSpeakers.join(', ')}`);
+    }
     let processedBlocks = 0;
+    let pcmBytes = 0;
+    const gaps: SpeechGap[] = [];
+    const timings: TimedBlock[] = [];
 
-    // Open writable stream if OPFS is used
+    // Open writable stream if OPFS is used. The file is a real WAV: header space first, patched on close.
     let writable: FileSystemWritableFileStream | null = null;
     if (opfsFileHandle) {
         writable = await opfsFileHandle.createWritable({ keepExistingData: false });
+        await reserveWavHeader(writable);
     }
 
-    for (const block of blocks) {
-        try {
-            // Determine voice
-            let voiceName = 'Aoede'; // Default female
-            if (multiSpeakerConfig) {
-                const speakerMap = multiSpeakerConfig.speakers.find(s => 
-                    block.speaker.toLowerCase().includes(s.name.toLowerCase().split(' ')[0]) // Match first name
-                );
-                if (speakerMap) voiceName = speakerMap.voice;
-            }
-
-            // Surgical Clean: Remove stage directions from start of speech only
-            const textToSpeak = cleanTextForSpeech(block.text);
-            if (!textToSpeak.trim()) continue;
-
-            const response = await ai.models.generateContent({
-                model,
-                contents: { parts: [{ text: textToSpeak }] },
-                config: {
-                    responseModalities: ['AUDIO'],
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName } }
-                    }
-                }
-            });
-
-            const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            
-            if (audioData) {
-                // Decode Base64 to Uint8Array
-                const binaryString = atob(audioData);
-                const bytes = new Uint8Array(binaryString.length);
-                for (let i = 0; i < binaryString.length; i++) {
-                    bytes[i] = binaryString.charCodeAt(i);
-                }
-
-                if (writable) {
-                    await writeChunkToStream(writable, bytes);
-                } else if (callbacks?.onChunk) {
-                    callbacks.onChunk(bytes);
-                }
-            }
-
-            processedBlocks++;
-            if (callbacks?.onProgress) {
-                callbacks.onProgress(Math.round((processedBlocks / totalBlocks) * 100));
-            }
+    const emit = async (bytes: Uint8Array) => {
+        pcmBytes += bytes.length;
+        if (writable) {
+            await writeChunkToStream(writable, bytes);
+        } else if (callbacks?.onChunk) {
+            callbacks.onChunk(bytes);
+        }
+    };
 
-            // Small delay to be gentle on rate limits
-            await new Promise(r => setTimeout(r, 100));
+    const synthesize = createBlockSynthesizer(multiSpeakerConfig);
 
+    const synthesizeBlock = async (index: number): Promise<BlockOutcome> => {
+        const block = blocks[index];
+        // Breathing space: write real silence so the pause survives into the final WAV
+        if (block.pauseSeconds) return { bytes: createSilence(block.pauseSeconds) };
+        try {
+            return { bytes: await synthesize(block.speaker, block.text, `block ${index + 1}`) };
         } catch (e: any) {
             console.error("TTS Generation Error on block:", block, e);
-            if (callbacks?.onError) callbacks.onError(`Error generating audio for block ${processedBlocks + 1}`);
-            // Continue to next block to salvage what we can
+            // Continue with the other blocks; the gap is reported so it can be re-synthesized later
+            return { bytes: null, error: e?.message || String(e) };
         }
-    }
+    };
+
+    const concurrency = options.concurrency ?? loadSettings().ttsConcurrency;
+    await runOrderedPool(totalBlocks, concurrency, synthesizeBlock, async (outcome, index) => {
+        const block = blocks[index];
+        if (outcome.bytes) {
+            const start = getWavDuration(pcmBytes);
+            await emit(outcome.bytes);
+            if (!block.pauseSeconds) {
+                timings.push({
+                    blockIndex: index,
+                    sectionIndex: block.sectionIndex,
+                    turnIndex: block.turnIndex,
+                    speaker: block.speaker,
+                    text: block.text,
+                    start,
+                    end: getWavDuration(pcmBytes),
+                });
+            }
+        } else if (outcome.error) {
+            gaps.push({
+                blockIndex: index,
+                sectionIndex: block.sectionIndex,
+                turnIndex: block.turnIndex,
+                speaker: block.speaker,
+                text: block.text,
+                offsetBytes: pcmBytes,
+                offsetSeconds: getWavDuration(pcmBytes),
+                error: outcome.error,
+            });
+        }
+        processedBlocks++;
+        if (callbacks?.onProgress) {
+            callbacks.onProgress(Math.round((processedBlocks / totalBlocks) * 100));
+        }
+    });
 
     if (writable) {
+        await finalizeWavHeader(writable, pcmBytes);
         await writable.close();
     }
 
-    if (callbacks?.onComplete) callbacks.onComplete();
+    const result: SpeechResult = { pcmBytes, durationSeconds: getWavDuration(pcmBytes), gaps, timings };
+    // Every narration refines the per-voice pace used to size future scripts
+    recordVoicePace(timings.map(timing => ({ voice: resolveVoice(timing.speaker, multiSpeakerConfig), text: timing.text, seconds: timing.end - timing.start })));
+    if (gaps.length > 0) {
+        console.warn(`${gaps.length} of ${totalBlocks} TTS blocks failed:`, gaps);
+    }
+    if (gaps.length > 0 && gaps.length === blocks.filter(block => !block.pauseSeconds).length) {
+        // Nothing but silence was produced, so there is no audio worth keeping
+        if (callbacks?.onError) callbacks.onError(`All ${gaps.length} speech blocks failed.`);
+        return result;
+    }
+    if (callbacks?.onComplete) callbacks.onComplete(result);
+    return result;
 };
 
-// --- VISUAL GENERATION ---
+// Retries the blocks listed in `gaps` and splices the new audio into `wavBlob` at the recorded
+// positions. Blocks that fail again stay in the returned gaps, shifted to their new offsets;
+// `timings` is shifted the same way and gains an entry for every recovered block.
+export const resynthesizeSpeechGaps = async (
+    wavBlob: Blob,
+    gaps: SpeechGap[],
+    timings: TimedBlock[],
+    multiSpeakerConfig?: MultiSpeakerConfig,
+    options: SpeechOptions = {}
+): Promise<{ blob: Blob; result: SpeechResult }> => {
+    const synthesize = createBlockSynthesizer(multiSpeakerConfig);
+    const outcomes: BlockOutcome[] = new Array(gaps.length);
+    const concurrency = options.concurrency ?? loadSettings().ttsConcurrency;
+
+    await runOrderedPool(gaps.length, concurrency, async (index): Promise<BlockOutcome> => {
+        const gap = gaps[index];
+        try {
+            return { bytes: await synthesize(gap.speaker, gap.text, `block ${gap.blockIndex + 1}`) };
+        } catch (e: any) {
+            console.error("TTS re-synthesis failed for block:", gap, e);
+            return { bytes: null, error: e?.message || String(e) };
+        }
+    }, (outcome, index) => {
+        outcomes[index] = outcome;
+    });
+
+    const inserts: { offsetBytes: number; pcm: Uint8Array }[] = [];
+    const remaining: SpeechGap[] = [];
+    const recovered: TimedBlock[] = [];
+    let shift = 0;
+    gaps.forEach((gap, index) => {
+        const outcome = outcomes[index];
+        if (outcome.bytes) {
+            inserts.push({ offsetBytes: gap.offsetBytes, pcm: outcome.bytes });
+            const start = getWavDuration(gap.offsetBytes + shift);
+            shift += outcome.bytes.length;
+            const { blockIndex, sectionIndex, turnIndex, speaker, text } = gap;
+            recovered.push({ blockIndex, sectionIndex, turnIndex, speaker, text, start, end: getWavDuration(gap.offsetBytes + shift) });
+        } else {
+            const offsetBytes = gap.offsetBytes + shift;
+            remaining.push({ ...gap, offsetBytes, offsetSeconds: getWavDuration(offsetBytes), error: outcome.error || gap.error });
+        }
+    });
+
+    // Existing blocks move by the audio inserted before them (a gap precedes later blocks at the same offset)
+    const shiftedTimings = timings.map(timing => {
+        const insertedBefore = inserts
+            .filter(insert => getWavDuration(insert.offsetBytes) <= timing.start + 1e-6)
+            .reduce((acc, insert) => acc + insert.pcm.length, 0);
+        const delta = getWavDuration(insertedBefore);
+        return { ...timing, start: timing.start + delta, end: timing.end + delta };
+    });
+    const mergedTimings = [...shiftedTimings, ...recovered].sort((a, b) => a.blockIndex - b.blockIndex);
+
+    const blob = spliceWavPcm(wavBlob, inserts);
+    const pcmBytes = blob.size - WAV_HEADER_BYTES;
+    return { blob, result: { pcmBytes, durationSeconds: getWavDuration(pcmBytes), gaps: remaining, timings: mergedTimings } };
+};
+
+// --- SCRIPT EDITING ---
+
+const rewriteTurnSchema = {
+    type: Type.OBJECT,
+    properties: {
+        text: { type: Type.STRING },
+        scriptureRefs: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['text'],
+};
 
-export const createThumbnailPromptFromPost = async (title: string, description: string, prayer: string, language: string): Promise<string> => {
+// Rewrites a single turn following the user's instruction ("more scripture", "softer"...),
+// keeping the speaker and the flow with the neighbouring turns.
+export const rewriteScriptTurn = async (script: PrayerScript, sectionIndex: number, turnIndex: number, instruction: string, language: string): Promise<ScriptTurn> => {
     const model = 'gemini-2.5-flash';
     const langMap: {[key: string]: string} = { 'pt': 'Português', 'en': 'Inglês', 'es': 'Espanhol' };
-    const targetLangName = langMap[language] || 'Inglês';
+    const section = script.sections[sectionIndex];
+    const turn = section?.turns[turnIndex];
+    if (!turn) throw new Error(`Turn ${turnIndex + 1} of section ${sectionIndex + 1} does not exist.`);
+    const before = section.turns[turnIndex - 1];
+    const after = section.turns[turnIndex + 1];
 
     const systemInstruction = `
-    You are a world-class YouTube Strategist and Semiotics Expert, specialized in 'SEXY CANVAS' psychology to create High-CTR Thumbnails.
-    
-    YOUR GOAL: Generate a prompt for 'Imagen 4 Ultra' to create a VIRAL, CLICKBAIT-STYLE thumbnail based **STRICTLY** on the Marketing TITLE.
-    
-    CRITICAL RULES:
-    1. SOURCE OF TRUTH: Analyze **ONLY the TITLE** to determine the hook. Do NOT look at the description or prayer text for the text overlay content.
-    2. LANGUAGE MATCHING: Text inside the image MUST be in ${targetLangName}.
-    3. OUTPUT FORMAT: Return ONLY the raw prompt string in English.
-    4. TEXT STRUCTURE: The text overlay MUST consist of TWO SHORT PHRASES (Headline + Subheadline). The Subheadline MUST have at least 3 words. Use synonyms from the title to avoid exact repetition.
-    
-    SEXY CANVAS METHODOLOGY (Analyze the TITLE to choose the trigger):
-    - **Sloth (Laziness)**: If title promises fast results ("1 Minute"). Text Ex: "DURMA AGORA / PAZ INSTANTÂNEA AQUI".
-    - **Greed (Gain)**: If title promises blessings/money. Text Ex: "RECEBA TUDO / MILAGRE FINANCEIRO HOJE".
-    - **Wrath (Justice)**: If title mentions enemies. Text Ex: "ELES CAIRÃO / FOGO CONTRA O MAL".
-    - **Pride (Chosen)**: If title says "God chose you". Text Ex: "VOCÊ FOI / ESCOLHIDO POR DEUS".
-    - **Lust (Intimacy)**: If title talks about Love. Text Ex: "AMOR REAL / ELE TE OUVE AGORA".
-    
-    VISUAL FORMULA:
-    - **Subject**: Highly expressive human face (close up) showing emotion relevant to the hook OR Divine/Mystical silhouette with glowing aura.
-    - **Text Overlay**: Massive 3D font, High Contrast (Yellow/White on Dark).
-    - **Style**: Hyper-realistic, 8k, cinematic lighting, YouTube Clickbait style (MrBeast style high contrast).
+    You are editing one line of a guided prayer dialogue. Rewrite ONLY the given line.
+    - Keep the same speaker voice and write strictly in ${langMap[language] || 'Inglês'}.
+    - It must still flow from the previous line and into the next one.
+    - The only markup allowed are the English breathing cues already used in the script ("[pause 3s]", "[breathe in 4]", "[hold 2]", "[breathe out 6]").
+    - No meta text, no speaker names, no stage directions.
+    - List every Bible passage you quote in "scriptureRefs".
     `;
+    const contents = `
+    Section: "${section.title}"
+    ${before ? `Previous line (${before.speaker}): "${before.text}"` : ''}
+    LINE TO REWRITE (${turn.speaker}): "${turn.text}"
+    ${after ? `Next line (${after.speaker}): "${after.text}"` : ''}
 
-    const userPrompt = `
-    MARKETING TITLE: "${title}"
-    (Analyze ONLY this Title for the visual hook and text).
-    
-    CONTEXT (Mood only - DO NOT use for text):
-    Prayer Theme: "${prayer.substring(0, 100)}..."
-    
-    TASK:
-    1. Extract the 'Sexy Canvas' trigger from the TITLE.
-    2. Define the text overlay: TWO PHRASES in ${targetLangName}. Subtitle must be 3+ words. Use synonyms.
-    3. Generate the full image prompt describing the visual and the specific text to render.
+    Instruction: ${instruction || 'Improve it.'}
     `;
 
-    const response = await ai.models.generateContent({
+    const result = await withRetry(() => getProvider().generateJson<{ text: string; scriptureRefs?: string[] }>({
+        model,
+        contents,
+        systemInstruction,
+        temperature: 0.7,
+        responseSchema: rewriteTurnSchema,
+    }), { retries: 2, baseDelayMs: 2000 });
+    const text = result.text?.trim();
+    if (!text) throw new Error("The rewritten line came back empty.");
+    return { ...turn, text, scriptureRefs: result.scriptureRefs?.length ? result.scriptureRefs : turn.scriptureRefs };
+};
+
+// Byte offset of a time in the 16-bit mono PCM payload.
+const bytesAt = (seconds: number) => Math.round(seconds * SAMPLE_RATE) * 2;
+
+// Re-synthesizes the given turns of `script` (keys from turnKey) and swaps their audio into
+// `wavBlob`; every other block keeps its audio. A turn's span runs from its first to its last
+// spoken block, so pauses before or after it stay as they were. Fails without changes if any
+// block cannot be synthesized.
+export const revoiceScriptTurns = async (
+    wavBlob: Blob,
+    script: PrayerScript,
+    keys: string[],
+    timings: TimedBlock[],
+    multiSpeakerConfig?: MultiSpeakerConfig,
+    options: SpeechOptions = {}
+): Promise<{ blob: Blob; pcmBytes: number; timings: TimedBlock[] }> => {
+    const blocks = scriptToSpeechBlocks(script);
+    const targets = [...new Set(keys)].map(parseTurnKey);
+    const isTarget = (sectionIndex: number, turnIndex: number) => keys.includes(turnKey(sectionIndex, turnIndex));
+
+    // New blocks per turn, without the pauses at either end
+    const turnBlocks = targets.map(({ sectionIndex, turnIndex }) => {
+        const own = blocks.filter(block => block.sectionIndex === sectionIndex && block.turnIndex === turnIndex);
+        while (own.length > 0 && own[0].pauseSeconds) own.shift();
+        while (own.length > 0 && own[own.length - 1].pauseSeconds) own.pop();
+        return own;
+    });
+    const jobs = turnBlocks.flatMap((own, turn) => own.map(block => ({ turn, block })));
+
+    const synthesize = createBlockSynthesizer(multiSpeakerConfig);
+    const pcmByJob: Uint8Array[] = new Array(jobs.length);
+    const concurrency = options.concurrency ?? loadSettings().ttsConcurrency;
+    await runOrderedPool(jobs.length, concurrency, async (index) => {
+        const { block } = jobs[index];
+        return block.pauseSeconds ? createSilence(block.pauseSeconds) : synthesize(block.speaker, block.text, `block ${index + 1}`);
+    }, (pcm, index) => {
+        pcmByJob[index] = pcm || new Uint8Array(0); // Nothing speakable left after cleaning
+    });
+
+    // Old span of each turn; a turn that has no audio yet goes right after the audio that precedes it
+    const order = (timing: { sectionIndex: number; turnIndex: number }) => timing.sectionIndex * 1e6 + timing.turnIndex;
+    const replacements = targets.map((target, turn) => {
+        const old = timings.filter(timing => timing.sectionIndex === target.sectionIndex && timing.turnIndex === target.turnIndex);
+        const precedingEnd = timings.filter(timing => order(timing) < order(target)).reduce((acc, timing) => Math.max(acc, timing.end), 0);
+        const start = old.length > 0 ? old[0].start : precedingEnd;
+        const end = old.length > 0 ? old[old.length - 1].end : precedingEnd;
+        const pieces = jobs.map((job, index) => job.turn === turn ? pcmByJob[index] : null).filter((pcm): pcm is Uint8Array => !!pcm);
+        return { target, turn, startBytes: bytesAt(start), endBytes: bytesAt(end), pieces };
+    }).sort((a, b) => a.startBytes - b.startBytes);
+
+    // Timings: untouched blocks shift by the size change before them, re-voiced blocks are measured anew
+    const newTimings: TimedBlock[] = [];
+    let delta = 0;
+    let next = 0;
+    const kept = timings.filter(timing => !isTarget(timing.sectionIndex, timing.turnIndex));
+    for (const replacement of replacements) {
+        while (next < kept.length && bytesAt(kept[next].start) < replacement.endBytes) {
+            const shift = getWavDuration(delta);
+            newTimings.push({ ...kept[next], start: kept[next].start + shift, end: kept[next].end + shift });
+            next++;
+        }
+        let cursor = replacement.startBytes + delta;
+        turnBlocks[replacement.turn].forEach((block, i) => {
+            const pcm = replacement.pieces[i];
+            if (!block.pauseSeconds && pcm.length > 0) {
+                newTimings.push({
+                    blockIndex: 0,
+                    sectionIndex: block.sectionIndex,
+                    turnIndex: block.turnIndex,
+                    speaker: block.speaker,
+                    text: block.text,
+                    start: getWavDuration(cursor),
+                    end: getWavDuration(cursor + pcm.length),
+                });
+            }
+            cursor += pcm.length;
+        });
+        delta += cursor - (replacement.startBytes + delta) - (replacement.endBytes - replacement.startBytes);
+    }
+    for (; next < kept.length; next++) {
+        const shift = getWavDuration(delta);
+        newTimings.push({ ...kept[next], start: kept[next].start + shift, end: kept[next].end + shift });
+    }
+
+    // Block numbers follow the edited script
+    const spokenIndexes = new Map<string, number[]>();
+    blocks.forEach((block, index) => {
+        if (block.pauseSeconds) return;
+        const key = turnKey(block.sectionIndex, block.turnIndex);
+        spokenIndexes.set(key, [...(spokenIndexes.get(key) || []), index]);
+    });
+    const seen = new Map<string, number>();
+    const renumbered = newTimings.map(timing => {
+        const key = turnKey(timing.sectionIndex, timing.turnIndex);
+        const k = seen.get(key) || 0;
+        seen.set(key, k + 1);
+        return { ...timing, blockIndex: spokenIndexes.get(key)?.[k] ?? timing.blockIndex };
+    });
+
+    const blob = replaceWavRanges(wavBlob, replacements.map(({ startBytes, endBytes, pieces }) => ({ startBytes, endBytes, pcm: concatPcmChunks(pieces) })));
+    return { blob, pcmBytes: blob.size - WAV_HEADER_BYTES, timings: renumbered };
+};
+
+// --- SHORTS CLIPPING ---
+
+const shortClipSchema = {
+    type: Type.OBJECT,
+    properties: {
+        firstBlock: { type: Type.INTEGER },
+        lastBlock: { type: Type.INTEGER },
+        reason: { type: Type.STRING },
+    },
+    required: ['firstBlock', 'lastBlock'],
+};
+
+// Asks the model for the most compelling self-contained passage of a long narration and
+// fits its answer to the requested length, so a poor pick still yields a usable clip.
+export const chooseShortClip = async (timings: TimedBlock[], language: string, minSeconds: number = 45, maxSeconds: number = 60): Promise<ClipRange> => {
+    const model = 'gemini-2.5-flash';
+    const blockList = timings
+        .map((timing, i) => `[${i}] (${formatTimestamp(timing.start)}, ${(timing.end - timing.start).toFixed(1)}s) ${timing.speaker}: ${timing.text}`)
+        .join('\n');
+    const prompt = `
+    You are a short-form video editor for a spiritual channel (language: ${language}).
+    Below is the narration of a long guided prayer, one numbered block per line with its start time and length.
+    Choose the single most compelling passage to publish as a TikTok/Reels/Shorts clip:
+    - contiguous blocks lasting ${minSeconds} to ${maxSeconds} seconds in total;
+    - the first block must hook the listener on its own, without needing earlier context;
+    - it must end on a complete thought (a blessing, a promise or a strong image), never mid-sentence.
+    Return the numbers of the first and last block.
+
+    ${blockList}
+    `;
+    const choice = await withRetry(() => getProvider().generateJson<{ firstBlock: number; lastBlock: number; reason?: string }>({
         model,
-        contents: userPrompt,
-        config: { systemInstruction }
+        contents: prompt,
+        responseSchema: shortClipSchema,
+    }), { retries: 2, baseDelayMs: 2000 });
+    return { ...fitClipRange(timings, choice.firstBlock, choice.lastBlock, minSeconds, maxSeconds), reason: choice.reason };
+};
+
+// --- VISUAL GENERATION ---
+
+// Order in which A/B thumbnail variants are assigned a trigger.
+export const THUMBNAIL_TRIGGERS: ThumbnailTrigger[] = ['sloth', 'greed', 'wrath', 'pride', 'lust'];
+
+const TRIGGER_NAMES: Record<ThumbnailTrigger, string> = {
+    sloth: 'Sloth (Laziness)',
+    greed: 'Greed (Gain)',
+    wrath: 'Wrath (Justice)',
+    pride: 'Pride (Chosen)',
+    lust: 'Lust (Intimacy)',
+};
+
+const thumbnailDesignSchema = {
+    type: Type.OBJECT,
+    properties: {
+        imagePrompt: { type: Type.STRING, description: 'Image prompt in English. The scene must contain no text at all and leave clear space for the overlay.' },
+        headline: { type: Type.STRING, description: 'First overlay phrase, in the target language.' },
+        subheadline: { type: Type.STRING, description: 'Second overlay phrase (3+ words), in the target language.' },
+    },
+    required: ['imagePrompt', 'headline', 'subheadline'],
+};
+
+// Image models misspell text (accents above all), so the image is requested without any and
+// the headline is composited afterwards (utils/thumbnailCompositor.ts).
+const TEXT_FREE_SUFFIX = 'No text, letters, words, captions or logos anywhere in the image.';
+
+// Without `trigger` the model picks one from the title; variants force a different one each.
+export const createThumbnailDesignFromPost = async (title: string, description: string, prayer: string, language: string, trigger?: ThumbnailTrigger): Promise<ThumbnailDesign> => {
+    const model = 'gemini-2.5-flash';
+    const langMap: {[key: string]: string} = { 'pt': 'Português', 'en': 'Inglês', 'es': 'Espanhol' };
+    const targetLangName = langMap[language] || 'Inglês';
+
+    const { system: systemInstruction, user: userPrompt } = renderPrompt('thumbnail', {
+        title,
+        targetLang: targetLangName,
+        prayerExcerpt: prayer.substring(0, 100),
     });
-    return response.text || "Spiritual cinematic background with text overlay";
+    const contents = trigger
+        ? `${userPrompt}\n\nMANDATORY TRIGGER: build the hook and the text overlay on **${TRIGGER_NAMES[trigger]}**, whatever the title suggests.`
+        : userPrompt;
+
+    const design = await getProvider().generateJson<ThumbnailDesign>({ model, contents, systemInstruction, responseSchema: thumbnailDesignSchema });
+    const imagePrompt = design.imagePrompt?.trim() || "Spiritual cinematic background, dramatic light";
+    return { ...design, imagePrompt: `${imagePrompt}\n${TEXT_FREE_SUFFIX}` };
 };
 
 export const createMediaPromptFromPrayer = async (prayer: string, language: string): Promise<string> => {
@@ -298,69 +718,87 @@ export const createMediaPromptFromPrayer = async (prayer: string, language: stri
     No text in the image.
     Return ONLY the prompt in English.
     `;
-    const response = await ai.models.generateContent({ model, contents: prompt });
-    return response.text || "Ethereal spiritual background, cinematic lighting, 8k";
+    const text = await getProvider().generateText({ model, contents: prompt });
+    return text || "Ethereal spiritual background, cinematic lighting, 8k";
 };
 
 export const generateImageFromPrayer = async (prompt: string, aspectRatio: AspectRatio, model: string = 'imagen-3.0-generate-001'): Promise<string> => {
-    const response = await ai.models.generateImages({
-        model,
-        prompt,
-        config: {
-            numberOfImages: 1,
-            aspectRatio: aspectRatio,
-            outputMimeType: 'image/png',
-        },
-    });
-    return response.generatedImages[0].image.imageBytes;
+    return getProvider().generateImage({ model, prompt, aspectRatio });
 };
 
 export const generateVideo = async (prompt: string, aspectRatio: AspectRatio): Promise<string> => {
     // Video generation is expensive/slow, ensure we use the correct model
     const model = 'veo-3.1-fast-generate-preview'; 
-    let operation = await ai.models.generateVideos({
-        model,
-        prompt,
-        config: {
-            numberOfVideos: 1,
-            resolution: '720p',
-            aspectRatio: aspectRatio
-        }
-    });
-    
-    // Poll for completion
-    while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
-    
-    return operation.response?.generatedVideos?.[0]?.video?.uri || "";
+    return getProvider().generateVideo({ model, prompt, aspectRatio });
 };
 
 // --- MARKETING ASSETS GENERATION ---
 
-export const generateSocialMediaPost = async (prayer: string, language: string): Promise<SocialMediaPost> => {
+const socialMediaPostSchema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        description: { type: Type.STRING },
+        hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['title', 'description', 'hashtags'],
+};
+
+const youTubeLongPostSchema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        description: { type: Type.STRING },
+        hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        timestamps: { type: Type.STRING },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['title', 'description', 'hashtags', 'timestamps', 'tags'],
+};
+
+const titleVariantsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        titles: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['titles'],
+};
+
+// Returns `count` titles for A/B testing: the original first, then alternatives with other hooks.
+export const generateTitleVariants = async (title: string, theme: string, language: string, count: number): Promise<string[]> => {
+    if (count <= 1) return [title];
     const model = 'gemini-2.5-flash';
     const prompt = `
-    You are a Social Media Manager for a spiritual channel.
-    Create a viral Instagram/TikTok caption for this prayer: "${prayer.substring(0, 500)}..."
-    Language: ${language}
-    
-    Output format JSON:
-    {
-        "title": "Catchy Hook (Max 50 chars)",
-        "description": "Engaging caption with emojis (Max 300 chars)",
-        "hashtags": ["tag1", "tag2", "tag3", "tag4", "tag5"]
-    }
+    You are the YouTube packaging expert of a guided prayer channel (language: ${language}).
+    The video about "${theme}" is titled: "${title}"
+    Write ${count - 1} alternative titles for an A/B test. Each must use a different hook
+    (urgency, promise of relief, curiosity, identity, scripture) while keeping the same topic,
+    language, CAPS/emoji style and a length under 100 characters. Do not repeat the original.
     `;
-    
-    const response = await ai.models.generateContent({
+    const result = await withRetry(() => getProvider().generateJson<{ titles: string[] }>({
         model,
         contents: prompt,
-        config: { responseMimeType: "application/json" }
+        responseSchema: titleVariantsSchema,
+    }), { retries: 2, baseDelayMs: 2000 });
+    const alternatives = (result.titles || []).map(candidate => candidate.trim()).filter(candidate => candidate && candidate !== title);
+    return [title, ...Array.from(new Set(alternatives))].slice(0, count);
+};
+
+// `fullVideoTitle` is set for clips cut from a long video: the caption then points viewers to it.
+export const generateSocialMediaPost = async (prayer: string, language: string, fullVideoTitle?: string): Promise<SocialMediaPost> => {
+    const model = 'gemini-2.5-flash';
+    const { system, user } = renderPrompt('socialCaption', {
+        prayerExcerpt: prayer.substring(0, 500),
+        language,
+        fullVideoLine: fullVideoTitle ? `This is a clip from our full-length guided prayer "${fullVideoTitle}". End the description with a call to watch the full prayer on our channel (link in bio), quoting its title.` : '',
     });
     
-    return JSON.parse(response.text || "{}");
+    return getProvider().generateJson<SocialMediaPost>({
+        model,
+        contents: user,
+        ...(system ? { systemInstruction: system } : {}),
+        responseSchema: socialMediaPostSchema
+    });
 };
 
 export const generateYouTubeLongPost = async (theme: string, subthemes: string[], language: string, duration: number): Promise<YouTubeLongPost> => {
@@ -392,49 +830,20 @@ export const generateYouTubeLongPost = async (theme: string, subthemes: string[]
 🔗 SUBSCRIBE TO THE CHANNEL: https://www.youtube.com/@Faithin10Minutes
     `;
 
-    const systemInstruction = `
-    You are the SEO Expert for the channel '${isPT ? 'Fé em 10 Minutos' : 'Faith in 10 Minutes'}'.
-    Task: Create metadata for a ${duration}-minute guided prayer video about "${theme}".
-    
-    CRITICAL OUTPUT RULES:
-    1. **Title**: Must be CLICKBAIT/High-Urgency. Use CAPS and Emojis. Model: "POWERFUL ${duration} MIN PRAYER for [TOPIC] | ${isPT ? 'Fé em 10 Minutos' : 'Faith in 10 Minutes'}".
-    2. **Description**: 
-       - Paragraph 1: AIDA Copywriting hook (3 sentences). Start by repeating the exact Title.
-       - Paragraph 2: Describe the prayer using keywords: "powerful prayer", "guided prayer", "relationship with God".
-       - **MANDATORY**: Insert the LINKS BLOCK exactly as provided below (Do not translate URLs or change format).
-       - End with 3 strong hashtags: #Prayer #Faith #[TOPIC_No_Space]
-    3. **Tags**: Generate 20 high-volume tags mixed with long-tail keywords (e.g., Faith in 10 Minutes, ${duration} Minute Prayer, Powerful Prayer, [TOPIC], Daily Prayer).
-    4. **Timestamps**: Generate a list of chapters based on the subthemes. **DO NOT INCLUDE TIME CODES (00:00)**. Just the list of topics (e.g., "Introduction", "Prayer for [Subtheme 1]").
-    
-    MANDATORY LINKS BLOCK TO INSERT IN DESCRIPTION:
-    ${linksBlock}
-    `;
-
-    const prompt = `
-    Generate JSON for this video:
-    Theme: ${theme}
-    Subthemes: ${subthemes.join(', ')}
-    
-    Output Schema:
-    {
-        "title": "string",
-        "description": "string (including the links block)",
-        "hashtags": ["#string", "#string", "#string"],
-        "timestamps": "string (multiline list of topics, NO TIME CODES)",
-        "tags": ["string", "string", ...]
-    }
-    `;
+    const { system: systemInstruction, user: prompt } = renderPrompt('seoDescription', {
+        channelName: isPT ? 'Fé em 10 Minutos' : 'Faith in 10 Minutes',
+        theme,
+        subthemes: subthemes.join(', '),
+        duration,
+        linksBlock: linksBlock.trim(),
+    });
 
-    const response = await ai.models.generateContent({
+    return getProvider().generateJson<YouTubeLongPost>({
         model,
         contents: prompt,
-        config: { 
-            responseMimeType: "application/json",
-            systemInstruction
-        }
+        systemInstruction,
+        responseSchema: youTubeLongPostSchema
     });
-
-    return JSON.parse(response.text || "{}");
 };
 
 // --- ANALYSIS FUNCTIONS ---
@@ -451,17 +860,7 @@ export const analyzeImage = async (imageFile: File, prompt: string, language: st
 
     const userPrompt = prompt || (language === 'pt' ? "Analise esta imagem espiritualmente." : "Analyze this image spiritually.");
 
-    const response = await ai.models.generateContent({
-        model,
-        contents: {
-            parts: [
-                { inlineData: { mimeType: imageFile.type, data } },
-                { text: userPrompt }
-            ]
-        }
-    });
-
-    return response.text || "";
+    return getProvider().analyzeImage({ model, prompt: userPrompt, mimeType: imageFile.type, data });
 };
 
 export const getTrendingTopic = async (language: string, type: 'long' | 'short'): Promise<{theme: string, subthemes: string[]}> => {
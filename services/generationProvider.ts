@@ -0,0 +1,82 @@
+import { Schema } from "@google/genai";
+import { AspectRatio } from '../types';
+import { ProviderName, loadSettings } from '../settings';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export interface TextRequest {
+    model: string;
+    contents: string;
+    systemInstruction?: string;
+    temperature?: number;
+}
+
+export interface JsonRequest extends TextRequest {
+    responseSchema?: Schema;
+}
+
+export interface SpeechRequest {
+    model: string;
+    text: string;
+    voiceName: string;
+}
+
+export interface ImageRequest {
+    model: string;
+    prompt: string;
+    aspectRatio: AspectRatio;
+}
+
+export interface VideoRequest {
+    model: string;
+    prompt: string;
+    aspectRatio: AspectRatio;
+}
+
+export interface VisionRequest {
+    model: string;
+    prompt: string;
+    mimeType: string;
+    data: string; // base64
+}
+
+// Every backend the generation pipeline can run against implements this contract.
+// Services pick the model names; providers only know how to talk to their backend.
+export interface GenerationProvider {
+    readonly name: ProviderName;
+    generateText: (request: TextRequest) => Promise<string>;
+    generateJson: <T>(request: JsonRequest) => Promise<T>;
+    // Returns raw 24kHz 16-bit mono PCM, or null when the backend produced no audio.
+    generateSpeech: (request: SpeechRequest) => Promise<Uint8Array | null>;
+    // Returns the PNG bytes as a base64 string.
+    generateImage: (request: ImageRequest) => Promise<string>;
+    // Returns a download URI for the generated clip.
+    generateVideo: (request: VideoRequest) => Promise<string>;
+    analyzeImage: (request: VisionRequest) => Promise<string>;
+}
+
+// The agent worker cannot read the page's environment, so the page passes the key along (services/agentWorker.ts).
+let workerApiKey: string | undefined;
+
+export const setWorkerApiKey = (apiKey: string | undefined) => {
+    if (apiKey !== workerApiKey) activeProvider = null;
+    workerApiKey = apiKey;
+};
+
+const factories: { [key in ProviderName]: () => GenerationProvider } = {
+    gemini: () => createGeminiProvider(workerApiKey ?? process.env.API_KEY),
+    mock: createMockProvider,
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+// The provider is resolved once per page load from the persisted settings,
+// so switching backends in the Settings view takes effect after a reload.
+export const getProvider = (): GenerationProvider => {
+    if (!activeProvider) {
+        const { generationProvider } = loadSettings();
+        const factory = factories[generationProvider] || factories.gemini;
+        activeProvider = factory();
+    }
+    return activeProvider;
+};
@@ -0,0 +1,160 @@
+import { Schema, Type } from "@google/genai";
+import { GenerationProvider, JsonRequest } from './generationProvider';
+import { AspectRatio } from '../types';
+import { SAMPLE_RATE } from '../utils/audio';
+
+// Offline, deterministic stand-in for the Gemini backend.
+// Lets the BotAgent and the UI be rehearsed without an API key or quota.
+
+const WORDS_PER_SECOND = 2.5;
+
+const CANNED_LINES = [
+    "Roberta Erickson: Take a slow breath now [breathe in 4] [breathe out 6] and notice how your body already knows how to rest in His presence.",
+    "Milton Dilts: And as you breathe out, you may begin to feel a quiet warmth, like morning light over still water.",
+    "Roberta Erickson: Remember the Psalm: \"Be still, and know that I am God.\" Let each word settle gently inside you.",
+    "Milton Dilts: Every sound around you can become a reminder that you are held, protected and deeply loved.",
+    "Roberta Erickson: Bring to mind the burden you carried today, and imagine placing it softly into His hands.",
+    "Milton Dilts: Notice how much lighter you can feel, breath after breath, as peace flows through you.",
+    "Roberta Erickson: Rest here for a moment. [pause 3s] Nothing to do, nothing to prove, only grace receiving you.",
+    "Milton Dilts: And when you are ready, carry this calm with you, blessed and renewed. Amen.",
+];
+
+const ASPECT_DIMENSIONS: { [key in AspectRatio]: [number, number] } = {
+    '16:9': [1280, 720],
+    '9:16': [720, 1280],
+    '1:1': [1024, 1024],
+    '4:3': [1024, 768],
+    '3:4': [768, 1024],
+};
+
+// Small FNV-1a hash so the same request always yields the same output.
+const hashString = (value: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+const simulateLatency = (ms: number = 300) => new Promise(resolve => setTimeout(resolve, ms));
+
+const cannedScript = (seed: string, lineCount: number = CANNED_LINES.length): string => {
+    const start = hashString(seed) % CANNED_LINES.length;
+    const lines: string[] = [];
+    for (let i = 0; i < lineCount; i++) {
+        lines.push(CANNED_LINES[(start + i) % CANNED_LINES.length]);
+    }
+    return lines.join('\n\n');
+};
+
+const cannedLineText = (index: number): string => CANNED_LINES[index % CANNED_LINES.length].replace(/^[^:]+:\s*/, '');
+
+// Builds a deterministic value that satisfies the response schema. Array items get their
+// index so enums (e.g. speakers) alternate and free-text fields read like a real script.
+const mockValueFromSchema = (schema: Schema | undefined, key: string, seed: string, index: number = 0): unknown => {
+    switch (schema?.type) {
+        case Type.OBJECT: {
+            const result: { [key: string]: unknown } = {};
+            for (const [prop, propSchema] of Object.entries(schema.properties || {})) {
+                result[prop] = mockValueFromSchema(propSchema, prop, seed, index);
+            }
+            return result;
+        }
+        case Type.ARRAY: {
+            const offset = hashString(seed) % CANNED_LINES.length;
+            const count = schema.items?.type === Type.OBJECT ? CANNED_LINES.length : 3;
+            return Array.from({ length: count }, (_, i) => mockValueFromSchema(schema.items, `${key} ${i + 1}`, seed, offset + i));
+        }
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 1;
+        case Type.BOOLEAN:
+            return false;
+        case Type.STRING:
+            if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+            if (key === 'text') return cannedLineText(index);
+            return `Mock ${key} (${hashString(seed + key) % 1000})`;
+        default:
+            return {};
+    }
+};
+
+const createSinePcm = (seconds: number, frequency: number): Uint8Array => {
+    const frameCount = Math.max(1, Math.round(seconds * SAMPLE_RATE));
+    const samples = new Int16Array(frameCount);
+    const fadeFrames = Math.min(frameCount / 2, SAMPLE_RATE * 0.05);
+    for (let i = 0; i < frameCount; i++) {
+        const fade = Math.min(1, i / fadeFrames, (frameCount - i) / fadeFrames);
+        samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.2 * fade * 32767);
+    }
+    return new Uint8Array(samples.buffer);
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const createPlaceholderPng = async (label: string, aspectRatio: AspectRatio, seed: string): Promise<string> => {
+    const [width, height] = ASPECT_DIMENSIONS[aspectRatio] || ASPECT_DIMENSIONS['1:1'];
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Placeholder image rendering is not supported in this browser.");
+
+    const hue = hashString(seed) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 18%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 55%, 42%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(Math.min(width, height) / 10)}px sans-serif`;
+    ctx.fillText('MOCK', width / 2, height / 2 - height / 14);
+    ctx.font = `${Math.round(Math.min(width, height) / 24)}px sans-serif`;
+    ctx.fillText(`${label} · ${aspectRatio}`, width / 2, height / 2 + height / 14);
+
+    return blobToBase64(await canvas.convertToBlob({ type: 'image/png' }));
+};
+
+export const createMockProvider = (): GenerationProvider => ({
+    name: 'mock',
+
+    generateText: async ({ contents, systemInstruction }) => {
+        await simulateLatency();
+        return cannedScript(`${systemInstruction || ''}${contents}`);
+    },
+
+    generateJson: async <T,>({ contents, responseSchema }: JsonRequest) => {
+        await simulateLatency();
+        return mockValueFromSchema(responseSchema, 'value', contents) as T;
+    },
+
+    generateSpeech: async ({ text, voiceName }) => {
+        await simulateLatency(100);
+        const words = text.split(/\s+/).filter(Boolean).length;
+        const frequency = 180 + (hashString(voiceName) % 200);
+        return createSinePcm(words / WORDS_PER_SECOND, frequency);
+    },
+
+    generateImage: async ({ model, prompt, aspectRatio }) => {
+        await simulateLatency();
+        return createPlaceholderPng(model, aspectRatio, prompt);
+    },
+
+    generateVideo: async () => {
+        throw new Error("Video generation is not available with the mock provider.");
+    },
+
+    analyzeImage: async ({ prompt }) => {
+        await simulateLatency();
+        return `Mock analysis: this image speaks of light, stillness and hope.\n\nPrompt received: "${prompt}"`;
+    },
+});
@@ -0,0 +1,222 @@
+import { loadSettings, PromptTemplateStore } from '../settings';
+import { PromptTemplateId, PromptTemplateVersion, PromptVersionMap } from '../types';
+
+// Prompts sent to the text model, editable from Settings. Version 1 of every template is
+// the built-in text below; saved edits become versions 2, 3, ... and one of them is active.
+
+export interface PromptVariable {
+    name: string;
+    sample: string; // Value used by the preview in Settings.
+}
+
+export interface PromptTemplateDefinition {
+    id: PromptTemplateId;
+    nameKey: string; // i18n key
+    variables: PromptVariable[];
+    builtIn: { system: string; user: string };
+}
+
+export const BUILT_IN_VERSION = 1;
+
+export const PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+    {
+        id: 'guidedPrayer',
+        nameKey: 'promptTemplateGuidedPrayer',
+        variables: [
+            { name: 'theme', sample: 'Healing Anxiety' },
+            { name: 'targetLang', sample: 'Inglês' },
+            { name: 'duration', sample: '10' },
+            { name: 'castDescription', sample: '"Roberta Erickson" (Voice: Aoede, Soft, NLP Guide) and "Milton Dilts" (Voice: Enceladus, Deep, Hypnotic Voice)' },
+            { name: 'speakerList', sample: '"Roberta Erickson" or "Milton Dilts"' },
+            { name: 'part', sample: '2' },
+            { name: 'totalParts', sample: '3' },
+            { name: 'partWords', sample: '1100' },
+            { name: 'partMinutes', sample: '7' },
+            { name: 'stageGoal', sample: '- Deepening: Biblical metaphors (David/Solomon/Jesus), PNL ressignification, sensory immersion. Expand on the theme.' },
+            { name: 'previousContext', sample: 'CONTEXT FROM PREVIOUS BLOCK: "...and as you breathe, let the peace settle."' },
+        ],
+        builtIn: {
+            system: `You are a Master of Guided Prayer and Erickson Hypnosis.
+Your goal is to write a DEEPLY THERAPEUTIC dialogue script.
+
+CRITICAL RULES:
+1. CHARACTERS: The dialogue MUST be exclusively between {castDescription}.
+2. FORMAT: Return the dialogue as JSON turns. Each turn's "speaker" is exactly {speakerList} and its "text" holds only the spoken words. Do NOT use other names.
+3. LANGUAGE: Write strictly in {targetLang}.
+4. NO META-DATA: Do NOT write introductions like "Here is the script", summaries, or stage directions in parentheses at the start of lines. Just the dialogue.
+5. DENSITY: Write extensive, rich, poetic text. Use sensory descriptions (VAK), loops, and embedded commands.
+6. PACING: The only markup allowed inside "text" are breathing cues, always in English: "[pause 3s]" for silence, "[breathe in 4]", "[hold 2]" and "[breathe out 6]" for guided breaths (numbers are seconds). Place them where the listener needs space to breathe or let a suggestion sink in, and use "pauseAfterSeconds" for longer silences between turns.
+7. GOLDEN THREAD: The central theme "{theme}" must be woven into every paragraph to maintain focus.
+
+STRUCTURAL GOAL FOR THIS BLOCK (Part {part} of {totalParts}):
+{stageGoal}
+
+{previousContext}`,
+            user: `Write Part {part}/{totalParts} of the prayer about "{theme}".
+Duration target for this block: ~{partMinutes} minutes of spoken text (approx {partWords} words).
+Keep the flow continuous. List every Bible passage you quote in "scriptureRefs".`,
+        },
+    },
+    {
+        id: 'thumbnail',
+        nameKey: 'promptTemplateThumbnail',
+        variables: [
+            { name: 'title', sample: 'POWERFUL 10 MIN PRAYER for Healing Anxiety | Faith in 10 Minutes' },
+            { name: 'targetLang', sample: 'Inglês' },
+            { name: 'prayerExcerpt', sample: 'Roberta Erickson: Breathe in slowly and let the Lord meet you here...' },
+        ],
+        builtIn: {
+            system: `You are a world-class YouTube Strategist and Semiotics Expert, specialized in 'SEXY CANVAS' psychology to create High-CTR Thumbnails.
+
+YOUR GOAL: Plan a VIRAL, CLICKBAIT-STYLE thumbnail based **STRICTLY** on the Marketing TITLE: a prompt for 'Imagen 4 Ultra' and the two phrases we overlay on the image ourselves.
+
+CRITICAL RULES:
+1. SOURCE OF TRUTH: Analyze **ONLY the TITLE** to determine the hook. Do NOT look at the description or prayer text for the text overlay content.
+2. LANGUAGE MATCHING: The overlay phrases MUST be in {targetLang}.
+3. OUTPUT FORMAT: The image prompt is in English and describes the picture ONLY: the image must contain NO text, letters or logos. The phrases go in "headline" and "subheadline".
+4. TEXT STRUCTURE: The text overlay MUST consist of TWO SHORT PHRASES (Headline + Subheadline). The Subheadline MUST have at least 3 words. Use synonyms from the title to avoid exact repetition.
+
+SEXY CANVAS METHODOLOGY (Analyze the TITLE to choose the trigger):
+- **Sloth (Laziness)**: If title promises fast results ("1 Minute"). Text Ex: "DURMA AGORA / PAZ INSTANTÂNEA AQUI".
+- **Greed (Gain)**: If title promises blessings/money. Text Ex: "RECEBA TUDO / MILAGRE FINANCEIRO HOJE".
+- **Wrath (Justice)**: If title mentions enemies. Text Ex: "ELES CAIRÃO / FOGO CONTRA O MAL".
+- **Pride (Chosen)**: If title says "God chose you". Text Ex: "VOCÊ FOI / ESCOLHIDO POR DEUS".
+- **Lust (Intimacy)**: If title talks about Love. Text Ex: "AMOR REAL / ELE TE OUVE AGORA".
+
+VISUAL FORMULA:
+- **Subject**: Highly expressive human face (close up) showing emotion relevant to the hook OR Divine/Mystical silhouette with glowing aura.
+- **Space for the Overlay**: Keep the top or bottom third calm and dark enough for massive High Contrast text (Yellow/White on Dark) added later.
+- **Style**: Hyper-realistic, 8k, cinematic lighting, YouTube Clickbait style (MrBeast style high contrast).`,
+            user: `MARKETING TITLE: "{title}"
+(Analyze ONLY this Title for the visual hook and text).
+
+CONTEXT (Mood only - DO NOT use for text):
+Prayer Theme: "{prayerExcerpt}..."
+
+TASK:
+1. Extract the 'Sexy Canvas' trigger from the TITLE.
+2. Define the text overlay: TWO PHRASES in {targetLang}. Subtitle must be 3+ words. Use synonyms.
+3. Generate the full image prompt describing the visual only, with no text in it.`,
+        },
+    },
+    {
+        id: 'seoDescription',
+        nameKey: 'promptTemplateSeoDescription',
+        variables: [
+            { name: 'channelName', sample: 'Faith in 10 Minutes' },
+            { name: 'theme', sample: 'Healing Anxiety' },
+            { name: 'subthemes', sample: 'Surrender, Peace of mind, Trust' },
+            { name: 'duration', sample: '10' },
+            { name: 'linksBlock', sample: '🔗 SUBSCRIBE TO THE CHANNEL: https://www.youtube.com/@Faithin10Minutes' },
+        ],
+        builtIn: {
+            system: `You are the SEO Expert for the channel '{channelName}'.
+Task: Create metadata for a {duration}-minute guided prayer video about "{theme}".
+
+CRITICAL OUTPUT RULES:
+1. **Title**: Must be CLICKBAIT/High-Urgency. Use CAPS and Emojis. Model: "POWERFUL {duration} MIN PRAYER for [TOPIC] | {channelName}".
+2. **Description**:
+   - Paragraph 1: AIDA Copywriting hook (3 sentences). Start by repeating the exact Title.
+   - Paragraph 2: Describe the prayer using keywords: "powerful prayer", "guided prayer", "relationship with God".
+   - **MANDATORY**: Insert the LINKS BLOCK exactly as provided below (Do not translate URLs or change format).
+   - End with 3 strong hashtags: #Prayer #Faith #[TOPIC_No_Space]
+3. **Tags**: Generate 20 high-volume tags mixed with long-tail keywords (e.g., Faith in 10 Minutes, {duration} Minute Prayer, Powerful Prayer, [TOPIC], Daily Prayer).
+4. **Timestamps**: Generate one chapter line per subtheme, in order, each quoting the subtheme's words (e.g., "Prayer for [Subtheme 1]"). **DO NOT INCLUDE TIME CODES (00:00)**: they are added from the finished audio.
+
+MANDATORY LINKS BLOCK TO INSERT IN DESCRIPTION:
+{linksBlock}`,
+            user: `Generate JSON for this video:
+Theme: {theme}
+Subthemes: {subthemes}
+
+Output Schema:
+{
+    "title": "string",
+    "description": "string (including the links block)",
+    "hashtags": ["#string", "#string", "#string"],
+    "timestamps": "string (multiline list of topics, NO TIME CODES)",
+    "tags": ["string", "string", ...]
+}`,
+        },
+    },
+    {
+        id: 'socialCaption',
+        nameKey: 'promptTemplateSocialCaption',
+        variables: [
+            { name: 'prayerExcerpt', sample: 'Roberta Erickson: Breathe in slowly and let the Lord meet you here...' },
+            { name: 'language', sample: 'en' },
+            { name: 'fullVideoLine', sample: 'This is a clip from our full-length guided prayer "POWERFUL 10 MIN PRAYER". End the description with a call to watch the full prayer on our channel (link in bio), quoting its title.' },
+        ],
+        builtIn: {
+            system: '',
+            user: `You are a Social Media Manager for a spiritual channel.
+Create a viral Instagram/TikTok caption for this prayer: "{prayerExcerpt}..."
+Language: {language}
+{fullVideoLine}
+
+Output format JSON:
+{
+    "title": "Catchy Hook (Max 50 chars)",
+    "description": "Engaging caption with emojis (Max 300 chars)",
+    "hashtags": ["tag1", "tag2", "tag3", "tag4", "tag5"]
+}`,
+        },
+    },
+];
+
+export const findPromptTemplate = (id: PromptTemplateId): PromptTemplateDefinition => {
+    const template = PROMPT_TEMPLATES.find(candidate => candidate.id === id);
+    if (!template) throw new Error(`Unknown prompt template "${id}".`);
+    return template;
+};
+
+// Every version of a template, built-in first.
+export const promptTemplateVersions = (id: PromptTemplateId, store: PromptTemplateStore = loadSettings().promptTemplates): PromptTemplateVersion[] => {
+    const { builtIn } = findPromptTemplate(id);
+    return [
+        { version: BUILT_IN_VERSION, ...builtIn, createdAt: 0 },
+        ...(store[id]?.versions || []),
+    ];
+};
+
+export const activePromptVersion = (id: PromptTemplateId, store: PromptTemplateStore = loadSettings().promptTemplates): PromptTemplateVersion => {
+    const versions = promptTemplateVersions(id, store);
+    const active = store[id]?.activeVersion ?? BUILT_IN_VERSION;
+    return versions.find(version => version.version === active) || versions[0];
+};
+
+// Versions that the next generation will use, for recording on history items.
+export const activePromptVersions = (ids: PromptTemplateId[]): PromptVersionMap => {
+    const store = loadSettings().promptTemplates;
+    return Object.fromEntries(ids.map(id => [id, activePromptVersion(id, store).version]));
+};
+
+// Stores an edit as the next version and makes it the active one.
+export const addPromptVersion = (store: PromptTemplateStore, id: PromptTemplateId, text: { system: string; user: string; note?: string }): PromptTemplateStore => {
+    const versions = store[id]?.versions || [];
+    const version = Math.max(BUILT_IN_VERSION, ...versions.map(v => v.version)) + 1;
+    return { ...store, [id]: { activeVersion: version, versions: [...versions, { version, ...text, createdAt: Date.now() }] } };
+};
+
+export const setActivePromptVersion = (store: PromptTemplateStore, id: PromptTemplateId, version: number): PromptTemplateStore =>
+    ({ ...store, [id]: { versions: store[id]?.versions || [], activeVersion: version } });
+
+// Placeholders in `text` that the template does not provide.
+export const unknownPromptVariables = (id: PromptTemplateId, text: string): string[] => {
+    const known = new Set(findPromptTemplate(id).variables.map(variable => variable.name));
+    const used = Array.from(text.matchAll(/\{(\w+)\}/g), match => match[1]);
+    return Array.from(new Set(used.filter(name => !known.has(name))));
+};
+
+// Replaces `{name}` placeholders; unknown names are left as written so literal braces survive.
+export const renderPromptText = (text: string, variables: Record<string, string | number>): string =>
+    text.replace(/\{(\w+)\}/g, (match, name) => name in variables ? String(variables[name]) : match);
+
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string | number>) => {
+    const active = activePromptVersion(id);
+    return {
+        version: active.version,
+        system: renderPromptText(active.system, variables).trim(),
+        user: renderPromptText(active.user, variables).trim(),
+    };
+};
@@ -0,0 +1,74 @@
+import { MarketingHistoryItem } from '../types';
+import { idb } from '../hooks/usePersistentState';
+import { loadSettings } from '../settings';
+import { SAMPLE_RATE, extractClip, float32ToWav } from '../utils/audio';
+import { decodeAudioBlob, encodeAudio } from '../utils/audioEncoder';
+import { clipScript, clipTimings } from '../utils/clips';
+import { scriptToText } from '../utils/prayerScript';
+import { createSubtitleFiles } from '../utils/subtitles';
+import { chooseShortClip, generateSocialMediaPost } from './geminiService';
+import { generateComposedThumbnail } from './thumbnails';
+import { activePromptVersions } from './promptTemplates';
+
+// Lead-in before the first word and room after the last one.
+const CLIP_PRE_ROLL_SECONDS = 0.3;
+const CLIP_POST_ROLL_SECONDS = 0.8;
+
+// Cuts the best 45-60 s of a long item's narration into a new short kit (audio, subtitles,
+// 9:16 visual and a caption pointing back to the full video). The caller adds it to the history.
+export const createShortFromLongItem = async (item: MarketingHistoryItem): Promise<MarketingHistoryItem> => {
+    const audioKey = item.mixedAudioBlobKey || item.audioBlobKey;
+    if (!audioKey || !item.timings?.length) throw new Error("This item has no timed narration to clip.");
+    const source = await idb.get<Blob>(audioKey);
+    if (!source) throw new Error("The narration is missing from storage.");
+
+    const range = await chooseShortClip(item.timings, item.language);
+    const samples = await decodeAudioBlob(source);
+    const clipStart = Math.max(0, range.start - CLIP_PRE_ROLL_SECONDS);
+    const clip = extractClip(samples, clipStart, range.end + CLIP_POST_ROLL_SECONDS);
+    const parentTitle = item.longPost?.title || item.prompt;
+    const { script, timings } = clipScript(clipTimings(item.timings, range, clipStart), parentTitle);
+    const prayer = scriptToText(script);
+    const promptVersions = activePromptVersions(['socialCaption', 'thumbnail']);
+    const socialPost = await generateSocialMediaPost(prayer, item.language, parentTitle);
+    const { blob: imageBlob } = await generateComposedThumbnail(socialPost.title, socialPost.description, prayer, item.language, '9:16');
+
+    const { audioExport } = loadSettings();
+    const id = `${Date.now()}-${item.language}-clip`;
+    const audioBlobKey = `history_audio_${id}`;
+    const imageBlobKey = `history_image_${id}`;
+    const srtBlobKey = `history_srt_${id}`;
+    const vttBlobKey = `history_vtt_${id}`;
+    const subtitles = createSubtitleFiles(timings);
+    await Promise.all([
+        idb.set(audioBlobKey, await encodeAudio(float32ToWav(clip), audioExport)),
+        idb.set(imageBlobKey, imageBlob),
+        idb.set(srtBlobKey, subtitles.srt),
+        idb.set(vttBlobKey, subtitles.vtt),
+    ]);
+
+    return {
+        id,
+        timestamp: Date.now(),
+        type: 'short',
+        language: item.language,
+        prompt: item.prompt,
+        subthemes: [],
+        prayer,
+        script,
+        socialPost,
+        longPost: null,
+        audioBlobKey,
+        audioDurationSeconds: clip.length / SAMPLE_RATE,
+        audioFormat: audioExport.format,
+        timings,
+        srtBlobKey,
+        vttBlobKey,
+        imageBlobKey,
+        parentId: item.id,
+        clipStartSeconds: clipStart,
+        clipReason: range.reason,
+        promptVersions,
+        isDownloaded: false,
+    };
+};
@@ -0,0 +1,40 @@
+import { AspectRatio, ThumbnailDesign, ThumbnailTrigger } from '../types';
+import { loadSettings } from '../settings';
+import { composeThumbnail } from '../utils/thumbnailCompositor';
+import { createThumbnailDesignFromPost, generateImageFromPrayer } from './geminiService';
+
+const THUMBNAIL_MODEL = 'imagen-4.0-generate-001';
+
+// The text-free image of a design, before the overlay is drawn.
+export const generateThumbnailBase = async (design: ThumbnailDesign, aspectRatio: AspectRatio): Promise<Blob> => {
+    const imageB64 = await generateImageFromPrayer(design.imagePrompt, aspectRatio, THUMBNAIL_MODEL);
+    if (!imageB64) throw new Error("Image generation failed");
+    return (await fetch(`data:image/png;base64,${imageB64}`)).blob();
+};
+
+// Design and text-free image. The overlay is drawn separately because it needs a document,
+// which the agent worker does not have.
+export const generateThumbnailDraft = async (
+    title: string,
+    description: string,
+    prayer: string,
+    language: string,
+    aspectRatio: AspectRatio,
+    trigger?: ThumbnailTrigger,
+): Promise<{ design: ThumbnailDesign; base: Blob }> => {
+    const design = await createThumbnailDesignFromPost(title, description, prayer, language, trigger);
+    return { design, base: await generateThumbnailBase(design, aspectRatio) };
+};
+
+// Design, image and overlay in one go with the channel style from settings, for unattended runs.
+export const generateComposedThumbnail = async (
+    title: string,
+    description: string,
+    prayer: string,
+    language: string,
+    aspectRatio: AspectRatio,
+    trigger?: ThumbnailTrigger,
+): Promise<{ design: ThumbnailDesign; blob: Blob }> => {
+    const { design, base } = await generateThumbnailDraft(title, description, prayer, language, aspectRatio, trigger);
+    return { design, blob: await composeThumbnail(base, design, loadSettings().thumbnailStyle) };
+};
@@ -0,0 +1,150 @@
+import { AudioFormat, PromptTemplateId, PromptTemplateVersion, VoiceCastMember } from './types';
+
+export type ProviderName = 'gemini' | 'mock';
+
+export interface AmbienceSettings {
+    enabled: boolean; // Mix automatically in agent runs.
+    source: 'procedural' | 'custom';
+    bedLevelDb: number; // Bed level before normalization.
+    duckDb: number; // Extra attenuation while someone is speaking.
+    fadeInSeconds: number;
+    fadeOutSeconds: number;
+}
+
+export interface MasteringSettings {
+    enabled: boolean;
+    targetLufs: number; // Integrated loudness of the final file (YouTube plays back at about -14).
+    ceilingDb: number; // Limiter ceiling.
+}
+
+export interface AudioExportSettings {
+    format: AudioFormat; // Used for history storage and ZIP export.
+    mp3BitrateKbps: number;
+    keepWav: boolean; // Also store the uncompressed narration.
+}
+
+// Brand style of the headline and subheadline drawn over generated thumbnails.
+export interface ThumbnailStyle {
+    fontFamily: string; // One of THUMBNAIL_FONTS.
+    headlineColor: string;
+    subheadlineColor: string;
+    strokeColor: string;
+    strokeWidth: number; // Outline thickness as a fraction of the font size.
+    shadow: boolean;
+    uppercase: boolean;
+    position: 'top' | 'center' | 'bottom';
+}
+
+// Edited prompt templates; the built-in text (version 1) lives in services/promptTemplates.ts.
+export type PromptTemplateStore = Partial<Record<PromptTemplateId, { activeVersion: number; versions: PromptTemplateVersion[] }>>;
+
+// Custom ambience bed uploaded in settings (IndexedDB key).
+export const AMBIENCE_BED_BLOB_KEY = 'ambience_custom_bed';
+
+export interface AppSettings {
+    generationProvider: ProviderName;
+    ttsConcurrency: number; // Speech blocks synthesized in parallel.
+    voiceCast: VoiceCastMember[];
+    ambience: AmbienceSettings;
+    mastering: MasteringSettings;
+    audioExport: AudioExportSettings;
+    promptTemplates: PromptTemplateStore;
+    variantCount: number; // Titles and thumbnails generated per kit; 1 turns A/B variants off.
+    thumbnailStyle: ThumbnailStyle;
+}
+
+export const SETTINGS_STORAGE_KEY = 'app_settings';
+
+export const defaultSettings: AppSettings = {
+    generationProvider: 'gemini',
+    ttsConcurrency: 3,
+    voiceCast: [
+        { id: 'roberta', name: 'Roberta Erickson', persona: 'Soft, NLP Guide', voice: 'Aoede', language: 'all' },
+        { id: 'milton', name: 'Milton Dilts', persona: 'Deep, Hypnotic Voice', voice: 'Enceladus', language: 'all' },
+    ],
+    ambience: {
+        enabled: false,
+        source: 'procedural',
+        bedLevelDb: -18,
+        duckDb: -10,
+        fadeInSeconds: 4,
+        fadeOutSeconds: 6,
+    },
+    mastering: {
+        enabled: true,
+        targetLufs: -16,
+        ceilingDb: -1,
+    },
+    audioExport: {
+        format: 'mp3',
+        mp3BitrateKbps: 64,
+        keepWav: false,
+    },
+    promptTemplates: {},
+    variantCount: 1,
+    thumbnailStyle: {
+        fontFamily: 'Anton',
+        headlineColor: '#facc15',
+        subheadlineColor: '#ffffff',
+        strokeColor: '#000000',
+        strokeWidth: 0.12,
+        shadow: true,
+        uppercase: true,
+        position: 'bottom',
+    },
+};
+
+export const TTS_CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+export const VARIANT_COUNT_OPTIONS = [1, 2, 3, 4, 5];
+
+// Channel fonts, loaded from Google Fonts in index.html.
+export const THUMBNAIL_FONTS: { family: string; weight: number }[] = [
+    { family: 'Anton', weight: 400 },
+    { family: 'Bebas Neue', weight: 400 },
+    { family: 'Montserrat', weight: 900 },
+    { family: 'Oswald', weight: 700 },
+];
+
+export const LOUDNESS_TARGETS = [-23, -18, -16, -14];
+
+// MPEG-2 Layer III bitrates valid at 24 kHz.
+export const MP3_BITRATES = [48, 64, 96, 128, 160];
+
+// Prebuilt voices offered by the Gemini TTS models.
+export const TTS_VOICES = [
+    'Achernar', 'Achird', 'Algenib', 'Algieba', 'Alnilam', 'Aoede', 'Autonoe', 'Callirrhoe', 'Charon', 'Despina',
+    'Enceladus', 'Erinome', 'Fenrir', 'Gacrux', 'Iapetus', 'Kore', 'Laomedeia', 'Leda', 'Orus', 'Puck',
+    'Pulcherrima', 'Rasalgethi', 'Sadachbia', 'Sadaltager', 'Schedar', 'Sulafat', 'Umbriel', 'Vindemiatrix', 'Zephyr', 'Zubenelgenubi',
+];
+
+// The agent worker has no localStorage, so the page hands it a copy (services/agentWorker.ts).
+let workerSettings: AppSettings | null = null;
+
+export const setWorkerSettings = (settings: AppSettings) => {
+    workerSettings = { ...defaultSettings, ...settings };
+};
+
+// Reads the persisted settings outside of React (services, agent jobs).
+// Missing fields fall back to their defaults so older stored objects keep working.
+export const loadSettings = (): AppSettings => {
+    if (workerSettings) return workerSettings;
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (stored) {
+            return { ...defaultSettings, ...JSON.parse(stored) };
+        }
+    } catch (error) {
+        console.error(`Error reading settings from localStorage:`, error);
+    }
+    return defaultSettings;
+};
+
+// Narrators for a given content language: members tagged with that language win over 'all'.
+// Falls back to the default cast so generation never runs without speakers.
+export const castForLanguage = (cast: VoiceCastMember[], language: string): VoiceCastMember[] => {
+    const valid = cast.filter(member => member.name.trim() && member.voice);
+    const specific = valid.filter(member => member.language === language);
+    if (specific.length > 0) return specific;
+    const shared = valid.filter(member => member.language === 'all');
+    return shared.length > 0 ? shared : defaultSettings.voiceCast;
+};
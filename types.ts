@@ -13,9 +13,29 @@ export interface YouTubeLongPost {
     description: string; 
     hashtags: string[]; // The 3 hashtags for the description field.
     timestamps: string; // The multiline string for video chapters.
+    chapterTopics?: string[]; // Topic lines as first written, the titles every re-timing starts from.
     tags: string[]; // The list of tags for the dedicated tags field.
 }
 
+export interface ScriptTurn {
+    speaker: string;
+    text: string; // Spoken words only, no speaker label.
+    pauseAfterSeconds?: number;
+    scriptureRefs?: string[]; // e.g. "Psalm 23:1"
+}
+
+export interface ScriptSection {
+    title: string;
+    turns: ScriptTurn[];
+}
+
+// One section per generation iteration of a guided prayer.
+export interface PrayerScript {
+    sections: ScriptSection[];
+}
+
+export type AudioFormat = 'wav' | 'mp3';
+
 export interface MarketingHistoryItem {
     id: string;
     timestamp: number;
@@ -23,11 +43,180 @@ export interface MarketingHistoryItem {
     type: 'long' | 'short';
     prompt: string;
     subthemes: string[]; // only for long
-    prayer: string;
+    prayer: string; // Plain-text export of the script.
+    script?: PrayerScript; // Missing on items saved before structured scripts.
     socialPost: SocialMediaPost | null;
     longPost: YouTubeLongPost | null;
     audioBlobKey?: string;
+    audioDurationSeconds?: number;
+    mixedAudioBlobKey?: string; // Narration with the ambience bed mixed under it.
+    loudness?: LoudnessReport; // Mastering values of the narration.
+    mixedLoudness?: LoudnessReport;
+    audioFormat?: AudioFormat; // Format of the stored narration and mix; items without it are WAV.
+    wavAudioBlobKey?: string; // Uncompressed copy of the narration, kept only when enabled in settings.
+    timings?: TimedBlock[]; // Timing map of the narration.
+    srtBlobKey?: string;
+    vttBlobKey?: string;
     imageBlobKey?: string;
     videoBlobKey?: string;
+    videoFormat?: 'mp4' | 'webm'; // Container of the stored video; items without it hold MP4.
+    audiogramBlobKey?: string; // Vertical waveform clip for shorts.
+    audiogramFormat?: 'mp4' | 'webm';
+    parentId?: string; // Long item this short was clipped from.
+    clipStartSeconds?: number; // Where the clip starts in the parent's narration.
+    clipReason?: string; // Why the passage was chosen for the clip.
+    promptVersions?: PromptVersionMap; // Template versions that generated the text assets.
+    titleVariants?: TitleVariant[]; // A/B candidates; the first one is used until a winner is picked.
+    thumbnailVariants?: ThumbnailVariant[];
     isDownloaded?: boolean;
-}
\ No newline at end of file
+}
+
+// Sexy Canvas trigger a thumbnail variant is built around.
+export type ThumbnailTrigger = 'sloth' | 'greed' | 'wrath' | 'pride' | 'lust';
+
+export interface TitleVariant {
+    title: string;
+    isWinner?: boolean;
+}
+
+// Copy drawn over a text-free thumbnail (utils/thumbnailCompositor.ts).
+export interface ThumbnailText {
+    headline: string;
+    subheadline: string;
+}
+
+// The model's plan for a thumbnail: a prompt for an image without text, plus the copy to overlay.
+export interface ThumbnailDesign extends ThumbnailText {
+    imagePrompt: string;
+}
+
+export interface ThumbnailVariant {
+    trigger: ThumbnailTrigger;
+    title: string; // Title the text overlay was derived from.
+    prompt: string; // Image prompt (text-free).
+    text?: ThumbnailText; // Overlay composited into the stored image.
+    imageBlobKey: string;
+    isWinner?: boolean;
+}
+
+export interface PrayerCheckpoint {
+    key: string;
+    prompt: string;
+    language: string;
+    duration: number;
+    totalBlocks: number; // Re-planned after every block from the projected length.
+    blocks: ScriptSection[]; // Completed sections, in order.
+    projectedSeconds?: number; // Narration length projected for the completed blocks.
+    closed?: boolean; // The closing part is written; further parts are inserted before it.
+    status: 'in_progress' | 'failed' | 'completed';
+    error?: string;
+    updatedAt: number;
+}
+
+export type AgentJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type AgentJobStep = 'text' | 'audio' | 'image';
+export type AgentStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface AgentJobLogEntry {
+    at: number;
+    message: string;
+}
+
+// Thumbnail of an agent job before its text overlay is drawn.
+export interface AgentThumbnailDraft {
+    title: string;
+    trigger?: ThumbnailTrigger; // Set for A/B variants.
+    design: ThumbnailDesign;
+    baseBlobKey: string; // Text-free image.
+}
+
+// An unattended kit generation, persisted in IndexedDB so it survives a reload (services/agentQueue.ts).
+// Outputs of finished steps are kept on the job, so a resumed or retried job skips them.
+export interface AgentJob {
+    id: string; // Also the id of the history item it produces.
+    kind: 'long' | 'short';
+    language: string;
+    duration: number; // Minutes requested for the prayer.
+    scheduleKey: string; // Schedule slot that queued it; the slot counts as run once all its jobs succeed.
+    batchId?: string; // Long videos are queued once per language and share one topic.
+    status: AgentJobStatus;
+    steps: Record<AgentJobStep, AgentStepStatus>;
+    attempts: number;
+    nextAttemptAt?: number; // Earliest time of the next automatic retry.
+    theme?: string;
+    subthemes?: string[];
+    script?: PrayerScript;
+    post?: SocialMediaPost | YouTubeLongPost;
+    titles?: string[]; // A/B title candidates, the post title first.
+    promptVersions?: PromptVersionMap;
+    timings?: TimedBlock[]; // Narration stored under `agent_job_audio_<id>` until the kit is saved.
+    thumbnails?: AgentThumbnailDraft[]; // One per title; the text is drawn when the kit is saved.
+    log: AgentJobLogEntry[];
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Result of comparing the rendered narration length with the requested prayer duration.
+export interface AudioDurationCheck {
+    actualSeconds: number;
+    targetSeconds?: number;
+    deviation?: number; // Fraction over (+) or under (-) the target, e.g. -0.15 = 15% short.
+    withinTolerance: boolean;
+    projectedSeconds?: number; // Length the script was projected to have before synthesis.
+}
+
+// A speech block that still failed after retries. Nothing was written for it, so the
+// offset marks where its audio belongs when it is re-synthesized.
+export interface SpeechGap {
+    blockIndex: number;
+    sectionIndex: number;
+    turnIndex: number;
+    speaker: string;
+    text: string;
+    offsetBytes: number; // Position in the PCM payload (after the WAV header).
+    offsetSeconds: number;
+    error?: string;
+}
+
+// Where one spoken block sits on the narration timeline (seconds). Pauses have no entry.
+export interface TimedBlock {
+    blockIndex: number;
+    sectionIndex: number;
+    turnIndex: number;
+    speaker: string;
+    text: string;
+    start: number;
+    end: number;
+}
+
+// A narrator available to the script prompt and to TTS. `language` is 'all' or a language code.
+export interface VoiceCastMember {
+    id: string;
+    name: string;
+    aliases?: string[]; // Other spellings the model may use for this speaker.
+    persona: string;
+    voice: string;
+    language: string;
+}
+
+// Measured by the mastering pass (utils/audio.ts). Loudness in LUFS, peak in dBFS.
+export interface LoudnessReport {
+    targetLufs: number;
+    inputLufs: number;
+    outputLufs: number;
+    peakDb: number;
+    gainDb: number;
+}
+
+export type PromptTemplateId = 'guidedPrayer' | 'thumbnail' | 'seoDescription' | 'socialCaption';
+
+export interface PromptTemplateVersion {
+    version: number;
+    system: string;
+    user: string;
+    note?: string;
+    createdAt: number;
+}
+
+export type PromptVersionMap = Partial<Record<PromptTemplateId, number>>;
@@ -1,5 +1,12 @@
 
 
+import { AudioDurationCheck, LoudnessReport } from '../types';
+
+// Sample rate of the TTS output (16-bit mono PCM), used throughout the audio pipeline.
+export const SAMPLE_RATE = 24000;
+// Size of the canonical PCM WAV header written by createWavFile and createWavHeader.
+export const WAV_HEADER_BYTES = 44;
+
 // Helper function to decode base64 string to Uint8Array
 export function decode(base64: string): Uint8Array {
     const binaryString = atob(base64);
@@ -11,10 +18,22 @@ export function decode(base64: string): Uint8Array {
     return bytes;
 }
 
+// Helper to join streamed PCM chunks into a single buffer
+export function concatPcmChunks(chunks: Uint8Array[]): Uint8Array {
+    const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
+    const pcm = new Uint8Array(totalLength);
+    let offset = 0;
+    chunks.forEach(chunk => {
+        pcm.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return pcm;
+}
+
 // Helper function to create a WAV file Blob from raw PCM data
 export function createWavFile(pcmData: Uint8Array, numChannels: number, sampleRate: number, bitsPerSample: number): Blob {
     const dataSize = pcmData.length;
-    const buffer = new ArrayBuffer(44 + dataSize);
+    const buffer = new ArrayBuffer(WAV_HEADER_BYTES + dataSize);
     const view = new DataView(buffer);
 
     function writeString(view: DataView, offset: number, string: string) {
@@ -37,14 +56,14 @@ export function createWavFile(pcmData: Uint8Array, numChannels: number, sampleRa
     view.setUint16(34, bitsPerSample, true);
     writeString(view, 36, 'data');
     view.setUint32(40, dataSize, true);
-    new Uint8Array(buffer, 44).set(pcmData);
+    new Uint8Array(buffer, WAV_HEADER_BYTES).set(pcmData);
 
     return new Blob([buffer], { type: 'audio/wav' });
 }
 
 // Helper function to create just the WAV header as a Blob
 export function createWavHeader(dataSize: number, numChannels: number, sampleRate: number, bitsPerSample: number): Blob {
-    const buffer = new ArrayBuffer(44);
+    const buffer = new ArrayBuffer(WAV_HEADER_BYTES);
     const view = new DataView(buffer);
 
     function writeString(view: DataView, offset: number, string: string) {
@@ -92,8 +111,319 @@ export async function decodePcmAudioData(
 }
 
 // Helper to calculate duration from bytes (useful for debug)
-export function getWavDuration(bytesLength: number, sampleRate: number = 24000, numChannels: number = 1, bitDepth: number = 16): number {
+export function getWavDuration(bytesLength: number, sampleRate: number = SAMPLE_RATE, numChannels: number = 1, bitDepth: number = 16): number {
     const bytesPerSample = bitDepth / 8;
     const totalSamples = bytesLength / (numChannels * bytesPerSample);
     return totalSamples / sampleRate;
-}
\ No newline at end of file
+}
+// Helper to create a run of digital silence in the same raw PCM format as the TTS output
+export function createSilence(seconds: number, sampleRate: number = SAMPLE_RATE, numChannels: number = 1, bitDepth: number = 16): Uint8Array {
+    const blockAlign = numChannels * (bitDepth / 8);
+    const frames = Math.max(0, Math.round(seconds * sampleRate));
+    return new Uint8Array(frames * blockAlign);
+}
+
+// Formats seconds as m:ss (or h:mm:ss for long prayers)
+export function formatTimestamp(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = String(seconds % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// Compares the PCM payload length with the requested duration. Without a target only the actual length is reported.
+export function checkAudioDuration(pcmBytes: number, targetSeconds?: number, tolerance: number = 0.2): AudioDurationCheck {
+    const actualSeconds = getWavDuration(pcmBytes);
+    if (!targetSeconds) return { actualSeconds, withinTolerance: true };
+    const deviation = (actualSeconds - targetSeconds) / targetSeconds;
+    return { actualSeconds, targetSeconds, deviation, withinTolerance: Math.abs(deviation) <= tolerance };
+}
+
+// Inserts PCM segments into an existing 16-bit mono WAV without decoding it.
+// Offsets refer to positions in the original PCM payload and must be ascending.
+export function spliceWavPcm(wavBlob: Blob, inserts: { offsetBytes: number; pcm: Uint8Array }[], sampleRate: number = SAMPLE_RATE): Blob {
+    const pcm = wavBlob.slice(WAV_HEADER_BYTES);
+    const parts: BlobPart[] = [];
+    let cursor = 0;
+    let dataSize = pcm.size;
+    for (const insert of inserts) {
+        const offset = Math.min(insert.offsetBytes, pcm.size);
+        parts.push(pcm.slice(cursor, offset), new Uint8Array(insert.pcm));
+        cursor = offset;
+        dataSize += insert.pcm.length;
+    }
+    parts.push(pcm.slice(cursor));
+    return new Blob([createWavHeader(dataSize, 1, sampleRate, 16), ...parts], { type: 'audio/wav' });
+}
+
+// Replaces byte ranges of the PCM payload of a 16-bit mono WAV without decoding it.
+// Ranges refer to the original payload, must be ascending and must not overlap.
+export function replaceWavRanges(wavBlob: Blob, replacements: { startBytes: number; endBytes: number; pcm: Uint8Array }[], sampleRate: number = SAMPLE_RATE): Blob {
+    const pcm = wavBlob.slice(WAV_HEADER_BYTES);
+    const parts: BlobPart[] = [];
+    let cursor = 0;
+    let dataSize = pcm.size;
+    for (const replacement of replacements) {
+        const start = Math.min(Math.max(cursor, replacement.startBytes), pcm.size);
+        const end = Math.min(Math.max(start, replacement.endBytes), pcm.size);
+        parts.push(pcm.slice(cursor, start), new Uint8Array(replacement.pcm));
+        cursor = end;
+        dataSize += replacement.pcm.length - (end - start);
+    }
+    parts.push(pcm.slice(cursor));
+    return new Blob([createWavHeader(dataSize, 1, sampleRate, 16), ...parts], { type: 'audio/wav' });
+}
+
+// Copies [startSeconds, endSeconds) out of decoded audio with short fades, so the cut does not click.
+export function extractClip(samples: Float32Array, startSeconds: number, endSeconds: number, sampleRate: number = SAMPLE_RATE, fadeSeconds: number = 0.5): Float32Array {
+    const from = Math.max(0, Math.floor(startSeconds * sampleRate));
+    const to = Math.min(samples.length, Math.ceil(endSeconds * sampleRate));
+    const clip = samples.slice(from, Math.max(from, to));
+    const fade = Math.min(Math.floor(clip.length / 2), Math.round(fadeSeconds * sampleRate));
+    for (let i = 0; i < fade; i++) {
+        clip[i] *= i / fade;
+        clip[clip.length - 1 - i] *= i / fade;
+    }
+    return clip;
+}
+
+// --- LOUDNESS & MASTERING ---
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+// Reads the 16-bit mono PCM payload of a WAV as floats.
+export async function wavToFloat32(wav: Blob): Promise<Float32Array> {
+    const buffer = await wav.slice(WAV_HEADER_BYTES).arrayBuffer();
+    return pcm16ToFloat32(new Uint8Array(buffer));
+}
+
+export const wavSampleCount = (wav: Blob): number => Math.max(0, Math.floor((wav.size - WAV_HEADER_BYTES) / 2));
+
+// Reads samples [from, to) of a 16-bit mono WAV as floats, without loading the rest of the file.
+export async function readWavSamples(wav: Blob, from: number, to: number): Promise<Float32Array> {
+    const buffer = await wav.slice(WAV_HEADER_BYTES + from * 2, WAV_HEADER_BYTES + to * 2).arrayBuffer();
+    return pcm16ToFloat32(new Uint8Array(buffer));
+}
+
+export function pcm16ToFloat32(pcm: Uint8Array): Float32Array {
+    const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    const samples = new Float32Array(Math.floor(pcm.byteLength / 2));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = view.getInt16(i * 2, true) / 32768;
+    }
+    return samples;
+}
+
+export function float32ToPcm16(samples: Float32Array): Uint8Array<ArrayBuffer> {
+    const int16 = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        int16[i] = s < 0 ? s * 32768 : s * 32767;
+    }
+    return new Uint8Array(int16.buffer);
+}
+
+export function float32ToWav(samples: Float32Array, sampleRate: number = SAMPLE_RATE): Blob {
+    return createWavFile(float32ToPcm16(samples), 1, sampleRate, 16);
+}
+
+// Biquad coefficients of the BS.1770 K-weighting filter (high shelf + high pass) for any sample rate.
+function kWeightingFilters(sampleRate: number) {
+    const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    const shelfQ = 0.7071752369554196;
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+    const shelf = {
+        b: [(vh + vb * shelfK / shelfQ + shelfK * shelfK) / a0, 2 * (shelfK * shelfK - vh) / a0, (vh - vb * shelfK / shelfQ + shelfK * shelfK) / a0],
+        a: [2 * (shelfK * shelfK - 1) / a0, (1 - shelfK / shelfQ + shelfK * shelfK) / a0],
+    };
+    const passK = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    const passQ = 0.5003270373238773;
+    const p0 = 1 + passK / passQ + passK * passK;
+    const highPass = {
+        b: [1, -2, 1],
+        a: [2 * (passK * passK - 1) / p0, (1 - passK / passQ + passK * passK) / p0],
+    };
+    return [shelf, highPass];
+}
+
+// Integrated loudness (LUFS) per ITU-R BS.1770: K-weighting, 400 ms blocks with 75% overlap,
+// absolute gate at -70 LUFS and relative gate 10 LU below the ungated level. Mono only.
+// Audio is added window by window, so long narrations never have to be in memory at once.
+const createLoudnessMeter = (sampleRate: number) => {
+    const filters = kWeightingFilters(sampleRate);
+    const segmentLength = Math.round(sampleRate * 0.1);
+    const segmentPower: number[] = [];
+    const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+    let sum = 0;
+    let count = 0;
+    let total = 0;
+
+    const add = (samples: Float32Array) => {
+        total += samples.length;
+        for (let i = 0; i < samples.length; i++) {
+            let x = samples[i];
+            for (let f = 0; f < filters.length; f++) {
+                const { b, a } = filters[f];
+                const st = state[f];
+                const y = b[0] * x + b[1] * st.x1 + b[2] * st.x2 - a[0] * st.y1 - a[1] * st.y2;
+                st.x2 = st.x1; st.x1 = x; st.y2 = st.y1; st.y1 = y;
+                x = y;
+            }
+            sum += x * x;
+            if (++count === segmentLength) {
+                segmentPower.push(sum / segmentLength);
+                sum = 0;
+                count = 0;
+            }
+        }
+    };
+
+    const loudness = (): number => {
+        // Clips shorter than one gating block are measured as a single block
+        if (segmentPower.length < 4) {
+            const energy = segmentPower.reduce((acc, p) => acc + p * segmentLength, sum);
+            const power = energy / Math.max(1, total);
+            return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+        }
+        const blocks: number[] = [];
+        for (let i = 0; i + 4 <= segmentPower.length; i++) {
+            blocks.push((segmentPower[i] + segmentPower[i + 1] + segmentPower[i + 2] + segmentPower[i + 3]) / 4);
+        }
+        const loudnessOf = (power: number) => -0.691 + 10 * Math.log10(power);
+        const absoluteGated = blocks.filter(power => power > 0 && loudnessOf(power) > -70);
+        if (absoluteGated.length === 0) return -Infinity;
+        const ungated = loudnessOf(absoluteGated.reduce((acc, p) => acc + p, 0) / absoluteGated.length);
+        const relativeGated = absoluteGated.filter(power => loudnessOf(power) > ungated - 10);
+        return loudnessOf(relativeGated.reduce((acc, p) => acc + p, 0) / relativeGated.length);
+    };
+
+    return { add, loudness };
+};
+
+export function measureLoudness(samples: Float32Array, sampleRate: number = SAMPLE_RATE): number {
+    const meter = createLoudnessMeter(sampleRate);
+    meter.add(samples);
+    return meter.loudness();
+}
+
+export function measurePeakDb(samples: Float32Array): number {
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    return peak > 0 ? gainToDb(peak) : -Infinity;
+}
+
+// Look-ahead peak limiter (in place): gain ramps down over 5 ms before any peak above
+// the ceiling and recovers over ~100 ms, so transients are tamed without clicks. Audio is limited
+// window by window; `next` holds the samples that follow the window, whose peaks already pull
+// down the end of it, and the gain carries over to the next call.
+const createLimiter = (ceilingDb: number, sampleRate: number) => {
+    const ceiling = dbToGain(ceilingDb);
+    const lookahead = Math.max(1, Math.round(sampleRate * 0.005));
+    const release = 1 - Math.exp(-1 / (sampleRate * 0.1));
+    let gain = 1;
+    return (samples: Float32Array, next: Float32Array = new Float32Array(0)) => {
+        const required = new Float32Array(samples.length).fill(1);
+        const span = samples.length + Math.min(next.length, lookahead);
+        for (let n = 0; n < span; n++) {
+            const level = Math.abs(n < samples.length ? samples[n] : next[n - samples.length]);
+            if (level <= ceiling) continue;
+            const target = ceiling / level;
+            for (let k = Math.max(0, n - lookahead); k <= Math.min(n, samples.length - 1); k++) {
+                const ramp = 1 - (1 - target) * (k - (n - lookahead)) / lookahead;
+                if (ramp < required[k]) required[k] = ramp;
+            }
+        }
+        for (let n = 0; n < samples.length; n++) {
+            gain = Math.min(required[n], gain + release * (required[n] - gain));
+            samples[n] = Math.max(-ceiling, Math.min(ceiling, samples[n] * gain));
+        }
+    };
+};
+
+export function applyLimiter(samples: Float32Array, ceilingDb: number = -1, sampleRate: number = SAMPLE_RATE): void {
+    createLimiter(ceilingDb, sampleRate)(samples);
+}
+
+// Gain that brings `inputLufs` to the target, capped so near-silent input is not blown up into noise.
+const masteringGainDb = (inputLufs: number, targetLufs: number, maxGainDb: number) =>
+    Number.isFinite(inputLufs) ? Math.min(maxGainDb, targetLufs - inputLufs) : 0;
+
+// Normalizes to the target integrated loudness, then limits peaks (in place).
+export function masterSamples(samples: Float32Array, targetLufs: number, ceilingDb: number, sampleRate: number = SAMPLE_RATE, maxGainDb: number = 24): LoudnessReport {
+    const inputLufs = measureLoudness(samples, sampleRate);
+    const gainDb = masteringGainDb(inputLufs, targetLufs, maxGainDb);
+    const gain = dbToGain(gainDb);
+    for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+    applyLimiter(samples, ceilingDb, sampleRate);
+    return {
+        targetLufs,
+        inputLufs,
+        outputLufs: measureLoudness(samples, sampleRate),
+        peakDb: measurePeakDb(samples),
+        gainDb,
+    };
+}
+
+// Per-block pass used while streaming TTS, so every block reaches the final file at the same level.
+export function normalizePcmBlock(pcm: Uint8Array, targetLufs: number, ceilingDb: number, sampleRate: number = SAMPLE_RATE): Uint8Array {
+    const samples = pcm16ToFloat32(pcm);
+    if (!Number.isFinite(measureLoudness(samples, sampleRate))) return pcm;
+    masterSamples(samples, targetLufs, ceilingDb, sampleRate, 12);
+    return float32ToPcm16(samples);
+}
+
+// ~10 s of audio per window when mastering a stream.
+export const MASTERING_WINDOW_SAMPLES = SAMPLE_RATE * 10;
+
+// Masters `totalSamples` of audio that `readWindow` produces on demand, as a 16-bit WAV: one pass
+// measures the loudness, a second applies gain and limiter. Only two windows are in memory at a
+// time, so an hour of narration masters in a few MB. `readWindow` must return the same samples
+// every time it is asked for a range, and is called in order.
+export async function masterStream(
+    totalSamples: number,
+    readWindow: (from: number, to: number) => Promise<Float32Array>,
+    targetLufs: number,
+    ceilingDb: number
+): Promise<{ blob: Blob; report: LoudnessReport }> {
+    const windowAt = (from: number) => from < totalSamples
+        ? readWindow(from, Math.min(totalSamples, from + MASTERING_WINDOW_SAMPLES))
+        : Promise.resolve(new Float32Array(0));
+
+    const input = createLoudnessMeter(SAMPLE_RATE);
+    for (let from = 0; from < totalSamples; from += MASTERING_WINDOW_SAMPLES) input.add(await windowAt(from));
+    const inputLufs = input.loudness();
+    const gainDb = masteringGainDb(inputLufs, targetLufs, 24);
+    const gain = dbToGain(gainDb);
+    const amplified = async (from: number) => {
+        const samples = await windowAt(from);
+        for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+        return samples;
+    };
+
+    const limit = createLimiter(ceilingDb, SAMPLE_RATE);
+    const output = createLoudnessMeter(SAMPLE_RATE);
+    // Each window goes into its own Blob, which the browser may keep out of the JS heap
+    const parts: Blob[] = [];
+    let peakDb = -Infinity;
+    let current = await amplified(0);
+    for (let from = 0; from < totalSamples; from += MASTERING_WINDOW_SAMPLES) {
+        const next = await amplified(from + MASTERING_WINDOW_SAMPLES);
+        limit(current, next);
+        output.add(current);
+        peakDb = Math.max(peakDb, measurePeakDb(current));
+        parts.push(new Blob([float32ToPcm16(current)]));
+        current = next;
+    }
+    return {
+        blob: new Blob([createWavHeader(totalSamples * 2, 1, SAMPLE_RATE, 16), ...parts], { type: 'audio/wav' }),
+        report: { targetLufs, inputLufs, outputLufs: output.loudness(), peakDb, gainDb },
+    };
+}
+
+export async function masterWav(wav: Blob, targetLufs: number, ceilingDb: number): Promise<{ blob: Blob; report: LoudnessReport }> {
+    return masterStream(wavSampleCount(wav), (from, to) => readWavSamples(wav, from, to), targetLufs, ceilingDb);
+}
@@ -0,0 +1,54 @@
+import { AudioFormat } from '../types';
+import { AudioExportSettings } from '../settings';
+import { SAMPLE_RATE, WAV_HEADER_BYTES, wavToFloat32 } from './audio';
+
+// MP3 encoder loaded from the CDN in index.html
+declare const lamejs: any;
+
+const MP3_FRAME_SAMPLES = 1152;
+const MP3_FRAMES_PER_YIELD = 200; // ~10 s of audio between yields to the event loop
+
+const MIME_TYPES: Record<AudioFormat, string> = {
+    wav: 'audio/wav',
+    mp3: 'audio/mpeg',
+};
+
+export const audioFormatOf = (blob: Blob): AudioFormat => blob.type === MIME_TYPES.mp3 ? 'mp3' : 'wav';
+
+// Encodes a 16-bit mono WAV as CBR MP3. A 60-minute narration at 64 kbps is ~29 MB instead of ~170 MB.
+// The encoder runs on the main thread, so it yields regularly to keep the page responsive.
+export const wavToMp3 = async (wav: Blob, bitrateKbps: number, onProgress?: (fraction: number) => void): Promise<Blob> => {
+    if (typeof lamejs === 'undefined') throw new Error("The MP3 encoder could not be loaded.");
+    const buffer = await wav.slice(WAV_HEADER_BYTES).arrayBuffer();
+    const samples = new Int16Array(buffer, 0, Math.floor(buffer.byteLength / 2));
+    const encoder = new lamejs.Mp3Encoder(1, SAMPLE_RATE, bitrateKbps);
+    const parts: BlobPart[] = [];
+    let frame = 0;
+    for (let offset = 0; offset < samples.length; offset += MP3_FRAME_SAMPLES) {
+        const encoded: Int8Array = encoder.encodeBuffer(samples.subarray(offset, offset + MP3_FRAME_SAMPLES));
+        if (encoded.length > 0) parts.push(new Uint8Array(encoded));
+        if (++frame % MP3_FRAMES_PER_YIELD === 0) {
+            onProgress?.(offset / samples.length);
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+    const tail: Int8Array = encoder.flush();
+    if (tail.length > 0) parts.push(new Uint8Array(tail));
+    onProgress?.(1);
+    return new Blob(parts, { type: MIME_TYPES.mp3 });
+};
+
+// Converts a WAV produced by the pipeline into the storage/export format chosen in settings.
+export const encodeAudio = async (wav: Blob, settings: AudioExportSettings): Promise<Blob> => {
+    if (settings.format === 'mp3') return wavToMp3(wav, settings.mp3BitrateKbps);
+    return wav;
+};
+
+// Decodes any stored narration (WAV or compressed) to 24 kHz mono floats.
+export const decodeAudioBlob = async (blob: Blob): Promise<Float32Array> => {
+    if (audioFormatOf(blob) === 'wav') return wavToFloat32(blob);
+    // decodeAudioData resamples to the context rate
+    const ctx = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    return buffer.getChannelData(0).slice();
+};
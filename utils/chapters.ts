@@ -0,0 +1,99 @@
+import { PrayerScript, TimedBlock, YouTubeLongPost } from '../types';
+
+// YouTube ignores chapters shorter than this, and chapter lists with fewer than MIN_CHAPTERS entries.
+const MIN_CHAPTER_SECONDS = 10;
+const MIN_CHAPTERS = 3;
+
+export interface Chapter {
+    start: number;
+    title: string;
+}
+
+// Which subtheme a script section covers: sections are shared out evenly and in order.
+export const subthemeForSection = (sectionIndex: number, sectionCount: number, subthemeCount: number): number =>
+    Math.min(subthemeCount - 1, Math.floor((sectionIndex * subthemeCount) / Math.max(1, sectionCount)));
+
+// Chapter lines without their time codes or list markers.
+export const parseChapterTitles = (timestamps: string): string[] =>
+    timestamps
+        .split('\n')
+        .map(line => line.replace(/^\s*(?:[-*•]\s*)?(?:\d{1,2}:)?\d{1,2}:\d{2}\s*(?:[-–—:]\s*)?/, '').replace(/^\s*[-*•]\s*/, '').trim())
+        .filter(Boolean);
+
+// First spoken moment of every section; sections without audio get none.
+const sectionStartTimes = (timings: TimedBlock[]): Map<number, number> => {
+    const starts = new Map<number, number>();
+    for (const timing of timings) {
+        const current = starts.get(timing.sectionIndex);
+        if (current === undefined || timing.start < current) starts.set(timing.sectionIndex, timing.start);
+    }
+    return starts;
+};
+
+// Chapters from the synthesized timeline. Each subtheme starts at its first section; the title is the
+// post's topic line that mentions the subtheme, or the subtheme itself. Without subthemes every section
+// becomes a chapter named after the post's topic line of the same index, or after the section title.
+// Returns no chapters when the timeline cannot make a list YouTube accepts.
+export const buildChapters = (
+    timings: TimedBlock[],
+    sectionTitles: string[],
+    subthemes: string[],
+    topicLines: string[] = []
+): Chapter[] => {
+    const starts = sectionStartTimes(timings);
+    const themes = subthemes.map(theme => theme.trim()).filter(Boolean);
+    const chapters: Chapter[] = [];
+
+    if (themes.length > 0) {
+        const unused = [...topicLines];
+        themes.forEach((theme, themeIndex) => {
+            const sectionIndex = sectionTitles.findIndex((_, i) => subthemeForSection(i, sectionTitles.length, themes.length) === themeIndex && starts.has(i));
+            if (sectionIndex < 0) return;
+            const lineIndex = unused.findIndex(line => line.toLowerCase().includes(theme.toLowerCase()));
+            const title = lineIndex >= 0 ? unused.splice(lineIndex, 1)[0] : theme;
+            chapters.push({ start: starts.get(sectionIndex)!, title });
+        });
+    } else {
+        sectionTitles.forEach((sectionTitle, i) => {
+            const start = starts.get(i);
+            if (start !== undefined) chapters.push({ start, title: topicLines[i] || sectionTitle });
+        });
+    }
+
+    // YouTube requires the first chapter at 00:00 and a minimum length per chapter
+    const merged: Chapter[] = [];
+    for (const chapter of chapters) {
+        const previous = merged[merged.length - 1];
+        if (previous && chapter.start - previous.start < MIN_CHAPTER_SECONDS) continue;
+        merged.push(chapter);
+    }
+    // The last chapter runs to the end of the narration, so it needs the same minimum length
+    const end = timings.reduce((latest, timing) => Math.max(latest, timing.end), 0);
+    while (merged.length > 1 && end - merged[merged.length - 1].start < MIN_CHAPTER_SECONDS) merged.pop();
+    if (merged.length < MIN_CHAPTERS) return [];
+    merged[0] = { ...merged[0], start: 0 };
+    return merged;
+};
+
+// 00:00 style below an hour, h:mm:ss above, as YouTube expects in descriptions.
+export const formatChapterTime = (totalSeconds: number): string => {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const h = Math.floor(seconds / 3600);
+    const m = String(Math.floor((seconds % 3600) / 60)).padStart(2, '0');
+    const s = String(seconds % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${m}:${s}` : `${m}:${s}`;
+};
+
+export const chaptersToTimestamps = (chapters: Chapter[]): string =>
+    chapters.map(chapter => `${formatChapterTime(chapter.start)} ${chapter.title}`).join('\n');
+
+// Rewrites the post's chapter list with real times once audio exists. The topic lines are kept on the
+// post, so re-timing after a new narration starts from them rather than from the last merged list.
+// When the timeline cannot make valid chapters, the list goes back to the untimed topics.
+export const withChapterTimes = (post: YouTubeLongPost, script: PrayerScript, subthemes: string[], timings: TimedBlock[]): YouTubeLongPost => {
+    const chapterTopics = post.chapterTopics ?? parseChapterTitles(post.timestamps);
+    const sectionTitles = script.sections.map(section => section.title);
+    const chapters = buildChapters(timings, sectionTitles, subthemes, chapterTopics);
+    if (chapters.length > 0) return { ...post, chapterTopics, timestamps: chaptersToTimestamps(chapters) };
+    return chapterTopics.length > 0 ? { ...post, chapterTopics, timestamps: chapterTopics.join('\n') } : post;
+};
@@ -0,0 +1,53 @@
+import { PrayerScript, ScriptTurn, TimedBlock } from '../types';
+
+export interface ClipRange {
+    first: number; // Index into the timing map.
+    last: number;
+    start: number; // Seconds on the narration timeline.
+    end: number;
+    reason?: string; // Why the model picked the passage.
+}
+
+const rangeDuration = (timings: TimedBlock[], first: number, last: number) => timings[last].end - timings[first].start;
+
+// Turns a suggested block range into one that lasts between `minSeconds` and `maxSeconds`:
+// indices are clamped, short ranges grow forward (then backward) and long ones lose trailing blocks.
+export const fitClipRange = (timings: TimedBlock[], first: number, last: number, minSeconds: number, maxSeconds: number): ClipRange => {
+    if (timings.length === 0) throw new Error("The narration has no timed blocks to clip.");
+    const clamp = (index: number) => Math.min(timings.length - 1, Math.max(0, Math.round(index) || 0));
+    let from = clamp(Math.min(first, last));
+    let to = clamp(Math.max(first, last));
+    while (rangeDuration(timings, from, to) < minSeconds) {
+        if (to < timings.length - 1) to++;
+        else if (from > 0) from--;
+        else break;
+    }
+    while (to > from && rangeDuration(timings, from, to) > maxSeconds) to--;
+    return { first: from, last: to, start: timings[from].start, end: timings[to].end };
+};
+
+// Timing map of the clip, relative to its own start.
+export const clipTimings = (timings: TimedBlock[], range: ClipRange, offsetSeconds: number): TimedBlock[] =>
+    timings.slice(range.first, range.last + 1).map(timing => ({
+        ...timing,
+        start: timing.start - offsetSeconds,
+        end: timing.end - offsetSeconds,
+    }));
+
+// Script of the clip: blocks split from the same turn are joined back together. The timings are
+// renumbered to match (one section, one turn per merged turn) so re-voicing and chapters line up.
+export const clipScript = (timings: TimedBlock[], title: string): { script: PrayerScript; timings: TimedBlock[] } => {
+    const turns: ScriptTurn[] = [];
+    const remapped: TimedBlock[] = [];
+    let previous: TimedBlock | null = null;
+    for (const [blockIndex, timing] of timings.entries()) {
+        if (previous && previous.sectionIndex === timing.sectionIndex && previous.turnIndex === timing.turnIndex) {
+            turns[turns.length - 1].text += ` ${timing.text}`;
+        } else {
+            turns.push({ speaker: timing.speaker, text: timing.text });
+        }
+        remapped.push({ ...timing, blockIndex, sectionIndex: 0, turnIndex: turns.length - 1 });
+        previous = timing;
+    }
+    return { script: { sections: [{ title, turns }] }, timings: remapped };
+};
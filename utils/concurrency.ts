@@ -0,0 +1,62 @@
+// Runs `task` for indices 0..count-1 with at most `concurrency` in flight, and hands results
+// to `onResult` strictly in index order (one at a time), no matter which task finishes first.
+// Workers never run more than `concurrency * 2` ahead of the last emitted index, which bounds
+// how many finished-but-unemitted results are held in memory. The first failure stops every
+// worker from starting new tasks and rejects the returned promise.
+export async function runOrderedPool<T>(
+    count: number,
+    concurrency: number,
+    task: (index: number) => Promise<T>,
+    onResult: (result: T, index: number) => Promise<void> | void
+): Promise<void> {
+    const limit = Math.max(1, Math.floor(concurrency));
+    const windowSize = limit * 2;
+    const results = new Map<number, T>();
+    let nextIndex = 0;
+    let nextToEmit = 0;
+    let waiters: (() => void)[] = [];
+    let emitting: Promise<void> = Promise.resolve();
+    let failed = false;
+
+    const wakeWaiters = () => {
+        const wake = waiters;
+        waiters = [];
+        wake.forEach(resolve => resolve());
+    };
+
+    const flush = async () => {
+        while (results.has(nextToEmit)) {
+            const result = results.get(nextToEmit) as T;
+            results.delete(nextToEmit);
+            await onResult(result, nextToEmit);
+            nextToEmit++;
+            wakeWaiters();
+        }
+    };
+
+    const worker = async () => {
+        try {
+            while (!failed && nextIndex < count) {
+                while (!failed && nextIndex < count && nextIndex >= nextToEmit + windowSize) {
+                    await new Promise<void>(resolve => waiters.push(resolve));
+                }
+                if (failed || nextIndex >= count) break;
+                const index = nextIndex++;
+                const result = await task(index);
+                if (failed) break;
+                results.set(index, result);
+                // Chain flushes so onResult calls never overlap (stream writes must stay sequential)
+                emitting = emitting.then(flush);
+                await emitting;
+            }
+        } catch (e) {
+            // Release the workers waiting for their turn so they see the failure and stop
+            failed = true;
+            wakeWaiters();
+            throw e;
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, count) }, worker));
+    await emitting;
+}
@@ -0,0 +1,159 @@
+import { MASTERING_WINDOW_SAMPLES, SAMPLE_RATE, dbToGain, float32ToWav, masterStream, readWavSamples, wavSampleCount } from './audio';
+import { audioFormatOf, decodeAudioBlob } from './audioEncoder';
+import { AmbienceSettings, MasteringSettings, AMBIENCE_BED_BLOB_KEY } from '../settings';
+import { LoudnessReport } from '../types';
+import { idb } from '../hooks/usePersistentState';
+
+// Speech detection for ducking: RMS over ~85 ms windows, held open briefly so the bed
+// does not pump between words.
+const ENVELOPE_WINDOW = 2048;
+const SPEECH_THRESHOLD = 0.0056; // ~ -45 dBFS
+const SPEECH_HOLD_SECONDS = 0.4;
+const DUCK_ATTACK_SECONDS = 0.08;
+const DUCK_RELEASE_SECONDS = 0.6;
+
+const PROCEDURAL_LOOP_SECONDS = 30;
+
+// Soft pad (open fifth chord with slow swells) plus a whisper of filtered noise.
+// Every frequency completes a whole number of cycles per loop, so the buffer loops without clicks.
+const createProceduralBed = (ctx: BaseAudioContext): AudioBuffer => {
+    const length = PROCEDURAL_LOOP_SECONDS * ctx.sampleRate;
+    const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    const loopAligned = (freq: number) => Math.round(freq * PROCEDURAL_LOOP_SECONDS) / PROCEDURAL_LOOP_SECONDS;
+    const partials = [110, 164.81, 220, 277.18, 329.63].map((freq, i) => ({
+        freq: loopAligned(freq),
+        amp: 0.22 / (i + 1),
+        swell: (i % 3 + 1) / PROCEDURAL_LOOP_SECONDS,
+        phase: i * 1.3,
+    }));
+    let noise = 0;
+    for (let n = 0; n < length; n++) {
+        const t = n / ctx.sampleRate;
+        let sample = 0;
+        for (const p of partials) {
+            const swell = 0.6 + 0.4 * Math.sin(2 * Math.PI * p.swell * t + p.phase);
+            sample += p.amp * swell * Math.sin(2 * Math.PI * p.freq * t);
+        }
+        // One-pole low-pass keeps the noise soft, like distant air
+        noise += 0.02 * ((Math.random() * 2 - 1) - noise);
+        data[n] = sample + noise * 0.15;
+    }
+    return buffer;
+};
+
+// Returns [start, end] pairs (in seconds) where the narration is speaking. The WAV is scanned
+// window by window, so the whole narration is never decoded at once.
+const detectSpeech = async (narration: Blob, totalSamples: number): Promise<[number, number][]> => {
+    const regions: [number, number][] = [];
+    const holdWindows = Math.ceil((SPEECH_HOLD_SECONDS * SAMPLE_RATE) / ENVELOPE_WINDOW);
+    const readSize = ENVELOPE_WINDOW * Math.ceil(MASTERING_WINDOW_SAMPLES / ENVELOPE_WINDOW);
+    let start = -1;
+    let silentWindows = 0;
+    for (let chunkStart = 0; chunkStart < totalSamples; chunkStart += readSize) {
+        const samples = await readWavSamples(narration, chunkStart, Math.min(totalSamples, chunkStart + readSize));
+        for (let local = 0; local < samples.length; local += ENVELOPE_WINDOW) {
+            const offset = chunkStart + local;
+            const end = Math.min(samples.length, local + ENVELOPE_WINDOW);
+            let sum = 0;
+            for (let i = local; i < end; i++) sum += samples[i] * samples[i];
+            const isSpeech = Math.sqrt(sum / (end - local)) > SPEECH_THRESHOLD;
+            if (isSpeech) {
+                if (start < 0) start = offset;
+                silentWindows = 0;
+            } else if (start >= 0 && ++silentWindows > holdWindows) {
+                regions.push([start / SAMPLE_RATE, (offset - (silentWindows - 1) * ENVELOPE_WINDOW) / SAMPLE_RATE]);
+                start = -1;
+                silentWindows = 0;
+            }
+        }
+    }
+    if (start >= 0) regions.push([start / SAMPLE_RATE, totalSamples / SAMPLE_RATE]);
+    return regions;
+};
+
+// The bed as mono samples at the narration rate: the uploaded file (channels averaged) or the procedural pad.
+const loadBed = async (customBed: Blob | null): Promise<Float32Array> => {
+    // decodeAudioData resamples to the context rate
+    const ctx = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    let buffer: AudioBuffer;
+    if (customBed) {
+        try {
+            buffer = await ctx.decodeAudioData(await customBed.arrayBuffer());
+        } catch (e) {
+            throw new Error("The ambience file could not be decoded. Use a WAV, MP3 or OGG file.");
+        }
+    } else {
+        buffer = createProceduralBed(ctx);
+    }
+    const bed = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let n = 0; n < bed.length; n++) bed[n] += data[n] / buffer.numberOfChannels;
+    }
+    return bed;
+};
+
+// Layers an ambience bed under the dry narration: the bed loops for the whole narration,
+// fades in and out, and ducks while someone is speaking. The timeline is not shifted,
+// so offsets measured on the dry narration stay valid for the mix. The result is mastered
+// to the same loudness target as the narration. The mix is computed window by window while
+// mastering reads it, so memory stays bounded however long the narration is.
+export const mixNarrationWithAmbience = async (
+    narrationWav: Blob,
+    customBed: Blob | null,
+    settings: AmbienceSettings,
+    mastering: MasteringSettings
+): Promise<{ blob: Blob; loudness: LoudnessReport }> => {
+    // Compressed narration is decoded once into a WAV, so it can be read window by window like the rest
+    const narration = audioFormatOf(narrationWav) === 'wav' ? narrationWav : float32ToWav(await decodeAudioBlob(narrationWav));
+    const totalSamples = wavSampleCount(narration);
+    if (totalSamples === 0) throw new Error("Narration is empty, nothing to mix.");
+    const duration = totalSamples / SAMPLE_RATE;
+
+    const bed = await loadBed(customBed);
+    if (bed.length === 0) throw new Error("The ambience file is empty.");
+    const speech = await detectSpeech(narration, totalSamples);
+
+    const bedGain = dbToGain(settings.bedLevelDb);
+    const duckedGain = dbToGain(settings.bedLevelDb + settings.duckDb);
+    // One-pole smoothing with the time constants of the former setTargetAtTime automation
+    const attack = 1 - Math.exp(-1 / (SAMPLE_RATE * DUCK_ATTACK_SECONDS / 3));
+    const release = 1 - Math.exp(-1 / (SAMPLE_RATE * DUCK_RELEASE_SECONDS / 3));
+    const fadeIn = Math.min(settings.fadeInSeconds, duration / 2);
+    const fadeOut = Math.min(settings.fadeOutSeconds, duration / 2);
+    const fadeAt = (t: number) => Math.max(0, Math.min(1, fadeIn > 0 ? t / fadeIn : 1, fadeOut > 0 ? (duration - t) / fadeOut : 1));
+
+    // Mastering reads the mix twice, so the ducking state restarts whenever it reads from the beginning
+    let duck = bedGain;
+    let region = 0;
+    const mixWindow = async (from: number, to: number): Promise<Float32Array> => {
+        if (from === 0) {
+            duck = bedGain;
+            region = 0;
+        }
+        const mixed = await readWavSamples(narration, from, to);
+        for (let i = 0; i < mixed.length; i++) {
+            const n = from + i;
+            const t = n / SAMPLE_RATE;
+            while (region < speech.length && speech[region][1] <= t) region++;
+            const isDucked = region < speech.length && t >= speech[region][0] - DUCK_ATTACK_SECONDS;
+            duck += ((isDucked ? duckedGain : bedGain) - duck) * (isDucked ? attack : release);
+            mixed[i] += bed[n % bed.length] * duck * fadeAt(t);
+        }
+        return mixed;
+    };
+
+    const { blob, report } = await masterStream(totalSamples, mixWindow, mastering.targetLufs, mastering.ceilingDb);
+    return { blob, loudness: report };
+};
+
+// Mixes with the bed chosen in settings: the uploaded file, or the procedural pad.
+export const mixWithConfiguredAmbience = async (narrationWav: Blob, settings: AmbienceSettings, mastering: MasteringSettings) => {
+    let customBed: Blob | null = null;
+    if (settings.source === 'custom') {
+        customBed = (await idb.get<Blob>(AMBIENCE_BED_BLOB_KEY)) || null;
+        if (!customBed) throw new Error("No custom ambience file has been uploaded.");
+    }
+    return mixNarrationWithAmbience(narrationWav, customBed, settings, mastering);
+};
@@ -1,3 +1,5 @@
+import { SAMPLE_RATE, WAV_HEADER_BYTES, createWavHeader } from './audio';
+
 
 export async function getOPFSRoot() {
   return await navigator.storage.getDirectory();
@@ -31,3 +33,13 @@ export async function deleteOPFSFile(filename: string): Promise<void> {
 export async function writeChunkToStream(writable: FileSystemWritableFileStream, data: Uint8Array) {
   await writable.write(data);
 }
+
+// Writes a placeholder header so PCM chunks land after it; patched by finalizeWavHeader on close.
+export async function reserveWavHeader(writable: FileSystemWritableFileStream) {
+  await writable.write(new Uint8Array(WAV_HEADER_BYTES));
+}
+
+export async function finalizeWavHeader(writable: FileSystemWritableFileStream, dataSize: number, sampleRate: number = SAMPLE_RATE) {
+  const header = createWavHeader(dataSize, 1, sampleRate, 16);
+  await writable.write({ type: 'write', position: 0, data: header });
+}
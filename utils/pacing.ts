@@ -0,0 +1,135 @@
+import { PrayerScript } from '../types';
+import { parseSpeechCues, scriptToSpeechBlocks } from './prayerScript';
+
+// Speaking pace measured per TTS voice from narrations generated so far.
+export interface VoicePace {
+    words: number;
+    seconds: number; // Speech only; pauses are not counted.
+}
+
+export type VoicePaceStats = Record<string, VoicePace>;
+
+export interface VoicePaceSample {
+    voice: string;
+    text: string; // Spoken text of the block.
+    seconds: number;
+}
+
+// Pace assumed until a voice has been measured (~1200 words per 8 minutes).
+export const DEFAULT_WORDS_PER_MINUTE = 150;
+
+const PACE_STORAGE_KEY = 'voice_pace_stats';
+// A voice needs this much measured speech before its own pace replaces the default.
+const MIN_SAMPLE_SECONDS = 60;
+// Older measurements are scaled down past this, so the stats follow changes in the TTS model.
+const MAX_SAMPLE_SECONDS = 3600;
+
+// A single model call is asked for at most this many words.
+export const WORDS_PER_PART = 1200;
+const MIN_PART_WORDS = 250;
+export const DURATION_TOLERANCE = 0.1;
+
+export const countSpokenWords = (text: string): number => parseSpeechCues(text)
+    .reduce((sum, segment) => sum + (segment.kind === 'speech' ? (segment.text.match(/[\p{L}\p{N}']+/gu) || []).length : 0), 0);
+
+export const scriptWordCount = (script: PrayerScript): number =>
+    script.sections.reduce((sum, section) => sum + section.turns.reduce((n, turn) => n + countSpokenWords(turn.text), 0), 0);
+
+// In the agent worker the stats come from the page, and new samples are sent back to it to be stored.
+let workerPace: { stats: VoicePaceStats; onRecord: (samples: VoicePaceSample[]) => void } | null = null;
+
+export const setWorkerPaceStats = (stats: VoicePaceStats, onRecord: (samples: VoicePaceSample[]) => void) => {
+    workerPace = { stats, onRecord };
+};
+
+export const loadPaceStats = (): VoicePaceStats => {
+    if (workerPace) return workerPace.stats;
+    try {
+        const stored = localStorage.getItem(PACE_STORAGE_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (error) {
+        console.error(`Error reading voice pace from localStorage:`, error);
+    }
+    return {};
+};
+
+// Adds measured blocks (voice, spoken text, seconds of audio) to the stored stats.
+export const recordVoicePace = (samples: VoicePaceSample[]) => {
+    const stats = { ...loadPaceStats() };
+    for (const sample of samples) {
+        const words = countSpokenWords(sample.text);
+        if (words === 0 || sample.seconds <= 0) continue;
+        const pace = stats[sample.voice] || { words: 0, seconds: 0 };
+        const scale = pace.seconds + sample.seconds > MAX_SAMPLE_SECONDS ? MAX_SAMPLE_SECONDS / (pace.seconds + sample.seconds) : 1;
+        stats[sample.voice] = { words: (pace.words + words) * scale, seconds: (pace.seconds + sample.seconds) * scale };
+    }
+    if (workerPace) {
+        workerPace.stats = stats;
+        workerPace.onRecord(samples);
+        return;
+    }
+    try {
+        localStorage.setItem(PACE_STORAGE_KEY, JSON.stringify(stats));
+    } catch (error) {
+        console.error(`Error saving voice pace to localStorage:`, error);
+    }
+};
+
+export const voiceWordsPerMinute = (voice: string, stats: VoicePaceStats = loadPaceStats()): number => {
+    const pace = stats[voice];
+    if (!pace || pace.seconds < MIN_SAMPLE_SECONDS) return DEFAULT_WORDS_PER_MINUTE;
+    return (pace.words / pace.seconds) * 60;
+};
+
+// Projected narration length: spoken words at each voice's pace plus every pause in the script.
+export const estimateScriptSeconds = (script: PrayerScript, voiceOf: (speaker: string) => string, stats: VoicePaceStats = loadPaceStats()): number => {
+    return scriptToSpeechBlocks(script).reduce((sum, block) => block.pauseSeconds
+        ? sum + block.pauseSeconds
+        : sum + (countSpokenWords(block.text) / voiceWordsPerMinute(voiceOf(block.speaker), stats)) * 60, 0);
+};
+
+export interface PartPlan {
+    targetWords: number;
+    isLast: boolean;
+    totalParts: number;
+}
+
+// Sizes the next part from what has been written so far. Once a part exists, its words per
+// projected second (pauses included) replace the bare voice pace.
+export const planNextPart = (targetSeconds: number, projectedSeconds: number, writtenWords: number, partsDone: number, wordsPerMinute: number): PartPlan => {
+    const pace = projectedSeconds > 0 && writtenWords > 0 ? writtenWords / projectedSeconds : wordsPerMinute / 60;
+    const remainingWords = Math.max(0, (targetSeconds - projectedSeconds) * pace);
+    const remainingParts = Math.max(1, Math.ceil(remainingWords / WORDS_PER_PART));
+    return {
+        targetWords: Math.max(MIN_PART_WORDS, Math.round(remainingWords / remainingParts)),
+        isLast: remainingParts === 1,
+        totalParts: partsDone + remainingParts,
+    };
+};
+
+// Drops whole turns until the projection is within tolerance: from the end of the parts before
+// the closing one, fullest part first, and only then from the middle of the closing part so its
+// blessing survives. Never trims below the tolerance band or empties a part.
+export const trimScriptToDuration = (script: PrayerScript, targetSeconds: number, estimate: (script: PrayerScript) => number): PrayerScript => {
+    let result = script;
+    let projected = estimate(result);
+    while (projected > targetSeconds * (1 + DURATION_TOLERANCE)) {
+        const lastIndex = result.sections.length - 1;
+        const candidates = result.sections
+            .map((section, index) => ({ index, turns: section.turns.length }))
+            .filter(({ index, turns }) => index < lastIndex && turns > 1)
+            .sort((a, b) => b.turns - a.turns);
+        const closingTurns = result.sections[lastIndex]?.turns.length || 0;
+        if (candidates.length === 0 && closingTurns < 3) break;
+        const target = candidates.length > 0 ? candidates[0].index : lastIndex;
+        const dropAt = target === lastIndex ? Math.floor(closingTurns / 2) : result.sections[target].turns.length - 1;
+        const trimmed: PrayerScript = {
+            sections: result.sections.map((section, index) => index === target ? { ...section, turns: section.turns.filter((_, t) => t !== dropAt) } : section),
+        };
+        const trimmedSeconds = estimate(trimmed);
+        if (trimmedSeconds < targetSeconds * (1 - DURATION_TOLERANCE)) break;
+        result = trimmed;
+        projected = trimmedSeconds;
+    }
+    return result;
+};
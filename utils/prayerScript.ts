@@ -0,0 +1,175 @@
+import { PrayerScript, ScriptSection, ScriptTurn } from '../types';
+
+export interface SpeechBlock {
+    speaker: string;
+    text: string;
+    sectionIndex: number;
+    turnIndex: number;
+    // When set, the block is rendered as this many seconds of silence instead of speech.
+    pauseSeconds?: number;
+}
+
+export type ScriptSegment =
+    | { kind: 'speech'; text: string }
+    | { kind: 'pause'; seconds: number };
+
+// Very long turns are split to avoid TTS timeouts
+const MAX_BLOCK_CHARS = 1500;
+
+// Pacing cues written inline by the model: [pause 3s], [breathe in 4], [breathe out 4], [hold 2]
+const CUE_REGEX = /\[\s*(pause|pausa|breathe(?:\s+(?:in|out))?|hold)\s*(\d+(?:[.,]\d+)?)?\s*s?\s*\]/gi;
+const DEFAULT_PAUSE_SECONDS = 2;
+const DEFAULT_BREATH_SECONDS = 4;
+const MAX_CUE_SECONDS = 30;
+
+const cueSeconds = (cue: string, amount?: string): number => {
+    const fallback = cue.toLowerCase().startsWith('breathe') ? DEFAULT_BREATH_SECONDS : DEFAULT_PAUSE_SECONDS;
+    const parsed = amount ? parseFloat(amount.replace(',', '.')) : fallback;
+    return Math.min(MAX_CUE_SECONDS, parsed > 0 ? parsed : fallback);
+};
+
+// Splits a turn into spoken text and silences, merging back-to-back cues.
+export const parseSpeechCues = (text: string): ScriptSegment[] => {
+    const segments: ScriptSegment[] = [];
+    const pushSpeech = (chunk: string) => {
+        // Punctuation left dangling after a cue ("[pause 2s]. Amen") is dropped
+        const trimmed = chunk.replace(/\s+/g, ' ').trim().replace(/^[.,;:!?]+\s*/, '');
+        if (trimmed) segments.push({ kind: 'speech', text: trimmed });
+    };
+    let lastIndex = 0;
+    for (const match of text.matchAll(CUE_REGEX)) {
+        pushSpeech(text.slice(lastIndex, match.index));
+        const seconds = cueSeconds(match[1], match[2]);
+        const previous = segments[segments.length - 1];
+        if (previous?.kind === 'pause') {
+            previous.seconds += seconds;
+        } else {
+            segments.push({ kind: 'pause', seconds });
+        }
+        lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    pushSpeech(text.slice(lastIndex));
+    return segments;
+};
+
+export const emptyScript = (): PrayerScript => ({ sections: [] });
+
+export const turnToText = (turn: ScriptTurn): string => {
+    const line = `${turn.speaker}: ${turn.text}`;
+    return turn.pauseAfterSeconds ? `${line}\n[pause ${turn.pauseAfterSeconds}s]` : line;
+};
+
+export const sectionToText = (section: ScriptSection): string => {
+    return section.turns.map(turnToText).join('\n\n');
+};
+
+// Plain-text rendering used for display, copy/paste and exports.
+export const scriptToText = (script: PrayerScript | null | undefined): string => {
+    if (!script) return '';
+    return script.sections.map(sectionToText).filter(Boolean).join('\n\n');
+};
+
+// Canonical form used to compare speaker names: case, spacing and a trailing colon are ignored.
+export const normalizeSpeakerName = (name: string): string => {
+    return name.trim().replace(/:$/, '').replace(/\s+/g, ' ').toLowerCase();
+};
+
+// Distinct speakers in order of first appearance.
+export const scriptSpeakers = (script: PrayerScript): string[] => {
+    const seen = new Map<string, string>();
+    script.sections.forEach(section => section.turns.forEach(turn => {
+        const key = normalizeSpeakerName(turn.speaker);
+        if (!seen.has(key)) seen.set(key, turn.speaker.trim());
+    }));
+    return Array.from(seen.values());
+};
+
+export const scriptScriptureRefs = (script: PrayerScript): string[] => {
+    const refs = script.sections.flatMap(section => section.turns.flatMap(turn => turn.scriptureRefs || []));
+    return Array.from(new Set(refs.map(ref => ref.trim()).filter(Boolean)));
+};
+
+type UntrustedObject = { [key: string]: unknown };
+
+const isUntrustedObject = (value: unknown): value is UntrustedObject => typeof value === 'object' && value !== null;
+
+const nonEmptyString = (value: unknown): string | undefined => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const normalizeTurn = (raw: unknown): ScriptTurn | null => {
+    if (!isUntrustedObject(raw)) return null;
+    const text = nonEmptyString(raw.text);
+    if (!text) return null;
+    const { speaker, pauseAfterSeconds, scriptureRefs } = raw;
+    return {
+        speaker: typeof speaker === 'string' || typeof speaker === 'number' ? String(speaker).trim() : '',
+        text,
+        ...(typeof pauseAfterSeconds === 'number' && pauseAfterSeconds > 0 ? { pauseAfterSeconds } : {}),
+        ...(Array.isArray(scriptureRefs) && scriptureRefs.length ? { scriptureRefs: scriptureRefs.map(String) } : {}),
+    };
+};
+
+// Sanitizes a section returned by the model: drops empty turns and coerces optional fields.
+export const normalizeSection = (raw: unknown, fallbackTitle: string): ScriptSection => {
+    const section = isUntrustedObject(raw) ? raw : {};
+    const turns = Array.isArray(section.turns) ? section.turns : [];
+    return {
+        title: nonEmptyString(section.title) ?? fallbackTitle,
+        turns: turns.map(normalizeTurn).filter((turn): turn is ScriptTurn => turn !== null),
+    };
+};
+
+const splitLongText = (text: string): string[] => {
+    if (text.length <= MAX_BLOCK_CHARS) return [text];
+    // Split by sentences roughly
+    const sentences = text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || [text];
+    const parts: string[] = [];
+    let temp = '';
+    for (const sentence of sentences) {
+        if (temp && (temp + sentence).length > MAX_BLOCK_CHARS) {
+            parts.push(temp);
+            temp = sentence.trim();
+        } else {
+            temp += temp ? ' ' + sentence.trim() : sentence.trim();
+        }
+    }
+    if (temp) parts.push(temp);
+    return parts;
+};
+
+// Flattens the script into TTS-sized blocks, keeping a reference back to the originating turn.
+// Pacing cues and `pauseAfterSeconds` become silence blocks.
+export const scriptToSpeechBlocks = (script: PrayerScript): SpeechBlock[] => {
+    const blocks: SpeechBlock[] = [];
+    script.sections.forEach((section, sectionIndex) => {
+        section.turns.forEach((turn, turnIndex) => {
+            const pause = (seconds: number) => blocks.push({ speaker: turn.speaker, text: '', sectionIndex, turnIndex, pauseSeconds: seconds });
+            for (const segment of parseSpeechCues(turn.text)) {
+                if (segment.kind === 'pause') {
+                    pause(segment.seconds);
+                    continue;
+                }
+                for (const text of splitLongText(segment.text)) {
+                    blocks.push({ speaker: turn.speaker, text, sectionIndex, turnIndex });
+                }
+            }
+            if (turn.pauseAfterSeconds) pause(Math.min(MAX_CUE_SECONDS, turn.pauseAfterSeconds));
+        });
+    });
+    return blocks;
+};
+
+// Stable identifier of a turn, used to track edits and re-voicing.
+export const turnKey = (sectionIndex: number, turnIndex: number): string => `${sectionIndex}:${turnIndex}`;
+
+export const parseTurnKey = (key: string): { sectionIndex: number; turnIndex: number } => {
+    const [sectionIndex, turnIndex] = key.split(':').map(Number);
+    return { sectionIndex, turnIndex };
+};
+
+// Returns a copy of the script with one turn replaced.
+export const replaceScriptTurn = (script: PrayerScript, sectionIndex: number, turnIndex: number, turn: ScriptTurn): PrayerScript => ({
+    sections: script.sections.map((section, s) => s !== sectionIndex ? section : {
+        ...section,
+        turns: section.turns.map((current, t) => t === turnIndex ? turn : current),
+    }),
+});
@@ -0,0 +1,39 @@
+// Detects quota / rate-limit failures from the Gemini SDK (ApiError.status === 429)
+// as well as the raw `{ error: { status: 'RESOURCE_EXHAUSTED' } }` payloads.
+export const isRateLimitError = (e: unknown): boolean => {
+    if (typeof e !== 'object' || e === null) return false;
+    const nested = (e as { error?: unknown }).error;
+    const errorPayload = (typeof nested === 'object' && nested !== null ? nested : e) as { status?: unknown; code?: unknown; message?: unknown };
+    if (errorPayload.status === 'RESOURCE_EXHAUSTED' || errorPayload.status === 429 || errorPayload.code === 429) {
+        return true;
+    }
+    return typeof errorPayload.message === 'string' && errorPayload.message.includes('RESOURCE_EXHAUSTED');
+};
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+// Runs `fn` with exponential backoff. Rate-limit errors wait twice as long
+// because the quota window needs time to refill.
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, onRetry } = options;
+    let attempt = 0;
+    while (true) {
+        try {
+            return await fn(attempt);
+        } catch (e) {
+            if (attempt >= retries) throw e;
+            const multiplier = isRateLimitError(e) ? 2 : 1;
+            const delayMs = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt) * multiplier);
+            attempt++;
+            if (onRetry) onRetry(attempt, e, delayMs);
+            await sleep(delayMs);
+        }
+    }
+}
@@ -0,0 +1,177 @@
+import { PrayerScript, ScriptTurn } from '../types';
+import { normalizeSpeakerName, parseSpeechCues } from './prayerScript';
+import { DEFAULT_WORDS_PER_MINUTE, scriptWordCount } from './pacing';
+
+export type LintRule = 'unknownSpeaker' | 'metaText' | 'markdown' | 'language' | 'duplicate' | 'wordCount';
+
+// Sync fixes are applied by `applyLintFix`; 'translate' needs the model and is left to the caller.
+export type LintFix = 'replaceSpeaker' | 'stripMeta' | 'stripMarkdown' | 'removeTurn' | 'translate';
+
+export interface LintFinding {
+    rule: LintRule;
+    severity: 'error' | 'warning';
+    sectionIndex?: number; // Missing for findings about the whole script.
+    turnIndex?: number;
+    excerpt?: string;
+    params?: Record<string, string | number>; // Values interpolated into the translated message.
+    fix?: LintFix;
+}
+
+export interface LintOptions {
+    language: string; // 'pt' | 'en' | 'es'
+    allowedSpeakers?: string[]; // Names and aliases of the voice cast; no speaker check when missing.
+    replacementSpeaker?: string; // Speaker assigned by the 'replaceSpeaker' fix.
+    targetMinutes?: number; // No word count check when missing.
+    wordsPerMinute?: number;
+}
+
+const WORD_COUNT_TOLERANCE = 0.2;
+
+const DUPLICATE_SIMILARITY = 0.75;
+const DUPLICATE_MIN_WORDS = 8;
+const LANGUAGE_MIN_WORDS = 12;
+
+const LANGUAGE_NAMES: Record<string, string> = { pt: 'Portuguese', en: 'English', es: 'Spanish' };
+
+// Frequent function words that are (mostly) exclusive to each language.
+const STOPWORDS: Record<string, Set<string>> = {
+    pt: new Set(['não', 'você', 'nós', 'são', 'estão', 'também', 'então', 'nosso', 'nossa', 'meu', 'minha', 'ele', 'ela', 'isso', 'muito', 'mas', 'com', 'uma', 'pelo', 'pela', 'ao', 'às', 'em', 'do', 'da', 'dos', 'das', 'é', 'coração', 'senhor', 'obrigado', 'agora']),
+    en: new Set(['the', 'and', 'you', 'your', 'is', 'are', 'we', 'our', 'my', 'with', 'of', 'to', 'in', 'that', 'this', 'for', 'be', 'it', 'lord', 'heart', 'now', 'who', 'will', 'have', 'all']),
+    es: new Set(['el', 'los', 'las', 'y', 'usted', 'tú', 'nosotros', 'nuestro', 'nuestra', 'mi', 'con', 'pero', 'muy', 'están', 'también', 'entonces', 'corazón', 'señor', 'gracias', 'ahora', 'es', 'del', 'al', 'una', 'por']),
+};
+
+// Chatter the model sometimes adds around the script; it must never be narrated.
+const META_PATTERNS: RegExp[] = [
+    /^\s*(?:here(?:'s| is| are)|aqui (?:está|estão|vai|segue)|segue(?:m)?|aquí (?:está|tienes|va)|claro|sure|certainly|com certeza|por supuesto)\b[^.!?:\n]*(?:script|roteiro|guion|guión|prayer|oração|oración)[^.!?:\n]*[.!?:]\s*/i,
+    /^\s*(?:script|roteiro|guion|guión|transcript)\s*:\s*/i,
+    /[^.!?\n]*\b(?:as an ai|language model|como (?:uma )?ia|modelo de linguagem|modelo de lenguaje)\b[^.!?\n]*[.!?]?\s*/gi,
+    /\(?\s*(?:end of (?:the )?script|fim do roteiro|fin del guion)\s*\)?\.?\s*$/i,
+];
+
+const MARKDOWN_PATTERN = /\*\*|__|`|^\s*#{1,6}\s|^\s*[-*]\s+/m;
+
+const excerptOf = (text: string) => text.length > 80 ? `${text.slice(0, 80)}…` : text;
+
+// Spoken words only: pacing cues are not read aloud.
+const spokenWords = (text: string): string[] => parseSpeechCues(text)
+    .flatMap(segment => segment.kind === 'speech' ? segment.text.toLowerCase().match(/[\p{L}']+/gu) || [] : []);
+
+// Returns the language whose stopwords dominate the text, or null when it is too close to call.
+export const detectLanguage = (text: string): string | null => {
+    const words = spokenWords(text);
+    const scores = Object.entries(STOPWORDS)
+        .map(([language, stopwords]) => ({ language, score: words.filter(word => stopwords.has(word)).length }))
+        .sort((a, b) => b.score - a.score);
+    const [best, second] = scores;
+    if (best.score < 3 || best.score < second.score * 2) return null;
+    return best.language;
+};
+
+const shingles = (words: string[]): Set<string> => {
+    const result = new Set<string>();
+    for (let i = 0; i + 3 <= words.length; i++) result.add(words.slice(i, i + 3).join(' '));
+    return result;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(item => { if (b.has(item)) shared++; });
+    return shared / (a.size + b.size - shared);
+};
+
+export const stripMetaText = (text: string): string =>
+    META_PATTERNS.reduce((result, pattern) => result.replace(pattern, ''), text).trim();
+
+export const stripMarkdown = (text: string): string => text
+    .replace(/^\s*#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*]\s+/gm, '')
+    .replace(/\*\*|__|`/g, '')
+    .trim();
+
+export const lintScript = (script: PrayerScript, options: LintOptions): LintFinding[] => {
+    const findings: LintFinding[] = [];
+    const allowed = options.allowedSpeakers ? new Set(options.allowedSpeakers.map(normalizeSpeakerName)) : null;
+    const seen: { sectionIndex: number; turnIndex: number; shingles: Set<string> }[] = [];
+
+    script.sections.forEach((section, sectionIndex) => section.turns.forEach((turn, turnIndex) => {
+        const at = { sectionIndex, turnIndex, excerpt: excerptOf(turn.text) };
+        const words = spokenWords(turn.text);
+
+        if (allowed && !allowed.has(normalizeSpeakerName(turn.speaker))) {
+            findings.push({ ...at, rule: 'unknownSpeaker', severity: 'warning', params: { speaker: turn.speaker }, fix: options.replacementSpeaker ? 'replaceSpeaker' : undefined });
+        }
+        if (META_PATTERNS.some(pattern => new RegExp(pattern.source, pattern.flags.replace('g', '')).test(turn.text))) {
+            findings.push({ ...at, rule: 'metaText', severity: 'error', fix: stripMetaText(turn.text) ? 'stripMeta' : 'removeTurn' });
+        }
+        if (MARKDOWN_PATTERN.test(turn.text)) {
+            findings.push({ ...at, rule: 'markdown', severity: 'warning', fix: 'stripMarkdown' });
+        }
+        if (words.length >= LANGUAGE_MIN_WORDS) {
+            const detected = detectLanguage(turn.text);
+            if (detected && detected !== options.language) {
+                findings.push({ ...at, rule: 'language', severity: 'error', params: { detected: detected.toUpperCase() }, fix: 'translate' });
+            }
+        }
+        if (words.length >= DUPLICATE_MIN_WORDS) {
+            const current = shingles(words);
+            const original = seen.find(other => jaccard(other.shingles, current) >= DUPLICATE_SIMILARITY);
+            if (original) {
+                findings.push({ ...at, rule: 'duplicate', severity: 'warning', params: { section: original.sectionIndex + 1, turn: original.turnIndex + 1 }, fix: 'removeTurn' });
+            } else {
+                seen.push({ sectionIndex, turnIndex, shingles: current });
+            }
+        }
+    }));
+
+    if (options.targetMinutes) {
+        const words = scriptWordCount(script);
+        const expected = Math.round(options.targetMinutes * (options.wordsPerMinute || DEFAULT_WORDS_PER_MINUTE));
+        if (expected > 0 && Math.abs(words - expected) / expected > WORD_COUNT_TOLERANCE) {
+            findings.push({ rule: 'wordCount', severity: 'warning', params: { words, expected, minutes: options.targetMinutes } });
+        }
+    }
+    return findings;
+};
+
+const updateTurn = (script: PrayerScript, sectionIndex: number, turnIndex: number, update: (turn: ScriptTurn) => ScriptTurn | null): PrayerScript => ({
+    sections: script.sections.map((section, s) => s !== sectionIndex ? section : {
+        ...section,
+        turns: section.turns.flatMap((turn, t) => {
+            if (t !== turnIndex) return [turn];
+            const updated = update(turn);
+            return updated ? [updated] : [];
+        }),
+    }),
+});
+
+// Applies a sync fix; returns the script unchanged for findings without one.
+export const applyLintFix = (script: PrayerScript, finding: LintFinding, options: LintOptions): PrayerScript => {
+    const { sectionIndex, turnIndex } = finding;
+    if (sectionIndex === undefined || turnIndex === undefined) return script;
+    switch (finding.fix) {
+        case 'replaceSpeaker':
+            return options.replacementSpeaker ? updateTurn(script, sectionIndex, turnIndex, turn => ({ ...turn, speaker: options.replacementSpeaker! })) : script;
+        case 'stripMeta':
+            return updateTurn(script, sectionIndex, turnIndex, turn => ({ ...turn, text: stripMetaText(turn.text) }));
+        case 'stripMarkdown':
+            return updateTurn(script, sectionIndex, turnIndex, turn => ({ ...turn, text: stripMarkdown(turn.text) }));
+        case 'removeTurn':
+            return updateTurn(script, sectionIndex, turnIndex, () => null);
+        default:
+            return script;
+    }
+};
+
+// Applies every sync fix. Findings are handled from the last turn backwards so removing
+// a turn does not shift the indices of the ones still pending.
+export const applyAllLintFixes = (script: PrayerScript, findings: LintFinding[], options: LintOptions): PrayerScript => {
+    const order = (f: LintFinding) => (f.sectionIndex ?? -1) * 1e6 + (f.turnIndex ?? -1) * 10 + (f.fix === 'removeTurn' ? 0 : 1);
+    return [...findings]
+        .filter(f => f.fix && f.fix !== 'translate')
+        .sort((a, b) => order(b) - order(a))
+        .reduce((result, finding) => applyLintFix(result, finding, options), script);
+};
+
+export const translateInstruction = (language: string): string =>
+    `Rewrite this turn entirely in ${LANGUAGE_NAMES[language] || language}, keeping its meaning and tone.`;
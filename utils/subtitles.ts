@@ -0,0 +1,91 @@
+import { TimedBlock } from '../types';
+
+export interface SubtitleCue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_CHARS = MAX_LINE_CHARS * 2;
+
+// Splits text into pieces of at most `max` characters, preferring sentence and clause boundaries.
+const splitCueText = (text: string, max: number): string[] => {
+    const phrases = text.match(/[^.!?;:,]+[.!?;:,]*\s*/g) || [text];
+    const pieces: string[] = [];
+    let current = '';
+    const push = () => {
+        if (current.trim()) pieces.push(current.trim());
+        current = '';
+    };
+    for (const phrase of phrases) {
+        if ((current + phrase).trim().length <= max) {
+            current += phrase;
+            continue;
+        }
+        push();
+        if (phrase.trim().length <= max) {
+            current = phrase;
+            continue;
+        }
+        // A single clause longer than a cue: break between words
+        for (const word of phrase.trim().split(/\s+/)) {
+            if (current && (current + ' ' + word).length > max) push();
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    push();
+    return pieces;
+};
+
+// Wraps a cue onto at most two balanced lines.
+const wrapCueLines = (text: string): string => {
+    if (text.length <= MAX_LINE_CHARS) return text;
+    const middle = text.length / 2;
+    let best = -1;
+    for (let i = text.indexOf(' '); i !== -1; i = text.indexOf(' ', i + 1)) {
+        if (best === -1 || Math.abs(i - middle) < Math.abs(best - middle)) best = i;
+    }
+    return best === -1 ? text : `${text.slice(0, best)}\n${text.slice(best + 1)}`;
+};
+
+// Turns the narration timing map into readable cues. Long blocks are split and their time
+// shared out in proportion to the characters of each piece.
+export const timingsToCues = (timings: TimedBlock[]): SubtitleCue[] => {
+    const cues: SubtitleCue[] = [];
+    for (const timing of timings) {
+        const pieces = splitCueText(timing.text.replace(/\s+/g, ' ').trim(), MAX_CUE_CHARS);
+        const totalChars = pieces.reduce((acc, piece) => acc + piece.length, 0);
+        let start = timing.start;
+        for (const piece of pieces) {
+            const end = start + (timing.end - timing.start) * (piece.length / totalChars);
+            cues.push({ start, end, text: wrapCueLines(piece) });
+            start = end;
+        }
+    }
+    return cues;
+};
+
+const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const h = String(Math.floor(totalMs / 3600000)).padStart(2, '0');
+    const m = String(Math.floor((totalMs % 3600000) / 60000)).padStart(2, '0');
+    const s = String(Math.floor((totalMs % 60000) / 1000)).padStart(2, '0');
+    const ms = String(totalMs % 1000).padStart(3, '0');
+    return `${h}:${m}:${s}${separator}${ms}`;
+};
+
+export const cuesToSrt = (cues: SubtitleCue[]): string =>
+    cues.map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`).join('\n');
+
+export const cuesToVtt = (cues: SubtitleCue[]): string =>
+    `WEBVTT\n\n` + cues.map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`).join('\n');
+
+// SRT and WebVTT files for a narration, ready to store or zip.
+export const createSubtitleFiles = (timings: TimedBlock[]): { srt: Blob; vtt: Blob } => {
+    const cues = timingsToCues(timings);
+    return {
+        srt: new Blob([cuesToSrt(cues)], { type: 'application/x-subrip' }),
+        vtt: new Blob([cuesToVtt(cues)], { type: 'text/vtt' }),
+    };
+};
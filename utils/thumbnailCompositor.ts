@@ -0,0 +1,120 @@
+import { THUMBNAIL_FONTS, ThumbnailStyle } from '../settings';
+import { ThumbnailText } from '../types';
+
+// Thumbnails are generated without text and the copy is drawn here, so accents and spelling
+// are always right and every thumbnail uses the channel's fonts and colors.
+
+const MARGIN = 0.05; // Of the image height, around the text block.
+const MAX_WIDTH = 0.9; // Of the image width.
+const HEADLINE_SIZE = 0.16; // Starting font size, of the image height; shrunk until the text fits.
+const SUBHEADLINE_SCALE = 0.5;
+const MIN_SIZE = 0.04;
+const MAX_LINES = 2;
+const LINE_HEIGHT = 1.08;
+
+const fontFor = (style: ThumbnailStyle, size: number) => {
+    const font = THUMBNAIL_FONTS.find(candidate => candidate.family === style.fontFamily) || THUMBNAIL_FONTS[0];
+    return `${font.weight} ${Math.round(size)}px "${font.family}", Impact, sans-serif`;
+};
+
+// Waits for the channel font so the first draw does not fall back to the system font.
+// A font that cannot be loaded (offline) only costs the fallback.
+export const loadThumbnailFont = async (style: ThumbnailStyle): Promise<void> => {
+    try {
+        await document.fonts.load(fontFor(style, 64));
+    } catch (error) {
+        console.warn("Thumbnail font could not be loaded:", error);
+    }
+};
+
+const wrapWords = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const current = lines[lines.length - 1];
+        if (current !== undefined && ctx.measureText(`${current} ${word}`).width <= maxWidth) {
+            lines[lines.length - 1] = `${current} ${word}`;
+        } else {
+            lines.push(word);
+        }
+    }
+    return lines;
+};
+
+// Largest size (from `startSize` down) at which the text wraps into MAX_LINES lines that fit.
+const fitText = (ctx: CanvasRenderingContext2D, text: string, style: ThumbnailStyle, startSize: number, minSize: number, maxWidth: number) => {
+    let size = startSize;
+    for (;;) {
+        ctx.font = fontFor(style, size);
+        const lines = wrapWords(ctx, text, maxWidth);
+        const fits = lines.length <= MAX_LINES && lines.every(line => ctx.measureText(line).width <= maxWidth);
+        if (fits || size * 0.9 < minSize) return { lines, size };
+        size *= 0.9;
+    }
+};
+
+// Cover-fits the image to the canvas and draws the headline and subheadline on top.
+export const drawThumbnail = (ctx: CanvasRenderingContext2D, image: CanvasImageSource & { width: number; height: number }, text: ThumbnailText, style: ThumbnailStyle) => {
+    const { width, height } = ctx.canvas;
+    const cover = Math.max(width / image.width, height / image.height);
+    ctx.drawImage(image, (width - image.width * cover) / 2, (height - image.height * cover) / 2, image.width * cover, image.height * cover);
+
+    const transform = (value: string) => style.uppercase ? value.toLocaleUpperCase() : value;
+    const maxWidth = width * MAX_WIDTH;
+    const base = Math.min(width, height);
+    const headline = fitText(ctx, transform(text.headline.trim()), style, base * HEADLINE_SIZE, base * MIN_SIZE, maxWidth);
+    const subheadline = fitText(ctx, transform(text.subheadline.trim()), style, headline.size * SUBHEADLINE_SCALE, base * MIN_SIZE * 0.75, maxWidth);
+    const blocks = [
+        { ...headline, color: style.headlineColor },
+        { ...subheadline, color: style.subheadlineColor },
+    ].filter(block => block.lines.length > 0);
+
+    const gap = subheadline.size * 0.3;
+    const blockHeight = blocks.reduce((sum, block) => sum + block.lines.length * block.size * LINE_HEIGHT, 0) + (blocks.length > 1 ? gap : 0);
+    const margin = height * MARGIN;
+    let y = style.position === 'top' ? margin : style.position === 'center' ? (height - blockHeight) / 2 : height - margin - blockHeight;
+
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.lineJoin = 'round';
+    for (const block of blocks) {
+        ctx.font = fontFor(style, block.size);
+        for (const line of block.lines) {
+            // Outline (and shadow) first, then the fill on top so the outline only shows outside the letters
+            if (style.shadow) {
+                ctx.shadowColor = 'rgba(0, 0, 0, 0.75)';
+                ctx.shadowBlur = block.size * 0.25;
+                ctx.shadowOffsetY = block.size * 0.06;
+            }
+            if (style.strokeWidth > 0) {
+                ctx.lineWidth = block.size * style.strokeWidth * 2;
+                ctx.strokeStyle = style.strokeColor;
+                ctx.strokeText(line, width / 2, y);
+            }
+            if (style.strokeWidth > 0) ctx.shadowColor = 'transparent';
+            ctx.fillStyle = block.color;
+            ctx.fillText(line, width / 2, y);
+            ctx.shadowColor = 'transparent';
+            y += block.size * LINE_HEIGHT;
+        }
+        y += gap;
+    }
+    ctx.restore();
+};
+
+// Draws the text over a stored image at its own resolution and returns a PNG.
+export const composeThumbnail = async (image: Blob, text: ThumbnailText, style: ThumbnailStyle): Promise<Blob> => {
+    await loadThumbnailFont(style);
+    const bitmap = await createImageBitmap(image);
+    try {
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas 2D context is not available.");
+        drawThumbnail(ctx, bitmap, text, style);
+        return await new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Thumbnail could not be encoded.")), 'image/png'));
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,318 @@
+import { SubtitleCue } from './subtitles';
+
+export interface VideoRenderOptions {
+    width: number;
+    height: number;
+    fps?: number;
+    subtitles?: SubtitleCue[]; // Burned into the picture when present.
+    onProgress?: (fraction: number) => void;
+}
+
+export type AudiogramVisualizer = 'waveform' | 'spectrum';
+
+export interface AudiogramOptions {
+    visualizer: AudiogramVisualizer;
+    startSeconds?: number;
+    durationSeconds?: number; // Whole narration when missing.
+    captions?: SubtitleCue[]; // Shown karaoke-style, word by word.
+    fps?: number;
+    onProgress?: (fraction: number) => void;
+}
+
+export interface RenderedVideo {
+    blob: Blob;
+    format: 'mp4' | 'webm';
+}
+
+// Preferred first: MP4 where the browser can record it, WebM otherwise.
+const RECORDER_TYPES: { mimeType: string; format: RenderedVideo['format'] }[] = [
+    { mimeType: 'video/mp4;codecs=avc1,mp4a.40.2', format: 'mp4' },
+    { mimeType: 'video/mp4', format: 'mp4' },
+    { mimeType: 'video/webm;codecs=vp9,opus', format: 'webm' },
+    { mimeType: 'video/webm;codecs=vp8,opus', format: 'webm' },
+    { mimeType: 'video/webm', format: 'webm' },
+];
+
+const KEN_BURNS_PERIOD_SECONDS = 60;
+const VIDEO_BITRATE = 2_500_000;
+const AUDIOGRAM_WIDTH = 1080;
+const AUDIOGRAM_HEIGHT = 1920;
+const SPECTRUM_BARS = 40;
+const HIGHLIGHT_COLOR = '#fbbf24'; // amber-400
+
+type FrameDrawer = (ctx: CanvasRenderingContext2D, image: ImageBitmap, t: number, analyser: AnalyserNode) => void;
+
+// Slow zoom and drift over a cover-fitted still. Both follow sine curves, so the motion never stops or jumps.
+const drawKenBurnsFrame = (ctx: CanvasRenderingContext2D, image: ImageBitmap, t: number) => {
+    const { width, height } = ctx.canvas;
+    const zoom = 1.1 + 0.06 * Math.sin((2 * Math.PI * t) / KEN_BURNS_PERIOD_SECONDS);
+    const cover = Math.max(width / image.width, height / image.height) * zoom;
+    const drawWidth = image.width * cover;
+    const drawHeight = image.height * cover;
+    const panX = ((drawWidth - width) / 2) * Math.sin((2 * Math.PI * t) / (KEN_BURNS_PERIOD_SECONDS * 1.7));
+    const panY = ((drawHeight - height) / 2) * Math.cos((2 * Math.PI * t) / (KEN_BURNS_PERIOD_SECONDS * 2.3));
+    ctx.drawImage(image, (width - drawWidth) / 2 + panX, (height - drawHeight) / 2 + panY, drawWidth, drawHeight);
+};
+
+const captionFont = (ctx: CanvasRenderingContext2D) => {
+    const fontSize = Math.round(Math.min(ctx.canvas.width, ctx.canvas.height) * 0.045);
+    ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = fontSize * 0.18;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+    return fontSize;
+};
+
+const drawSubtitle = (ctx: CanvasRenderingContext2D, text: string) => {
+    const { width, height } = ctx.canvas;
+    ctx.save();
+    const lineHeight = captionFont(ctx) * 1.3;
+    const lines = text.split('\n');
+    const bottom = height * 0.9;
+    ctx.fillStyle = '#ffffff';
+    lines.forEach((line, i) => {
+        const y = bottom - (lines.length - 1 - i) * lineHeight;
+        ctx.strokeText(line, width / 2, y);
+        ctx.fillText(line, width / 2, y);
+    });
+    ctx.restore();
+};
+
+// Active cue at time t. Time only moves forward, so the search resumes from the last hit.
+const createCueTracker = (cues: SubtitleCue[]) => {
+    let index = 0;
+    return (t: number): SubtitleCue | null => {
+        while (index < cues.length && cues[index].end <= t) index++;
+        const cue = cues[index];
+        return cue && cue.start <= t ? cue : null;
+    };
+};
+
+// Word-by-word caption: words light up as they are spoken (timed in proportion to their length)
+// and the text scrolls a line at a time, showing the current line and the next one.
+const drawKaraoke = (ctx: CanvasRenderingContext2D, cue: SubtitleCue, t: number) => {
+    const { width, height } = ctx.canvas;
+    ctx.save();
+    const fontSize = captionFont(ctx);
+    ctx.textAlign = 'left';
+    const words = cue.text.split(/\s+/).filter(Boolean);
+    const totalChars = words.reduce((acc, word) => acc + word.length + 1, 0);
+    let chars = 0;
+    const timed = words.map(word => {
+        const start = cue.start + (cue.end - cue.start) * (chars / totalChars);
+        chars += word.length + 1;
+        return { word, start };
+    });
+
+    const maxWidth = width * 0.86;
+    const space = ctx.measureText(' ').width;
+    const lines: { word: string; start: number; width: number }[][] = [[]];
+    let lineWidth = 0;
+    for (const item of timed) {
+        const wordWidth = ctx.measureText(item.word).width;
+        if (lines[lines.length - 1].length > 0 && lineWidth + space + wordWidth > maxWidth) {
+            lines.push([]);
+            lineWidth = 0;
+        }
+        lineWidth += (lineWidth > 0 ? space : 0) + wordWidth;
+        lines[lines.length - 1].push({ ...item, width: wordWidth });
+    }
+
+    const pending = lines.findIndex(line => line[line.length - 1].start > t);
+    const currentLine = pending === -1 ? lines.length - 1 : pending;
+    const visible = lines.slice(currentLine, currentLine + 2);
+    const lineHeight = fontSize * 1.4;
+    visible.forEach((line, i) => {
+        const total = line.reduce((acc, item) => acc + item.width, 0) + space * (line.length - 1);
+        let x = (width - total) / 2;
+        const y = height * 0.8 + i * lineHeight;
+        for (const item of line) {
+            ctx.fillStyle = item.start <= t ? HIGHLIGHT_COLOR : 'rgba(255, 255, 255, 0.75)';
+            ctx.strokeText(item.word, x, y);
+            ctx.fillText(item.word, x, y);
+            x += item.width + space;
+        }
+    });
+    ctx.restore();
+};
+
+const drawWaveform = (ctx: CanvasRenderingContext2D, analyser: AnalyserNode, centerY: number, amplitude: number) => {
+    const { width } = ctx.canvas;
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    ctx.save();
+    ctx.strokeStyle = HIGHLIGHT_COLOR;
+    ctx.lineWidth = 6;
+    ctx.lineCap = 'round';
+    ctx.shadowColor = 'rgba(251, 191, 36, 0.6)';
+    ctx.shadowBlur = 18;
+    ctx.beginPath();
+    const margin = width * 0.08;
+    for (let i = 0; i < samples.length; i++) {
+        const x = margin + ((width - margin * 2) * i) / (samples.length - 1);
+        const y = centerY + Math.max(-1, Math.min(1, samples[i] * 3)) * amplitude;
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+    ctx.restore();
+};
+
+// Log-spaced bars between ~80 Hz and ~8 kHz, mirrored around the center line.
+const drawSpectrum = (ctx: CanvasRenderingContext2D, analyser: AnalyserNode, centerY: number, amplitude: number) => {
+    const { width } = ctx.canvas;
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(bins);
+    const nyquist = analyser.context.sampleRate / 2;
+    const binOf = (freq: number) => Math.min(bins.length - 1, Math.round((freq / nyquist) * bins.length));
+    const margin = width * 0.08;
+    const slot = (width - margin * 2) / SPECTRUM_BARS;
+    ctx.save();
+    ctx.fillStyle = HIGHLIGHT_COLOR;
+    ctx.shadowColor = 'rgba(251, 191, 36, 0.6)';
+    ctx.shadowBlur = 12;
+    for (let bar = 0; bar < SPECTRUM_BARS; bar++) {
+        const from = binOf(80 * Math.pow(100, bar / SPECTRUM_BARS));
+        const to = Math.max(from + 1, binOf(80 * Math.pow(100, (bar + 1) / SPECTRUM_BARS)));
+        let peak = 0;
+        for (let b = from; b < to; b++) peak = Math.max(peak, bins[b]);
+        const barHeight = Math.max(6, (peak / 255) * amplitude);
+        ctx.fillRect(margin + bar * slot + slot * 0.2, centerY - barHeight / 2, slot * 0.6, barHeight);
+    }
+    ctx.restore();
+};
+
+// Calls `tick` every `intervalMs` from a worker timer, which a hidden tab does not throttle the
+// way it throttles the page's timers (or stops animation frames). Falls back to the page's timer.
+const startTicker = (intervalMs: number, tick: () => void): (() => void) => {
+    const url = URL.createObjectURL(new Blob([`setInterval(() => postMessage(0), ${intervalMs});`], { type: 'text/javascript' }));
+    try {
+        const worker = new Worker(url);
+        worker.onmessage = () => tick();
+        return () => {
+            worker.terminate();
+            URL.revokeObjectURL(url);
+        };
+    } catch (e) {
+        URL.revokeObjectURL(url);
+        console.warn("Worker timer unavailable, rendering on the page timer.", e);
+        const timer = setInterval(tick, intervalMs);
+        return () => clearInterval(timer);
+    }
+};
+
+// Plays the audio into a MediaRecorder together with a canvas repainted by `drawFrame`.
+// MediaRecorder captures in real time, so a 60-minute narration takes 60 minutes; the clock is the
+// audio itself, which keeps picture and captions in sync even when a background tab throttles the timer.
+const recordCanvasWithAudio = async (
+    audio: Blob,
+    image: Blob,
+    settings: { width: number; height: number; fps: number; startSeconds?: number; durationSeconds?: number; onProgress?: (fraction: number) => void },
+    drawFrame: FrameDrawer
+): Promise<RenderedVideo> => {
+    const recorderType = RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type.mimeType));
+    if (!recorderType) throw new Error("This browser cannot record video.");
+
+    const canvas = document.createElement('canvas');
+    canvas.width = settings.width;
+    canvas.height = settings.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+    // Created before the slow steps so it is as close as possible to the click that started the render (autoplay policy)
+    const audioCtx = new AudioContext();
+    const bitmap = await createImageBitmap(image).catch(async (e) => {
+        await audioCtx.close();
+        throw e;
+    });
+    try {
+        const buffer = await audioCtx.decodeAudioData(await audio.arrayBuffer());
+        const offset = Math.min(Math.max(0, settings.startSeconds ?? 0), buffer.duration);
+        const duration = Math.min(settings.durationSeconds ?? buffer.duration, buffer.duration - offset);
+        if (duration <= 0) throw new Error("The selected clip is outside the narration.");
+
+        const source = audioCtx.createBufferSource();
+        source.buffer = buffer;
+        const analyser = audioCtx.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0.7;
+        const destination = audioCtx.createMediaStreamDestination();
+        source.connect(analyser).connect(destination);
+
+        const stream = new MediaStream([...canvas.captureStream(settings.fps).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+        const recorder = new MediaRecorder(stream, { mimeType: recorderType.mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+        const stopped = new Promise<void>((resolve, reject) => {
+            recorder.onstop = () => resolve();
+            recorder.onerror = (e) => reject((e as Event & { error?: DOMException }).error || new Error("Video recording failed."));
+        });
+
+        drawFrame(ctx, bitmap, offset, analyser);
+        await audioCtx.resume();
+        recorder.start(1000);
+        const startedAt = audioCtx.currentTime;
+        const ended = new Promise<void>(resolve => { source.onended = () => resolve(); });
+        source.start(0, offset, duration);
+
+        let lastReported = -1;
+        const stopTicker = startTicker(1000 / settings.fps, () => {
+            const elapsed = audioCtx.currentTime - startedAt;
+            drawFrame(ctx, bitmap, offset + elapsed, analyser);
+            const percent = Math.floor((elapsed / duration) * 100);
+            if (percent !== lastReported) {
+                lastReported = percent;
+                settings.onProgress?.(Math.min(1, elapsed / duration));
+            }
+        });
+
+        try {
+            // A recorder error ends the render at once instead of when the audio runs out
+            await Promise.race([ended, stopped]);
+        } finally {
+            stopTicker();
+            source.onended = null;
+            source.stop();
+            if (recorder.state !== 'inactive') recorder.stop();
+            stream.getTracks().forEach(track => track.stop());
+        }
+        await stopped;
+        settings.onProgress?.(1);
+        return { blob: new Blob(chunks, { type: recorderType.mimeType.split(';')[0] }), format: recorderType.format };
+    } finally {
+        bitmap.close();
+        await audioCtx.close();
+    }
+};
+
+// Renders a still image with Ken Burns motion over the whole narration.
+export const renderNarrationVideo = async (audio: Blob, image: Blob, options: VideoRenderOptions): Promise<RenderedVideo> => {
+    const cueAt = createCueTracker(options.subtitles || []);
+    return recordCanvasWithAudio(audio, image, { ...options, fps: options.fps ?? 15 }, (ctx, bitmap, t) => {
+        drawKenBurnsFrame(ctx, bitmap, t);
+        const cue = cueAt(t);
+        if (cue) drawSubtitle(ctx, cue.text);
+    });
+};
+
+// 9:16 audiogram for shorts: the image with a darkened lower half, a live waveform or spectrum
+// and karaoke captions, cut to the requested part of the narration.
+export const renderAudiogram = async (audio: Blob, image: Blob, options: AudiogramOptions): Promise<RenderedVideo> => {
+    const cueAt = createCueTracker(options.captions || []);
+    const settings = { ...options, width: AUDIOGRAM_WIDTH, height: AUDIOGRAM_HEIGHT, fps: options.fps ?? 30 };
+    return recordCanvasWithAudio(audio, image, settings, (ctx, bitmap, t, analyser) => {
+        const { width, height } = ctx.canvas;
+        drawKenBurnsFrame(ctx, bitmap, t);
+        const shade = ctx.createLinearGradient(0, height * 0.45, 0, height);
+        shade.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        shade.addColorStop(0.35, 'rgba(0, 0, 0, 0.55)');
+        shade.addColorStop(1, 'rgba(0, 0, 0, 0.8)');
+        ctx.fillStyle = shade;
+        ctx.fillRect(0, height * 0.45, width, height * 0.55);
+        if (options.visualizer === 'spectrum') drawSpectrum(ctx, analyser, height * 0.66, height * 0.12);
+        else drawWaveform(ctx, analyser, height * 0.66, height * 0.06);
+        const cue = cueAt(t);
+        if (cue) drawKaraoke(ctx, cue, t);
+    });
+};